@@ -0,0 +1,64 @@
+import type { Schema } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { toAntdRules } from '../../src/adapters/antd'
+import { toElementPlusRules } from '../../src/adapters/element-plus'
+import * as rules from '../../src/rules'
+
+/**
+ * 统一各 UI 库规则的调用方式：取出规则对象，并以 Promise 形式运行验证（失败时返回 Error）
+ */
+interface AdapterCase {
+  name: string
+  convert: (schema: Schema) => Record<string, any[]>
+  resolve: (rule: any) => Record<string, any>
+  triggerKey: string
+  run: (rule: any, value: any, values: Record<string, any>) => Promise<Error | string | undefined>
+  defaultTrigger: string[]
+  blurTrigger: string[]
+}
+
+const form = (values: Record<string, any>) => ({ getFieldsValue: () => values })
+
+const adapters: AdapterCase[] = [
+  {
+    name: 'toAntdRules',
+    convert: schema => toAntdRules(schema),
+    resolve: rule => rule(form({})),
+    triggerKey: 'validateTrigger',
+    run: (rule, value, values) => rule(form(values)).validator({}, value).then(() => undefined, (error: Error) => error),
+    defaultTrigger: ['onChange', 'onBlur'],
+    blurTrigger: ['onBlur'],
+  },
+  {
+    name: 'toElementPlusRules',
+    convert: schema => toElementPlusRules(schema),
+    resolve: rule => rule,
+    triggerKey: 'trigger',
+    run: (rule, value, values) => new Promise(resolve => rule.validator({}, value, resolve, values)),
+    defaultTrigger: ['change', 'blur'],
+    blurTrigger: ['blur'],
+  },
+]
+
+describe.each(adapters)('$name', ({ convert, resolve, triggerKey, run, defaultTrigger, blurTrigger }) => {
+  const generated = convert({
+    email: { type: 'email', required: true, message: '邮箱格式不正确' },
+    confirm: [
+      { type: 'string' },
+      { validator: rules.matchField('password'), trigger: 'blur' },
+      { validator: rules.minLength(3), trigger: 'submit' },
+    ],
+  })
+
+  it('should map required flags and triggers', () => {
+    expect(resolve(generated.email[0])).toMatchObject({ required: true, [triggerKey]: defaultTrigger })
+    expect(generated.confirm.map(rule => resolve(rule)[triggerKey])).toEqual([defaultTrigger, blurTrigger, []])
+  })
+
+  it('should delegate to schema rules', async () => {
+    expect(await run(generated.email[0], 'invalid', { email: 'invalid' })).toEqual(new Error('邮箱格式不正确'))
+    expect(await run(generated.email[0], 'user@example.com', {})).toBeUndefined()
+    expect(await run(generated.confirm[1], 'abc', { password: 'abc' })).toBeUndefined()
+    expect(await run(generated.confirm[1], 'abd', { password: 'abc' })).toBeInstanceOf(Error)
+  })
+})
@@ -221,6 +221,7 @@ describe('Transformer', () => {
 
       const result = transformer.transform('  USER@EXAMPLE.COM  ')
       expect(result).toBe('user@example.com')
+      expect(transformers.email({ gmail: true }).transform(' John.Doe+news@GoogleMail.com ')).toBe('johndoe@gmail.com')
     })
 
     it('should have username transformer preset', () => {
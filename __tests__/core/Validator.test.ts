@@ -87,9 +87,55 @@ describe('Validator', () => {
       const result = await validator.validate('abc')
       expect(result.valid).toBe(false)
       expect(result.code).toBe('MIN_LENGTH')
+      expect(result.errors).toBeUndefined()
     })
-  })
-})
 
+    it('should collect all errors when disabled', async () => {
+      const validator = createValidator<string>({ stopOnFirstError: false })
+        .rule({ name: 'minLength', validator: rules.minLength(8) })
+        .rule({ name: 'email', validator: rules.email, message: 'bad email' })
+        .rule({ name: 'alpha', validator: rules.alpha })
+
+      const result = await validator.validate('ab1')
+      expect(result.valid).toBe(false)
+      expect(result.code).toBe('MIN_LENGTH')
+      expect(result.errors?.map(error => error.rule)).toEqual(['minLength', 'email', 'alpha'])
+      expect(result.errors?.[1]).toMatchObject({ code: 'INVALID_EMAIL', message: 'bad email' })
+    })
+
+    it('should collect all errors in validateSync', () => {
+      const validator = createValidator<string>({ stopOnFirstError: false, pool: true })
+        .rule({ name: 'minLength', validator: rules.minLength(8) })
+        .rule({ name: 'alpha', validator: rules.alpha })
+
+      const result = validator.validateSync('ab1')
+      expect(result.errors).toHaveLength(2)
+
+      const passed = validator.validateSync('abcdefgh')
+      expect(passed.valid).toBe(true)
+      expect(passed.errors).toBeUndefined()
+    })
+
+    it('should report required failures in collect mode', async () => {
+      const validator = createValidator<string>({ stopOnFirstError: false })
+        .rule({ name: 'required', validator: rules.required, required: true })
+        .rule({ name: 'email', validator: rules.email })
 
+      const result = await validator.validate('')
+      expect(result.code).toBe('REQUIRED')
+      expect(result.errors).toEqual([expect.objectContaining({ rule: 'required', code: 'REQUIRED' })])
+    })
+  })
 
+  describe('trigger', () => {
+    it('should only run rules for the trigger in context', async () => {
+      const validator = createValidator<string>({ cache: false })
+        .rule({ name: 'minLength', validator: rules.minLength(3) })
+        .rule({ name: 'email', validator: rules.email, trigger: 'blur' })
+
+      expect((await validator.validate('abcd', { trigger: 'change' })).valid).toBe(true)
+      expect((await validator.validate('abcd', { trigger: 'blur' })).code).toBe('INVALID_EMAIL')
+      expect(validator.validateSync('abcd').code).toBe('INVALID_EMAIL')
+    })
+  })
+})
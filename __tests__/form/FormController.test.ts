@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createFormController } from '../../src/form/FormController'
+import * as rules from '../../src/rules'
+import { shouldRunOnTrigger } from '../../src/utils/trigger'
+
+/**
+ * 创建一个可手动完成的异步验证器
+ */
+function deferredValidator() {
+  const calls: Array<{ value: any, signal?: AbortSignal, resolve: (valid: boolean) => void }> = []
+
+  const validator = (value: any, context?: any) => new Promise<{ valid: boolean, message?: string }>((resolve) => {
+    calls.push({ value, signal: context?.signal, resolve: valid => resolve({ valid, message: valid ? undefined : 'taken' }) })
+  })
+
+  return { validator, calls }
+}
+
+/**
+ * 等待挂起的微任务和定时器执行完
+ */
+function flush() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+describe('formController', () => {
+  describe('triggers', () => {
+    it('should order change, blur and submit', () => {
+      expect(shouldRunOnTrigger(undefined, 'change')).toBe(true)
+      expect(shouldRunOnTrigger('blur', 'change')).toBe(false)
+      expect(shouldRunOnTrigger('blur', 'blur')).toBe(true)
+      expect(shouldRunOnTrigger('submit', 'blur')).toBe(false)
+      expect(shouldRunOnTrigger('submit', 'submit')).toBe(true)
+      expect(shouldRunOnTrigger('submit')).toBe(true)
+    })
+
+    it('should only run rules for the current trigger', async () => {
+      const onBlur = vi.fn(() => ({ valid: false, message: 'blur failed' }))
+      const form = createFormController({
+        name: [
+          { type: 'string', min: 3 },
+          { validator: onBlur, trigger: 'blur' },
+        ],
+      })
+
+      await form.setValue('name', 'jo')
+      expect(form.getFieldState('name').errors[0].code).toBe('MIN_LENGTH')
+
+      await form.setValue('name', 'john')
+      expect(form.getFieldState('name').valid).toBe(true)
+      expect(onBlur).not.toHaveBeenCalled()
+
+      await form.blur('name')
+      expect(onBlur).toHaveBeenCalledTimes(1)
+      expect(form.getFieldState('name')).toMatchObject({ touched: true, valid: false })
+    })
+  })
+
+  describe('field state', () => {
+    it('should track dirty against initial values', async () => {
+      const form = createFormController({
+        tags: { type: 'array' },
+      }, { initialValues: { tags: ['a'] } })
+
+      await form.setValue('tags', ['a', 'b'])
+      expect(form.getFieldState('tags').dirty).toBe(true)
+
+      await form.setValue('tags', ['a'])
+      expect(form.getFieldState('tags').dirty).toBe(false)
+      expect(form.getState().dirty).toBe(false)
+    })
+
+    it('should notify field and form subscribers', async () => {
+      const form = createFormController({ email: { type: 'email' } })
+      const fieldListener = vi.fn()
+      const formListener = vi.fn()
+
+      const unsubscribe = form.subscribe('email', fieldListener)
+      form.subscribe(formListener)
+
+      await form.setValue('email', 'invalid')
+
+      expect(fieldListener).toHaveBeenLastCalledWith(expect.objectContaining({ value: 'invalid', valid: false }))
+      expect(formListener).toHaveBeenLastCalledWith(expect.objectContaining({ valid: false, validating: false }))
+
+      unsubscribe()
+      fieldListener.mockClear()
+      await form.setValue('email', 'user@example.com')
+      expect(fieldListener).not.toHaveBeenCalled()
+    })
+
+    it('should revalidate dependent fields', async () => {
+      const form = createFormController({
+        password: { type: 'string' },
+        confirmPassword: { type: 'string', validator: rules.matchField('password') },
+        passwordHint: { type: 'string', validator: rules.excludesWith('confirmPassword') },
+      })
+
+      await form.setValue('password', 'secret')
+      await form.setValue('confirmPassword', 'secret')
+      expect(form.getFieldState('confirmPassword').valid).toBe(true)
+
+      await form.setValue('password', 'changed')
+      expect(form.getFieldState('confirmPassword').errors[0].code).toBe('FIELD_MISMATCH')
+      // 未验证过的间接依赖字段不会被提前验证
+      expect(form.getFieldState('passwordHint').validated).toBe(false)
+    })
+
+    it('should discard results of superseded validations', async () => {
+      const { validator, calls } = deferredValidator()
+      const form = createFormController({ username: { type: 'string', validator } })
+
+      const first = form.setValue('username', 'a')
+      await flush()
+      const second = form.setValue('username', 'ab')
+      await flush()
+
+      expect(calls[0].signal?.aborted).toBe(true)
+      calls[1].resolve(true)
+      await Promise.all([first, second])
+
+      expect(form.getFieldState('username')).toMatchObject({ validating: false, valid: true })
+    })
+  })
+
+  describe('submit', () => {
+    it('should validate all fields and call the submit handler', async () => {
+      const onSubmit = vi.fn()
+      const form = createFormController({
+        name: { type: 'string', required: true },
+        age: { type: 'number', default: 18 },
+      }, { onSubmit })
+
+      const failed = await form.submit()
+      expect(failed.valid).toBe(false)
+      expect(onSubmit).not.toHaveBeenCalled()
+      expect(form.getFieldState('name')).toMatchObject({ touched: true, valid: false })
+
+      await form.setValue('name', 'john')
+      const result = await form.submit()
+
+      expect(result.valid).toBe(true)
+      expect(onSubmit).toHaveBeenCalledWith({ name: 'john', age: 18 })
+      expect(form.getState().submitCount).toBe(2)
+    })
+
+    it('should supersede field validations in flight', async () => {
+      const { validator, calls } = deferredValidator()
+      const form = createFormController({ username: { type: 'string', validator } })
+
+      const pending = form.setValue('username', 'john')
+      await flush()
+      const submitting = form.submit()
+      await flush()
+
+      expect(form.submit()).toBe(submitting)
+      expect(calls[0].signal?.aborted).toBe(true)
+      expect(form.getState().submitting).toBe(true)
+
+      calls[1].resolve(false)
+      const result = await submitting
+      await pending
+
+      expect(result.valid).toBe(false)
+      expect(form.getFieldState('username').errors[0].message).toBe('taken')
+      expect(form.getState()).toMatchObject({ submitting: false, validating: false })
+    })
+
+    it('should reset values and state', async () => {
+      const form = createFormController({ name: { type: 'string', required: true } }, { initialValues: { name: 'a' } })
+
+      await form.setValue('name', '')
+      await form.blur('name')
+      form.reset()
+
+      expect(form.getValues()).toEqual({ name: 'a' })
+      expect(form.getFieldState('name')).toMatchObject({ touched: false, dirty: false, errors: [] })
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { presets } from '../../src/core/Composer'
+import { createValidator } from '../../src/core/Validator'
+import {
+  getGlobalCatalog,
+  localized,
+  MessageCatalog,
+  setGlobalCatalog,
+  setLocale,
+  t,
+} from '../../src/i18n'
+import * as rules from '../../src/rules'
+
+describe('messageCatalog', () => {
+  afterEach(() => {
+    setGlobalCatalog(new MessageCatalog())
+  })
+
+  describe('translate', () => {
+    it('should translate codes with interpolation', () => {
+      const catalog = new MessageCatalog()
+
+      expect(catalog.translate('MIN_LENGTH', { min: 8 })).toBe('最小长度为 8 个字符')
+      expect(catalog.translate('MIN_LENGTH', { min: 8 }, 'en-US')).toBe('Must be at least 8 characters')
+    })
+
+    it('should use default label when none is provided', () => {
+      const catalog = new MessageCatalog({ locale: 'en-US' })
+
+      expect(catalog.translate('REQUIRED')).toBe('This field is required')
+      expect(catalog.translate('REQUIRED', { label: 'Email' })).toBe('Email is required')
+    })
+
+    it('should fall back to same language and then fallback locale', () => {
+      const catalog = new MessageCatalog({ locale: 'en-GB' })
+
+      expect(catalog.translate('INVALID_EMAIL')).toBe(catalog.translate('INVALID_EMAIL', {}, 'en-US'))
+      expect(catalog.translate('INVALID_EMAIL', {}, 'fr-FR')).toBe('请输入有效的邮箱地址')
+    })
+
+    it('should return the code itself for unknown codes', () => {
+      const catalog = new MessageCatalog()
+      expect(catalog.translate('NOT_A_CODE')).toBe('NOT_A_CODE')
+      expect(catalog.has('NOT_A_CODE')).toBe(false)
+    })
+
+    it('should support overriding and extending messages', () => {
+      const catalog = new MessageCatalog({
+        locale: 'en-US',
+        messages: { 'en-US': { INVALID_PHONE: 'Please enter a mobile number' } },
+      })
+      catalog.addMessages('en-US', { MY_CODE: ({ count }) => `${count} item(s)` })
+
+      expect(catalog.translate('INVALID_PHONE')).toBe('Please enter a mobile number')
+      expect(catalog.translate('MY_CODE', { count: 2 })).toBe('2 item(s)')
+    })
+
+    it('should provide the same keys for every built-in locale', () => {
+      const catalog = new MessageCatalog()
+      const [base, ...others] = catalog.getLocales()
+      const keys = Object.keys((catalog as any).messages.get(base)).sort()
+
+      for (const locale of others) {
+        expect(Object.keys((catalog as any).messages.get(locale)).sort()).toEqual(keys)
+      }
+    })
+  })
+
+  describe('locale switching', () => {
+    it('should switch built-in rule messages at runtime', () => {
+      expect(rules.minLength(3)('ab').message).toBe('最小长度为 3 个字符')
+
+      setLocale('en-US')
+      expect(rules.minLength(3)('ab').message).toBe('Must be at least 3 characters')
+
+      setLocale('ja-JP')
+      expect(rules.email('invalid').message).toBe(t('INVALID_EMAIL', {}, 'ja-JP'))
+    })
+
+    it('should respect per-call locale from context', () => {
+      const result = rules.required('', { label: 'Name', locale: 'de-DE' })
+      expect(result.message).toBe(t('REQUIRED', { label: 'Name' }, 'de-DE'))
+    })
+
+    it('should notify locale change listeners', () => {
+      const catalog = new MessageCatalog()
+      const changes: string[] = []
+      const unsubscribe = catalog.onLocaleChange((locale, previous) => changes.push(`${previous}->${locale}`))
+
+      catalog.setLocale('en-US')
+      unsubscribe()
+      catalog.setLocale('de-DE')
+
+      expect(changes).toEqual(['zh-CN->en-US'])
+    })
+
+    it('should not serve cached messages across locales', async () => {
+      const validator = createValidator({ cache: true })
+      validator.rule({ name: 'email', validator: rules.email })
+
+      const zh = await validator.validate('invalid')
+      setLocale('en-US')
+      const en = await validator.validate('invalid')
+
+      expect(en.message).not.toBe(zh.message)
+    })
+  })
+
+  describe('localized', () => {
+    it('should resolve lazily using the current locale', () => {
+      const message = localized('PRESET_EMAIL_REQUIRED')
+
+      expect(message()).toBe(t('PRESET_EMAIL_REQUIRED', {}, 'zh-CN'))
+      setLocale('en-US')
+      expect(message()).toBe(t('PRESET_EMAIL_REQUIRED', {}, 'en-US'))
+    })
+
+    it('should localize composer presets', async () => {
+      setLocale('en-US')
+      const result = await presets.email().validate('invalid')
+      expect(result.message).toBe(t('PRESET_EMAIL_INVALID'))
+    })
+  })
+
+  describe('connect', () => {
+    it('should sync locale and prefer i18n resources', () => {
+      const handlers = new Map<string, (payload: any) => void>()
+      const i18n = {
+        locale: 'en-US',
+        t: (key: string) => `i18n:${key}`,
+        exists: (key: string) => key === 'validator.INVALID_EMAIL',
+        on: (event: string, handler: (payload: any) => void) => {
+          handlers.set(event, handler)
+          return () => handlers.delete(event)
+        },
+      }
+
+      const disconnect = getGlobalCatalog().connect(i18n)
+
+      expect(getGlobalCatalog().getLocale()).toBe('en-US')
+      expect(t('INVALID_EMAIL')).toBe('i18n:validator.INVALID_EMAIL')
+      expect(t('MIN_LENGTH', { min: 2 })).toBe('Must be at least 2 characters')
+
+      handlers.get('localeChanged')?.('de-DE')
+      expect(getGlobalCatalog().getLocale()).toBe('de-DE')
+
+      disconnect()
+      expect(handlers.size).toBe(0)
+      expect(t('INVALID_EMAIL')).toBe(t('INVALID_EMAIL', {}, 'de-DE'))
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { schemaResolver, toFieldErrors } from '../../src/react/resolver'
+import { createSchemaValidator } from '../../src/schema/SchemaValidator'
+
+const schema = {
+  email: { type: 'email', required: true },
+  address: {
+    type: 'object',
+    schema: { city: { type: 'string', required: true } },
+  },
+  items: {
+    type: 'array',
+    items: { type: 'object', schema: { sku: { type: 'string', required: true } } },
+  },
+  age: { type: 'number', default: 18 },
+} as const
+
+describe('schemaResolver', () => {
+  it('should map error paths to nested field errors', async () => {
+    const resolver = schemaResolver(schema)
+    const result = await resolver({
+      email: 'invalid',
+      address: {},
+      items: [{ sku: 'a' }, {}],
+    }, undefined, {})
+
+    expect(result.values).toEqual({})
+    expect(result.errors.email).toMatchObject({ type: 'INVALID_EMAIL' })
+    expect(result.errors.address.city).toMatchObject({ type: 'REQUIRED', message: expect.any(String) })
+    expect(Array.isArray(result.errors.items)).toBe(true)
+    expect(result.errors.items[0]).toBeUndefined()
+    expect(result.errors.items[1].sku.type).toBe('REQUIRED')
+  })
+
+  it('should return transformed values when valid', async () => {
+    const resolver = schemaResolver(createSchemaValidator(schema))
+    const values = { email: 'user@example.com', address: { city: 'Beijing' }, items: [] }
+
+    expect(await resolver(values, undefined, {})).toEqual({ values: { ...values, age: 18 }, errors: {} })
+    expect((await schemaResolver(schema, { raw: true })(values, undefined, {})).values).toEqual(values)
+  })
+
+  it('should only validate requested fields', async () => {
+    const resolver = schemaResolver(schema)
+    const result = await resolver({ email: 'user@example.com', address: {} }, undefined, { names: ['email'] })
+
+    expect(result.errors).toEqual({})
+  })
+
+  it('should include all error types in criteriaMode all', () => {
+    const errors = toFieldErrors({
+      valid: false,
+      errors: [],
+      errorMap: {
+        'tags[1]': [
+          { field: 'tags[1]', message: 'too short', code: 'MIN_LENGTH' },
+          { field: 'tags[1]', message: 'bad pattern', code: 'PATTERN' },
+        ],
+      },
+    }, 'all')
+
+    expect(errors.tags[1]).toEqual({
+      type: 'MIN_LENGTH',
+      message: 'too short',
+      types: { MIN_LENGTH: 'too short', PATTERN: 'bad pattern' },
+    })
+  })
+})
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import type { UseValidatorOptions, UseValidatorReturn } from '../../src/react/useValidator'
+import { act, createElement } from 'react'
+import { createRoot } from 'react-dom/client'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createValidator } from '../../src/core/Validator'
+import { useValidator } from '../../src/react/useValidator'
+import * as rules from '../../src/rules'
+
+const mounted: Array<ReturnType<typeof createRoot>> = []
+
+/**
+ * 渲染使用 useValidator 的组件，返回最新的 Hook 状态和重新渲染函数
+ */
+function renderValidator(value: string, validator: any, options?: UseValidatorOptions) {
+  const container = document.createElement('div')
+  const root = createRoot(container)
+  const state: { current?: UseValidatorReturn } = {}
+
+  const Field = (props: { value: string }) => {
+    state.current = useValidator(props.value, validator, options)
+    return null
+  }
+
+  const render = (next: string) => act(async () => {
+    root.render(createElement(Field, { value: next }))
+  })
+
+  mounted.push(root)
+  return { state, render: async () => render(value), rerender: render }
+}
+
+/**
+ * 等待挂起的微任务和定时器执行完
+ */
+function flush(ms = 0) {
+  return act(() => new Promise(resolve => setTimeout(resolve, ms)))
+}
+
+describe('react useValidator', () => {
+  beforeAll(() => {
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true
+  })
+
+  afterEach(() => {
+    mounted.splice(0).forEach(root => act(() => root.unmount()))
+  })
+
+  it('should validate when the value changes', async () => {
+    const validator = createValidator<string>().rule({ validator: rules.email })
+    const { state, render, rerender } = renderValidator('', validator)
+
+    await render()
+    expect(state.current?.result).toBeNull()
+
+    await rerender('invalid')
+    await flush()
+    expect(state.current?.valid).toBe(false)
+    expect(state.current?.error).toBeTruthy()
+
+    await rerender('user@example.com')
+    await flush()
+    expect(state.current?.valid).toBe(true)
+  })
+
+  it('should debounce checks and run blur rules on blur', async () => {
+    const check = vi.fn(async () => ({ valid: false, message: 'taken' }))
+    const validator = createValidator<string>({ cache: false })
+      .rule({ validator: rules.minLength(2) })
+      .rule({ validator: check, trigger: 'blur' })
+    const { state, render, rerender } = renderValidator('', validator, { debounce: 20 })
+
+    await render()
+    await rerender('a')
+    await rerender('ab')
+    await flush(40)
+
+    expect(state.current?.valid).toBe(true)
+    expect(check).not.toHaveBeenCalled()
+
+    await act(async () => {
+      await state.current?.blur()
+    })
+    expect(check).toHaveBeenCalledTimes(1)
+    expect(state.current?.error).toBe('taken')
+  })
+})
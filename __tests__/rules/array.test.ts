@@ -46,6 +46,32 @@ describe('Array Validation Rules', () => {
       expect(result.meta?.errors?.length).toBeGreaterThan(1)
     })
 
+    it('should report every failing index with its path', async () => {
+      const validator = arrayOf(email, { stopOnFirstError: false })
+
+      const result = await validator(['invalid1', 'test@example.com', 'invalid2'], { field: 'emails' })
+      expect(result.meta?.errors.map((error: any) => error.field)).toEqual(['emails[0]', 'emails[2]'])
+      expect(result.meta?.errors[1]).toMatchObject({ index: 2, code: 'INVALID_EMAIL' })
+      expect(result.meta?.truncated).toBe(false)
+    })
+
+    it('should cap collected errors with maxErrors', async () => {
+      const validator = arrayOf(email, { stopOnFirstError: false, maxErrors: 2 })
+
+      const result = await validator(['a', 'b', 'c', 'd'])
+      expect(result.meta?.errors).toHaveLength(2)
+      expect(result.meta?.errors[1].field).toBe('[1]')
+      expect(result.meta?.truncated).toBe(true)
+    })
+
+    it('should not mark as truncated when remaining items are valid', async () => {
+      const validator = arrayOf(email, { stopOnFirstError: false, maxErrors: 2 })
+
+      const result = await validator(['a', 'b', 'test@example.com', 'user@example.com'])
+      expect(result.meta?.errors).toHaveLength(2)
+      expect(result.meta?.truncated).toBe(false)
+    })
+
     it('should support custom error message with index placeholder', async () => {
       const validator = arrayOf(email, {
         message: '第 {index} 个邮箱格式不正确',
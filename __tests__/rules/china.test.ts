@@ -0,0 +1,59 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { bankCard, hkMacauPermit, licensePlate, lookupBankCard, passport, registerBankBin, uscc } from '../../src/rules/china'
+
+describe('china Rules', () => {
+  it('should validate unified social credit codes', () => {
+    expect(uscc('91350100M000100Y43')).toMatchObject({ valid: true, meta: { regionCode: '350100' } })
+    expect(uscc('91110000600037341l').valid).toBe(true)
+    expect((uscc('91350100M000100Y44') as ValidationResult).code).toBe('INVALID_USCC_CHECK')
+    expect((uscc('91350100M000100I43') as ValidationResult).code).toBe('INVALID_USCC')
+  })
+
+  describe('bankCard', () => {
+    it('should check Luhn and look up the issuer', () => {
+      const validate = bankCard()
+
+      expect(validate('6222 0200 0000 0000 000')).toEqual({
+        valid: true,
+        meta: { bin: '622202', network: 'UnionPay', bankCode: 'ICBC', bankName: '中国工商银行' },
+      })
+      expect((validate('6222020000000000001') as ValidationResult).code).toBe('INVALID_BANK_CARD_CHECK')
+      expect(bankCard({ luhn: false })('6222020000000000001').valid).toBe(true)
+      expect((validate('62220200') as ValidationResult).code).toBe('INVALID_BANK_CARD')
+    })
+
+    it('should require known issuers when configured', () => {
+      const validate = bankCard({ knownIssuer: true })
+
+      expect((validate('4111111111111111') as ValidationResult)).toMatchObject({
+        code: 'UNKNOWN_BANK_CARD_ISSUER',
+        meta: { bin: '411111', network: 'Visa' },
+      })
+
+      registerBankBin('411111', { bankCode: 'TEST', bankName: '测试银行' })
+      expect(validate('4111111111111111').valid).toBe(true)
+      expect(lookupBankCard('4111-1111-1111-1111').bankName).toBe('测试银行')
+    })
+  })
+
+  it('should validate license plates including new-energy plates', () => {
+    expect(licensePlate('京A12345')).toMatchObject({ valid: true, meta: { province: '京', type: 'regular' } })
+    expect(licensePlate('粤B·D12345')).toMatchObject({ valid: true, meta: { province: '粤', type: 'newEnergy' } })
+    expect(licensePlate('沪A12345F')).toMatchObject({ valid: true, meta: { type: 'newEnergy' } })
+    expect(licensePlate('苏E1234学').valid).toBe(true)
+    expect(licensePlate('京I12345').valid).toBe(false)
+    expect(licensePlate('A12345').valid).toBe(false)
+  })
+
+  it('should validate passports and Hong Kong/Macau permits', () => {
+    expect(passport('E12345678').valid).toBe(true)
+    expect(passport('EA1234567').valid).toBe(true)
+    expect(passport('G12345678').valid).toBe(true)
+    expect(passport('X12345678').valid).toBe(false)
+
+    expect(hkMacauPermit('C12345678')).toMatchObject({ valid: true, meta: { type: 'exitEntry' } })
+    expect(hkMacauPermit('H1234567801')).toMatchObject({ valid: true, meta: { type: 'homeReturn' } })
+    expect(hkMacauPermit('H123456789').valid).toBe(false)
+  })
+})
@@ -0,0 +1,90 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { cronExpression, CronParseError, getNextCronRuns, parseCron } from '../../src/rules/cron'
+
+// 2024-01-05 12:00（周五，本地时间）
+const from = new Date(2024, 0, 5, 12, 0, 0)
+
+describe('cron Rules', () => {
+  describe('parseCron', () => {
+    it('should parse ranges, steps and names', () => {
+      const schedule = parseCron('*/15 9-17 * jan,MAR MON-FRI')
+
+      expect(schedule.seconds).toEqual([0])
+      expect(schedule.minutes).toEqual([0, 15, 30, 45])
+      expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17])
+      expect(schedule.months).toEqual([1, 3])
+      expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5])
+      expect(parseCron('0 0 * * 7').daysOfWeek).toEqual([0])
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'))
+    })
+
+    it('should report the invalid field', () => {
+      expect(() => parseCron('99 99 * * *')).toThrow(CronParseError)
+      expect(() => parseCron('0 0 30-1 * *')).toThrow(expect.objectContaining({ position: 3, token: '30-1' }))
+      expect(() => parseCron('1-2-3 * * * *')).toThrow(expect.objectContaining({ code: 'INVALID_CRON_FIELD', position: 1, token: '1-2-3' }))
+      expect(() => parseCron('0 0 L * *')).toThrow(expect.objectContaining({ position: 3 }))
+      expect(() => parseCron('@reboot')).toThrow(expect.objectContaining({ code: 'INVALID_CRON_MACRO' }))
+      expect(() => parseCron('0 0 12 * * *', { quartz: true })).toThrow(expect.objectContaining({ code: 'INVALID_CRON_QUARTZ_DAY' }))
+    })
+  })
+
+  describe('getNextCronRuns', () => {
+    it('should compute upcoming runs', () => {
+      expect(getNextCronRuns('0 9 * * MON-FRI', 3, from)).toEqual([
+        new Date(2024, 0, 8, 9, 0),
+        new Date(2024, 0, 9, 9, 0),
+        new Date(2024, 0, 10, 9, 0),
+      ])
+      expect(getNextCronRuns('30 */20 12 * * *', 2, from)).toEqual([
+        new Date(2024, 0, 5, 12, 0, 30),
+        new Date(2024, 0, 5, 12, 20, 30),
+      ])
+    })
+
+    it('should match either day field when both are restricted', () => {
+      expect(getNextCronRuns('0 0 13 * FRI', 2, from)).toEqual([
+        new Date(2024, 0, 12),
+        new Date(2024, 0, 13),
+      ])
+    })
+
+    it('should support Quartz extensions', () => {
+      const options = { quartz: true }
+
+      expect(getNextCronRuns('0 0 12 ? * 6#3', 2, from, options)).toEqual([
+        new Date(2024, 0, 19, 12),
+        new Date(2024, 1, 16, 12),
+      ])
+      expect(getNextCronRuns('0 0 0 L * ?', 2, from, options)).toEqual([new Date(2024, 0, 31), new Date(2024, 1, 29)])
+      expect(getNextCronRuns('0 0 0 LW * ?', 1, new Date(2024, 2, 1), options)).toEqual([new Date(2024, 2, 29)])
+      expect(getNextCronRuns('0 0 0 1W * ?', 1, new Date(2024, 5, 1), options)).toEqual([new Date(2024, 5, 3)])
+      expect(getNextCronRuns('0 0 0 ? * 6L', 1, from, options)).toEqual([new Date(2024, 0, 26)])
+      expect(getNextCronRuns('0 0 0 1 1 ? 2025-2026', 3, from, options)).toEqual([new Date(2025, 0, 1), new Date(2026, 0, 1)])
+    })
+  })
+
+  describe('cronExpression', () => {
+    it('should return the run preview in meta', () => {
+      const result = cronExpression({ preview: 2, from: () => from })('@hourly') as ValidationResult
+
+      expect(result).toEqual({
+        valid: true,
+        meta: { nextRuns: [new Date(2024, 0, 5, 13), new Date(2024, 0, 5, 14)] },
+      })
+    })
+
+    it('should reject invalid and never-running expressions', () => {
+      const validate = cronExpression({ from })
+
+      expect((validate('99 99 * * *') as ValidationResult)).toMatchObject({
+        valid: false,
+        code: 'INVALID_CRON_FIELD',
+        meta: { position: 1, token: '99' },
+      })
+      expect((validate('0 0 30 2 *') as ValidationResult).code).toBe('CRON_NEVER_RUNS')
+      expect((validate('0 0 * *') as ValidationResult).code).toBe('INVALID_CRON_SEGMENTS')
+      expect(validate('').valid).toBe(true)
+    })
+  })
+})
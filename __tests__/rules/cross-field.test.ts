@@ -213,7 +213,14 @@ describe('Cross-field Validation Rules', () => {
       expect(result.valid).toBe(true)
     })
   })
-})
-
-
 
+  describe('dependencies', () => {
+    it('should declare the compared field', () => {
+      expect(matchField('password').dependencies).toEqual(['password'])
+      expect(greaterThan('min').dependencies).toEqual(['min'])
+      expect(afterDate('range.start').dependencies).toEqual(['range.start'])
+      expect(requiredIf('country').dependencies).toEqual(['country'])
+      expect(excludesWith('phone').dependencies).toEqual(['phone'])
+    })
+  })
+})
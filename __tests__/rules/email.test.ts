@@ -0,0 +1,108 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import {
+  emailAddress,
+  isDisposableEmailDomain,
+  normalizeEmail,
+  parseEmail,
+  registerDisposableDomains,
+  toAsciiDomain,
+} from '../../src/rules/email'
+import { email } from '../../src/rules/format'
+
+function validate(value: string, options?: Parameters<typeof emailAddress>[0]): ValidationResult {
+  return emailAddress(options)(value) as ValidationResult
+}
+
+describe('email Rules', () => {
+  describe('modes', () => {
+    it('should reject malformed addresses in strict mode', () => {
+      for (const value of ['a@b..c', 'a@b.c', '.a@example.com', 'a..b@example.com', 'a@-example.com', 'a@example', 'a@example.c0m', '"a b"@example.com']) {
+        expect(validate(value)).toMatchObject({ valid: false, code: 'INVALID_EMAIL' })
+      }
+      expect(validate('john.doe+tag@mail.example.co.uk').valid).toBe(true)
+      expect((email('a@b..c') as ValidationResult).valid).toBe(false)
+    })
+
+    it('should accept quoted local parts, dotless domains and literals in RFC 5322 mode', () => {
+      const options = { mode: 'rfc5322' as const }
+
+      expect(validate('"john doe"@example.com', options).valid).toBe(true)
+      expect(validate('"a\\"b@c"@example.com', options).valid).toBe(true)
+      expect(validate('admin@localhost', options).valid).toBe(true)
+      expect(validate('user@[192.168.0.1]', options).valid).toBe(true)
+      expect(validate('user@[IPv6:2001:db8::1]', options).valid).toBe(true)
+      expect(validate('user@[300.1.1.1]', options).valid).toBe(false)
+      expect(validate('user@[192.168.0.1]').valid).toBe(false)
+    })
+
+    it('should follow the WHATWG rules in HTML5 mode', () => {
+      const options = { mode: 'html5' as const }
+
+      expect(validate('a..b@localhost', options).valid).toBe(true)
+      expect(validate('"quoted"@example.com', options).valid).toBe(false)
+      expect(validate('a@b_c.com', options).valid).toBe(false)
+    })
+  })
+
+  describe('internationalization', () => {
+    it('should convert internationalized domains to punycode', () => {
+      expect(toAsciiDomain('例子.中国')).toBe('xn--fsqu00a.xn--fiqs8s')
+      expect(toAsciiDomain('bad/domain.中国')).toBeNull()
+      expect(validate('user@例子.中国')).toMatchObject({
+        valid: true,
+        meta: { local: 'user', domain: '例子.中国', asciiDomain: 'xn--fsqu00a.xn--fiqs8s', disposable: false },
+      })
+      expect(validate('user@例子.中国', { allowIdn: false }).valid).toBe(false)
+    })
+
+    it('should accept unicode local parts only when EAI is enabled', () => {
+      expect(validate('用户@例子.中国').valid).toBe(false)
+      expect(validate('用户@例子.中国', { allowUnicodeLocal: true }).valid).toBe(true)
+      expect(parseEmail('"用 户"@example.com', { mode: 'rfc5322', allowUnicodeLocal: true })?.local).toBe('"用 户"')
+    })
+  })
+
+  it('should enforce the RFC length limits', () => {
+    const label = 'a'.repeat(63)
+
+    expect(validate(`${'a'.repeat(64)}@example.com`).valid).toBe(true)
+    expect(validate(`${'a'.repeat(65)}@example.com`).code).toBe('EMAIL_TOO_LONG')
+    expect(validate(`${'测'.repeat(22)}@example.com`, { allowUnicodeLocal: true }).code).toBe('EMAIL_TOO_LONG')
+    expect(validate(`a@${label}.${label}.${label}.${'a'.repeat(57)}.com`).code).toBe('EMAIL_TOO_LONG')
+    expect(validate(`a@${'a'.repeat(64)}.com`).code).toBe('INVALID_EMAIL')
+  })
+
+  describe('domain policies', () => {
+    it('should apply allow and deny lists including subdomains', () => {
+      const allowed = { allowDomains: ['example.com', '例子.中国'] }
+
+      expect(validate('a@mail.example.com', allowed).valid).toBe(true)
+      expect(validate('a@xn--fsqu00a.xn--fiqs8s', allowed).valid).toBe(true)
+      expect(validate('a@example.org', allowed)).toMatchObject({
+        code: 'EMAIL_DOMAIN_NOT_ALLOWED',
+        message: '不支持使用 example.org 的邮箱',
+      })
+      expect(validate('a@notexample.com', allowed).valid).toBe(false)
+      expect(validate('a@Spam.Example.net', { denyDomains: ['example.net'] }).code).toBe('EMAIL_DOMAIN_DENIED')
+    })
+
+    it('should detect disposable domains', () => {
+      expect(isDisposableEmailDomain('mailinator.com')).toBe(true)
+      expect(isDisposableEmailDomain('inbox.Mailinator.com')).toBe(true)
+      expect(validate('a@yopmail.com')).toMatchObject({ valid: true, meta: { disposable: true } })
+      expect(validate('a@yopmail.com', { allowDisposable: false }).code).toBe('EMAIL_DISPOSABLE')
+
+      registerDisposableDomains('throwaway.example')
+      expect(validate('a@throwaway.example', { allowDisposable: false }).code).toBe('EMAIL_DISPOSABLE')
+    })
+  })
+
+  it('should normalize addresses', () => {
+    expect(normalizeEmail('John.Doe+news@GoogleMail.com', { gmail: true })).toBe('johndoe@gmail.com')
+    expect(normalizeEmail('John.Doe+news@Example.com', { gmail: true })).toBe('john.doe+news@example.com')
+    expect(normalizeEmail('John+news@Example.COM', { lowercase: false, subaddress: true })).toBe('John@example.com')
+    expect(normalizeEmail('user@例子.中国', { punycode: true })).toBe('user@xn--fsqu00a.xn--fiqs8s')
+    expect(normalizeEmail('NOT-AN-EMAIL')).toBe('not-an-email')
+  })
+})
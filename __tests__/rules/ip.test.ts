@@ -0,0 +1,149 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import {
+  cidr,
+  cidrList,
+  findCidrOverlaps,
+  formatIp,
+  getEmbeddedIPv4,
+  ipAddress,
+  ipRange,
+  isIpInNetworks,
+  parseCidr,
+  parseIp,
+  registerIpNetwork,
+  resolveIpNetworks,
+} from '../../src/rules/ip'
+
+describe('ip rules', () => {
+  describe('parsing', () => {
+    it('should parse and format IPv4 and IPv6 addresses', () => {
+      expect(parseIp('192.168.1.1')).toEqual({ version: 4, value: 3232235777n })
+      expect(parseIp('192.168.01.1')).toBeNull()
+      expect(parseIp('256.0.0.1')).toBeNull()
+
+      for (const [input, output] of [
+        ['2001:0DB8:0000:0000:0000:0000:0000:0001', '2001:db8::1'],
+        ['::', '::'],
+        ['::1', '::1'],
+        ['1::', '1::'],
+        ['2001:db8:0:1:1:1:1:1', '2001:db8:0:1:1:1:1:1'],
+        ['2001:0:0:1:0:0:0:1', '2001:0:0:1::1'],
+        ['::ffff:192.0.2.1', '::ffff:192.0.2.1'],
+        ['64:ff9b::192.0.2.1', '64:ff9b::c000:201'],
+      ]) {
+        expect(formatIp(parseIp(input)!)).toBe(output)
+      }
+
+      for (const input of ['1:2:3:4:5:6:7:8:9', '1::2::3', ':1::', '1:2:3:4:5:6:7', 'fe80::1%eth0', '::ffff:1.2.3', 'g::1']) {
+        expect(parseIp(input)).toBeNull()
+      }
+    })
+
+    it('should parse CIDR blocks', () => {
+      expect(parseCidr('10.0.0.0/8')).toEqual({ version: 4, prefix: 8, first: 167772160n, last: 184549375n, hostBitsSet: false })
+      expect(parseCidr('10.0.0.1/8')?.hostBitsSet).toBe(true)
+      expect(parseCidr('2001:db8::/32')).toMatchObject({ version: 6, prefix: 32 })
+      expect(parseCidr('1.2.3.4')).toMatchObject({ prefix: 32 })
+      expect(parseCidr('10.0.0.0/33')).toBeNull()
+      expect(parseCidr('10.0.0.0/08')).toBeNull()
+      expect(parseCidr('10.0.0.0/8/1')).toBeNull()
+    })
+  })
+
+  describe('network membership', () => {
+    it('should check built-in, custom and mapped networks', () => {
+      expect(isIpInNetworks('172.31.255.255', ['private'])).toBe(true)
+      expect(isIpInNetworks('172.32.0.0', ['private'])).toBe(false)
+      expect(isIpInNetworks('fd12::1', ['private'])).toBe(true)
+      expect(isIpInNetworks('::1', ['loopback'])).toBe(true)
+      expect(isIpInNetworks('::ffff:127.0.0.1', ['loopback'])).toBe(true)
+      expect(isIpInNetworks('203.0.113.9', ['reserved'])).toBe(true)
+      expect(isIpInNetworks('8.8.8.8', ['10.0.0.0/8', '8.8.8.8'])).toBe(true)
+
+      registerIpNetwork('office', ['198.51.100.0/28'])
+      expect(isIpInNetworks('198.51.100.15', ['office'])).toBe(true)
+      expect(isIpInNetworks('198.51.100.16', ['office'])).toBe(false)
+    })
+
+    it('should check IPv4 addresses embedded in IPv6', () => {
+      expect(isIpInNetworks('::127.0.0.1', ['loopback'])).toBe(true)
+      expect(isIpInNetworks('::ffff:0:0', ['reserved'])).toBe(true)
+      expect(isIpInNetworks('::1', ['0.0.0.0/8'])).toBe(false)
+      expect(isIpInNetworks('64:ff9b::a9fe:a9fe', ['linkLocal'])).toBe(true)
+      expect(isIpInNetworks('64:ff9b:1:a9fe:a9:fe00::', ['linkLocal'])).toBe(true)
+      expect(isIpInNetworks('64:ff9b:1::a9fe:a9fe', ['linkLocal'])).toBe(true)
+      expect(isIpInNetworks('2002:a9fe:a9fe::', ['linkLocal'])).toBe(true)
+      expect(isIpInNetworks('2002:808:808::1', ['private', 'linkLocal'])).toBe(false)
+      expect(getEmbeddedIPv4(parseIp('2001:db8::1')!)).toEqual([])
+      expect(getEmbeddedIPv4(parseIp('::1')!)).toEqual([])
+    })
+
+    it('should deny NAT64 and 6to4 addresses as reserved', () => {
+      const publicOnly = ipAddress({ deny: ['reserved', 'linkLocal'] })
+
+      expect(publicOnly('64:ff9b::a9fe:a9fe')).toMatchObject({ valid: false, code: 'IP_DENIED' })
+      expect(publicOnly('64:ff9b:1::1')).toMatchObject({ valid: false, code: 'IP_DENIED' })
+      expect(publicOnly('2002:808:808::1')).toMatchObject({ valid: false, code: 'IP_DENIED' })
+      expect(publicOnly('2606:4700::1111')).toMatchObject({ valid: true })
+    })
+
+    it('should reject unknown network names and invalid CIDRs', () => {
+      expect(() => ipAddress({ deny: ['privat'] })).toThrow('privat')
+      expect(() => ipAddress({ allow: ['10.0.0.0/33'] })).toThrow()
+      expect(() => isIpInNetworks('10.0.0.1', ['privat'])).toThrow()
+      expect(() => registerIpNetwork('broken', ['10.0.0.0/8', 'not-a-cidr'])).toThrow()
+      expect(resolveIpNetworks(['loopback', '10.0.0.0/8'])).toHaveLength(3)
+    })
+
+    it('should validate addresses against allow and deny lists', () => {
+      const publicOnly = ipAddress({ deny: ['private', 'loopback', 'linkLocal', 'reserved', 'multicast'] })
+
+      expect(publicOnly('8.8.8.8')).toEqual({ valid: true, meta: { version: 4, address: '8.8.8.8' } })
+      expect(publicOnly('169.254.169.254')).toMatchObject({
+        valid: false,
+        code: 'IP_DENIED',
+        message: 'IP 地址 169.254.169.254 位于禁止的网段内',
+      })
+      expect((ipAddress({ allow: ['10.0.0.0/8'] })('11.0.0.1') as ValidationResult).code).toBe('IP_NOT_ALLOWED')
+      expect((ipAddress({ version: 6 })('10.0.0.1') as ValidationResult).code).toBe('INVALID_IPV6')
+      expect((ipAddress()('10.0.0') as ValidationResult).code).toBe('INVALID_IP')
+      expect((ipAddress()('2001:DB8::0001') as ValidationResult).meta).toEqual({ version: 6, address: '2001:db8::1' })
+    })
+  })
+
+  it('should validate CIDR blocks and ranges', () => {
+    expect(cidr()('10.0.0.0/8')).toEqual({
+      valid: true,
+      meta: { version: 4, prefix: 8, network: '10.0.0.0', last: '10.255.255.255' },
+    })
+    expect(cidr()('10.0.0.1/8')).toMatchObject({ code: 'CIDR_HOST_BITS_SET', message: '网段设置了主机位，应为 10.0.0.0/8' })
+    expect((cidr({ strict: false })('10.0.0.1/8') as ValidationResult).valid).toBe(true)
+    expect((cidr({ version: 4 })('2001:db8::/32') as ValidationResult).code).toBe('INVALID_CIDR')
+    expect((cidr()('10.0.0.1') as ValidationResult).code).toBe('INVALID_CIDR')
+
+    expect(ipRange()('10.0.0.1 - 10.0.0.50')).toEqual({ valid: true, meta: { version: 4, first: '10.0.0.1', last: '10.0.0.50' } })
+    expect((ipRange()('10.0.0.50-10.0.0.1') as ValidationResult).code).toBe('INVALID_IP_RANGE')
+    expect((ipRange()('10.0.0.1-::1') as ValidationResult).code).toBe('INVALID_IP_RANGE')
+  })
+
+  describe('cidrList', () => {
+    it('should detect overlapping blocks', () => {
+      expect(findCidrOverlaps(['10.0.0.0/8', '192.168.0.0/16', '10.1.0.0/16', '10.1.2.0/24', '::/0'])).toEqual([[0, 2], [0, 3], [2, 3]])
+      expect(findCidrOverlaps(['10.0.0.0/9', '10.128.0.0/9', '::/0'])).toEqual([])
+
+      expect(cidrList()(['10.0.0.0/8', '192.168.0.0/16'])).toEqual({ valid: true, meta: { overlaps: [] } })
+      expect(cidrList()(['10.1.0.0/16', '10.0.0.0/8'])).toMatchObject({
+        code: 'CIDR_OVERLAP',
+        message: '网段 10.1.0.0/16 与 10.0.0.0/8 重叠',
+        meta: { overlaps: [[0, 1]] },
+      })
+      expect((cidrList({ allowOverlap: true })(['10.1.0.0/16', '10.0.0.0/8']) as ValidationResult).valid).toBe(true)
+    })
+
+    it('should report the index of invalid entries', () => {
+      expect(cidrList()(['10.0.0.0/8', '10.0.0.1/8'])).toMatchObject({ code: 'CIDR_HOST_BITS_SET', meta: { index: 1 } })
+      expect(cidrList()(['', '10.0.0.0/8'])).toMatchObject({ code: 'INVALID_CIDR', meta: { index: 0 } })
+    })
+  })
+})
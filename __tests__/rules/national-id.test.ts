@@ -0,0 +1,68 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { hkid, idCard, nationalId, nino, nric, parseChineseIdCard, ssn, taiwanId } from '../../src/rules/national-id'
+
+describe('national ID Rules', () => {
+  describe('idCard', () => {
+    it('should extract metadata from valid Chinese ID cards', () => {
+      expect(idCard('11010519491231002X')).toEqual({
+        valid: true,
+        meta: { regionCode: '110105', provinceCode: '11', birthDate: '1949-12-31', gender: 'female' },
+      })
+      expect(parseChineseIdCard('440304199003071117')?.gender).toBe('male')
+    })
+
+    it('should reject invalid dates and checksums', () => {
+      expect((idCard('110105194902300021') as ValidationResult).code).toBe('INVALID_ID_CARD')
+      expect((idCard('110105194912310021') as ValidationResult).code).toBe('INVALID_ID_CARD_CHECK')
+      expect(parseChineseIdCard('110105194912310021')).toBeNull()
+      expect(idCard('').valid).toBe(true)
+    })
+  })
+
+  it('should validate Hong Kong HKID check digits', () => {
+    expect(hkid('A123456(3)').valid).toBe(true)
+    expect(hkid('A1234563').valid).toBe(true)
+    expect(hkid('G123456(A)').valid).toBe(true)
+    expect(hkid('AB987654(3)').valid).toBe(true)
+    expect(hkid('A123456(4)').valid).toBe(false)
+    expect(hkid('A123456(3').valid).toBe(false)
+    expect(hkid('A1234563)').valid).toBe(false)
+  })
+
+  it('should validate Taiwan ID check digits', () => {
+    expect(taiwanId('A123456789').valid).toBe(true)
+    expect(taiwanId('A123456788').valid).toBe(false)
+    expect(taiwanId('A323456789').valid).toBe(false)
+  })
+
+  it('should validate US SSN format', () => {
+    expect(ssn('123-45-6789').valid).toBe(true)
+    expect(ssn('123456789').valid).toBe(true)
+    expect(ssn('123-456789').valid).toBe(false)
+    expect(ssn('000-45-6789').valid).toBe(false)
+    expect(ssn('666-45-6789').valid).toBe(false)
+    expect(ssn('923-45-6789').valid).toBe(false)
+    expect(ssn('123-00-6789').valid).toBe(false)
+  })
+
+  it('should validate UK NINO format', () => {
+    expect(nino('QQ 12 34 56 C').valid).toBe(false)
+    expect(nino('AB 12 34 56 C').valid).toBe(true)
+    expect(nino('GB123456A').valid).toBe(false)
+    expect(nino('AB123456E').valid).toBe(false)
+  })
+
+  it('should validate Singapore NRIC/FIN check letters', () => {
+    expect(nric('S1234567D').valid).toBe(true)
+    expect(nric('T1234567J').valid).toBe(true)
+    expect(nric('F1234567N').valid).toBe(true)
+    expect(nric('G1234567X').valid).toBe(true)
+    expect(nric('S1234567A').valid).toBe(false)
+  })
+
+  it('should select validators by country', () => {
+    expect(nationalId('CN')).toBe(idCard)
+    expect(nationalId('SG')('S1234567D').valid).toBe(true)
+  })
+})
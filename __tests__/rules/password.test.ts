@@ -0,0 +1,117 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { strongPassword } from '../../src/rules/format'
+import {
+  createBreachedPasswordList,
+  estimatePasswordEntropy,
+  getCommonPasswordList,
+  passwordPolicy,
+} from '../../src/rules/password'
+import { sha1 } from '../../src/utils/hash'
+
+describe('password Policy', () => {
+  it('should keep the default strong password requirements', () => {
+    const validate = passwordPolicy()
+
+    expect((validate('Abcd1234!') as ValidationResult).valid).toBe(true)
+    expect((validate('Xk9!mQ2#') as ValidationResult).valid).toBe(true)
+    expect(validate('Xk9mQ2zp')).toMatchObject({ valid: false, code: 'WEAK_PASSWORD', message: '密码必须包含：特殊字符' })
+    expect((strongPassword('Xk9~mQ2z') as ValidationResult).valid).toBe(false)
+    expect((strongPassword('Xk9!mQ2z') as ValidationResult).valid).toBe(true)
+  })
+
+  it('should support configurable length and class requirements', () => {
+    const validate = passwordPolicy({ minLength: 10, maxLength: 16, uppercase: false, special: false, minClasses: 3 })
+
+    expect(validate('xk9mq2zprt')).toMatchObject({
+      code: 'WEAK_PASSWORD',
+      message: '密码必须包含：至少3种字符类型',
+    })
+    expect((validate('xk9mq2zp!t') as ValidationResult).valid).toBe(true)
+    expect((validate('xk9mq2zp!txk9mq2zp') as ValidationResult).code).toBe('PASSWORD_MAX_LENGTH')
+  })
+
+  it('should reject repeats, sequences and keyboard patterns', () => {
+    const options = { special: false, uppercase: false }
+
+    expect((passwordPolicy({ ...options, maxRepeats: 2 })('xk9mmmq2') as ValidationResult).code).toBe('PASSWORD_REPEATED')
+    expect((passwordPolicy({ ...options, maxRepeats: 3 })('xk9mmmq2') as ValidationResult).valid).toBe(true)
+
+    const sequence = passwordPolicy({ ...options, maxSequence: 3 })
+    expect((sequence('zq4321pm') as ValidationResult).code).toBe('PASSWORD_SEQUENCE')
+    expect((sequence('zqxcdefm9') as ValidationResult).code).toBe('PASSWORD_SEQUENCE')
+    expect((sequence('zq/012pm9') as ValidationResult).valid).toBe(true)
+    expect((sequence('abcba9xz') as ValidationResult).valid).toBe(true)
+
+    const keyboard = passwordPolicy({ ...options, keyboardPatterns: true })
+    expect((keyboard('9zqwerm4') as ValidationResult).code).toBe('PASSWORD_KEYBOARD_PATTERN')
+    expect((keyboard('9zlkjhm4') as ValidationResult).code).toBe('PASSWORD_KEYBOARD_PATTERN')
+    expect((keyboard('9zqwxm4e') as ValidationResult).valid).toBe(true)
+  })
+
+  it('should reject dictionary words including common substitutions', () => {
+    const validate = passwordPolicy({ dictionary: true })
+
+    expect(validate('P@ssw0rd!9')).toMatchObject({ valid: false, code: 'PASSWORD_DICTIONARY_WORD' })
+    expect((passwordPolicy({ dictionary: ['ldesign'] })('LDesign#2024') as ValidationResult).code)
+      .toBe('PASSWORD_DICTIONARY_WORD')
+    expect((validate('Xk9!mQ2#') as ValidationResult).valid).toBe(true)
+  })
+
+  it('should reject passwords similar to user fields in formData', () => {
+    const validate = passwordPolicy()
+    const context = { formData: { username: 'alice', email: 'Bob.Smith@example.com' } }
+
+    expect(validate.dependencies).toEqual(['username', 'email'])
+    expect(validate('Alice#2024', context)).toMatchObject({ valid: false, code: 'PASSWORD_SIMILAR_TO_USER' })
+    expect((validate('#1Bob.smith', context) as ValidationResult).code).toBe('PASSWORD_SIMILAR_TO_USER')
+    expect((validate('Xk9!mQ2#', context) as ValidationResult).valid).toBe(true)
+    expect(passwordPolicy({ userFields: ['profile.nickname'] }).dependencies).toEqual(['profile.nickname'])
+  })
+
+  it('should report entropy, score and every failure in meta', () => {
+    expect(estimatePasswordEntropy('')).toEqual({ entropy: 0, score: 0 })
+    expect(estimatePasswordEntropy('abc')).toEqual({ entropy: 14.1, score: 0 })
+    expect(estimatePasswordEntropy('Tr0ub4dor&3')).toEqual({ entropy: 72.27, score: 3 })
+
+    const validate = passwordPolicy({ special: false, maxSequence: 3, minEntropy: 80 })
+    const result = validate('Alice2024abcd', { formData: { username: 'alice' } }) as ValidationResult
+
+    expect(result).toMatchObject({
+      valid: false,
+      code: 'PASSWORD_SEQUENCE',
+      meta: { entropy: 77.4, score: 3, failures: ['PASSWORD_SEQUENCE', 'PASSWORD_SIMILAR_TO_USER', 'PASSWORD_LOW_ENTROPY'] },
+    })
+    expect((validate('Xk9mQ2zpRt7w4Yv') as ValidationResult).meta).toMatchObject({ failures: [] })
+  })
+
+  describe('breached passwords', () => {
+    it('should check the bundled common password list', () => {
+      const validate = passwordPolicy({ breachedPasswords: true })
+
+      expect(validate('Password@123')).toMatchObject({ valid: false, code: 'PASSWORD_BREACHED' })
+      expect(getCommonPasswordList().has('123456')).toBe(true)
+      expect((validate('Xk9!mQ2#') as ValidationResult).valid).toBe(true)
+    })
+
+    it('should accept user-supplied plain or hashed lists', () => {
+      const plain = createBreachedPasswordList(['Company#2024'])
+      const hashed = createBreachedPasswordList([sha1('Company#2024').toLowerCase()], { hashed: true })
+
+      expect(plain.has('Company#2024')).toBe(true)
+      expect(hashed.has('Company#2024')).toBe(true)
+      expect(hashed.has('company#2024')).toBe(false)
+      expect((passwordPolicy({ breachedPasswords: hashed })('Company#2024') as ValidationResult).code)
+        .toBe('PASSWORD_BREACHED')
+    })
+
+    it('should support asynchronous lists', async () => {
+      const validate = passwordPolicy({ breachedPasswords: { has: async password => password === 'Company#2024' } })
+
+      const result = validate('Company#2024')
+      expect(result).toBeInstanceOf(Promise)
+      expect(await result).toMatchObject({ valid: false, code: 'PASSWORD_BREACHED' })
+      expect((await validate('Xk9!mQ2#')).valid).toBe(true)
+    })
+  })
+})
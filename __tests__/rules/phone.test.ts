@@ -0,0 +1,68 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { transformers } from '../../src/core/Transformer'
+import { parsePhoneNumber, phoneNumber, toE164 } from '../../src/rules/phone'
+
+describe('phone Rules', () => {
+  describe('parsePhoneNumber', () => {
+    it('should parse E.164 and international formats', () => {
+      expect(parsePhoneNumber('+8613800138000')).toEqual({
+        region: 'CN',
+        callingCode: '86',
+        nationalNumber: '13800138000',
+        type: 'mobile',
+        e164: '+8613800138000',
+      })
+      expect(parsePhoneNumber('+44 7911 123456')).toMatchObject({ region: 'GB', type: 'mobile' })
+      expect(parsePhoneNumber('0049 30 1234567')).toMatchObject({ region: 'DE', type: 'fixed', e164: '+49301234567' })
+      expect(parsePhoneNumber('+852 2123 4567')).toMatchObject({ region: 'HK', type: 'fixed' })
+    })
+
+    it('should parse national formats with default region', () => {
+      expect(parsePhoneNumber('010-62345678', 'CN')).toMatchObject({ type: 'fixed', e164: '+861062345678' })
+      expect(parsePhoneNumber('090-1234-5678', 'JP')).toMatchObject({ type: 'mobile', e164: '+819012345678' })
+      expect(parsePhoneNumber('8 (912) 345-67-89', 'RU')?.e164).toBe('+79123456789')
+      expect(parsePhoneNumber('13800138000')).toBeNull()
+    })
+
+    it('should distinguish regions sharing a calling code', () => {
+      expect(parsePhoneNumber('+1 (415) 555-2671')).toMatchObject({ region: 'US', type: 'fixedOrMobile' })
+      expect(parsePhoneNumber('+1 416 555 0123')?.region).toBe('CA')
+      expect(parsePhoneNumber('1-416-555-0123', 'US')?.region).toBe('CA')
+    })
+
+    it('should reject invalid numbers', () => {
+      expect(parsePhoneNumber('+86 12345')).toBeNull()
+      expect(parsePhoneNumber('+999 12345678')).toBeNull()
+      expect(parsePhoneNumber('+1 415 abc 2671')).toBeNull()
+    })
+  })
+
+  describe('phoneNumber', () => {
+    it('should restrict regions and types', () => {
+      const validate = phoneNumber({ defaultRegion: 'US', regions: ['US', 'CA'], types: ['mobile'] })
+
+      expect(validate('(415) 555-2671').valid).toBe(true)
+      expect((validate('+44 7911 123456') as ValidationResult).code).toBe('INVALID_PHONE_REGION')
+      expect((phoneNumber({ types: ['mobile'] })('+49 30 1234567') as ValidationResult).code).toBe('INVALID_PHONE_TYPE')
+      expect(phoneNumber('CN')('138 0013 8000')).toMatchObject({ valid: true, meta: { e164: '+8613800138000' } })
+    })
+
+    it('should require E.164 format when configured', () => {
+      const validate = phoneNumber({ e164: true })
+
+      expect(validate('+8613800138000').valid).toBe(true)
+      expect((validate('+86 138 0013 8000') as ValidationResult).code).toBe('INVALID_PHONE_E164')
+      expect(validate('').valid).toBe(true)
+    })
+  })
+
+  describe('toE164', () => {
+    it('should normalize numbers to E.164', () => {
+      expect(toE164('138 0013 8000', 'CN')).toBe('+8613800138000')
+      expect(toE164('invalid')).toBeNull()
+      expect(transformers.e164('GB').transform(' 07911 123456 ')).toBe('+447911123456')
+      expect(transformers.e164().transform('invalid')).toBe('invalid')
+    })
+  })
+})
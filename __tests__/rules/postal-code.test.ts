@@ -0,0 +1,46 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { countryPostalCode } from '../../src/rules/cross-field'
+import { postalCode, registerPostalCode } from '../../src/rules/postal-code'
+import { getDependencies } from '../../src/utils/dependencies'
+
+describe('postal Code Rules', () => {
+  it('should validate postal codes by country', () => {
+    expect(postalCode()('100000').valid).toBe(true)
+    expect(postalCode('US')('94105').valid).toBe(true)
+    expect(postalCode('US')('94105-1420').valid).toBe(true)
+    expect(postalCode('US')('9410').valid).toBe(false)
+    expect(postalCode('gb')('SW1A 1AA').valid).toBe(true)
+    expect(postalCode('CA')('K1A 0B1').valid).toBe(true)
+    expect(postalCode('CA')('D1A 0B1').valid).toBe(false)
+    expect(postalCode('DE')('10115').valid).toBe(true)
+    expect(postalCode('JP')('100-0001').valid).toBe(true)
+    expect(postalCode('US')('').valid).toBe(true)
+  })
+
+  it('should support registering additional countries', () => {
+    expect(postalCode('PL')('anything')).toMatchObject({ valid: false, code: 'POSTAL_CODE_COUNTRY_UNSUPPORTED' })
+
+    registerPostalCode('pl', /^\d{2}-\d{3}$/)
+
+    expect(postalCode('PL')('00-950').valid).toBe(true)
+    expect(postalCode('PL')('00950')).toMatchObject({ valid: false, code: 'INVALID_POSTAL_CODE', meta: { country: 'PL' } })
+  })
+
+  it('should reject unknown countries and resolve aliases', () => {
+    expect(postalCode('UK')('SW1A 1AA')).toMatchObject({ valid: true, meta: { country: 'GB' } })
+    expect(postalCode('UK')('94105').valid).toBe(false)
+    expect(postalCode('XX')('12345')).toMatchObject({ valid: false, code: 'POSTAL_CODE_COUNTRY_UNSUPPORTED', meta: { country: 'XX' } })
+    expect(countryPostalCode()('12345', { formData: { country: 'USA' } })).toMatchObject({ valid: false, code: 'POSTAL_CODE_COUNTRY_UNSUPPORTED' })
+  })
+
+  it('should check the code against the country field', () => {
+    const validate = countryPostalCode()
+
+    expect(getDependencies(validate)).toEqual(['country'])
+    expect(validate('94105', { formData: { country: 'US' } }).valid).toBe(true)
+    expect((validate('94105', { formData: { country: 'GB' } }) as ValidationResult).meta).toMatchObject({ country: 'GB', fieldPath: 'country' })
+    expect(validate('94105', { formData: {} }).valid).toBe(true)
+    expect(countryPostalCode('address.country')('SW1A 1AA', { formData: { address: { country: 'GB' } } }).valid).toBe(true)
+  })
+})
@@ -0,0 +1,127 @@
+import type { ValidationResult } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { url } from '../../src/rules/format'
+import { parseUrl, urlAddress } from '../../src/rules/url'
+
+function validate(value: string, options?: Parameters<typeof urlAddress>[0]): ValidationResult {
+  return urlAddress(options)(value) as ValidationResult
+}
+
+describe('url rules', () => {
+  it('should parse URLs into canonical parts', () => {
+    expect(parseUrl('https://user:secret@例子.中国:8443/a?b=1#c')).toEqual({
+      href: 'https://user@xn--fsqu00a.xn--fiqs8s:8443/a?b=1#c',
+      protocol: 'https',
+      username: 'user',
+      credentials: true,
+      hostname: 'xn--fsqu00a.xn--fiqs8s',
+      hostType: 'domain',
+      port: 8443,
+      pathname: '/a',
+      search: '?b=1',
+      hash: '#c',
+    })
+    expect(parseUrl('http://[::1]/')).toMatchObject({ hostname: '::1', hostType: 'ipv6', port: 80 })
+    expect(parseUrl('http://2130706433/')).toMatchObject({ hostname: '127.0.0.1', hostType: 'ipv4' })
+    expect(parseUrl('not a url')).toBeNull()
+  })
+
+  it('should keep the default url rule permissive for http, https and ftp', () => {
+    expect((url('http://localhost:3000') as ValidationResult).valid).toBe(true)
+    expect((url('ftp://files.example.com/a.zip') as ValidationResult).valid).toBe(true)
+    expect((url('javascript:alert(1)') as ValidationResult).code).toBe('URL_PROTOCOL_NOT_ALLOWED')
+  })
+
+  it('should check protocol, TLD and length', () => {
+    expect(validate('https://example.com/path')).toMatchObject({
+      valid: true,
+      meta: { protocol: 'https', hostname: 'example.com', port: 443 },
+    })
+    expect(validate('ftp://example.com')).toMatchObject({
+      code: 'URL_PROTOCOL_NOT_ALLOWED',
+      message: 'URL 协议必须是：http、https',
+    })
+    expect(validate('HTTPS://Example.COM', { protocols: ['HTTPS:'] }).valid).toBe(true)
+    expect(validate('http://intranet/').code).toBe('URL_TLD_REQUIRED')
+    expect(validate('http://intranet/', { requireTld: false }).valid).toBe(true)
+    expect(validate(`https://example.com/${'a'.repeat(50)}`, { maxLength: 40 }).code).toBe('URL_TOO_LONG')
+    expect(validate('https://exa mple.com').code).toBe('INVALID_URL')
+  })
+
+  describe('hosts', () => {
+    it('should apply allow and deny lists with wildcards', () => {
+      const allowed = { allowHosts: ['example.com', '*.hooks.example.net', '例子.中国'] }
+
+      expect(validate('https://example.com', allowed).valid).toBe(true)
+      expect(validate('https://api.hooks.example.net', allowed).valid).toBe(true)
+      expect(validate('https://hooks.example.net', allowed).code).toBe('URL_HOST_NOT_ALLOWED')
+      expect(validate('https://sub.example.com', allowed).code).toBe('URL_HOST_NOT_ALLOWED')
+      expect(validate('https://xn--fsqu00a.xn--fiqs8s', allowed).valid).toBe(true)
+      expect(validate('http://[2001:DB8::1]/', { denyHosts: ['2001:db8:0::1'] }).code).toBe('URL_HOST_DENIED')
+    })
+
+    it('should block IP literals and localhost including encoded forms', () => {
+      const ssrf = { allowIp: false, allowLocalhost: false }
+
+      expect(validate('http://10.0.0.1/', ssrf).code).toBe('URL_IP_NOT_ALLOWED')
+      expect(validate('http://0x7f.1/', ssrf).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://[::ffff:127.0.0.1]/', ssrf).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://api.localhost/', ssrf).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://localhost:8080/').valid).toBe(true)
+      expect(validate('http://10.0.0.1/').valid).toBe(true)
+    })
+
+    it('should treat fully qualified names with a trailing dot as the same host', () => {
+      const lenient = { requireTld: false, denyHosts: ['evil.com', 'localhost'], allowLocalhost: false }
+
+      expect(validate('http://evil.com./', lenient).code).toBe('URL_HOST_DENIED')
+      expect(validate('http://localhost./', lenient).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://evil.com./', { denyHosts: ['evil.com'] }).code).toBe('URL_HOST_DENIED')
+      expect(validate('http://example.com./')).toMatchObject({ valid: true, meta: { hostname: 'example.com' } })
+      expect(validate('http://evil.com../', lenient).code).toBe('INVALID_URL')
+    })
+
+    it('should detect loopback addresses embedded in IPv6', () => {
+      const noLocalhost = { allowLocalhost: false }
+
+      expect(validate('http://[::ffff:0:0]/', noLocalhost).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://[::127.0.0.1]/', noLocalhost).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://0.0.0.0/', noLocalhost).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://[2001:db8::1]/', noLocalhost).valid).toBe(true)
+    })
+
+    it('should deny IP literals in the given networks', () => {
+      const publicOnly = { denyNetworks: ['private', 'loopback', 'linkLocal', 'reserved'] }
+
+      expect(validate('http://169.254.169.254/latest/meta-data', publicOnly)).toMatchObject({
+        code: 'URL_IP_DENIED',
+        message: 'URL 中的 IP 地址 169.254.169.254 位于禁止的网段内',
+      })
+      expect(validate('http://[::ffff:a9fe:a9fe]/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[64:ff9b::a9fe:a9fe]/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[2002:a9fe:a9fe::]/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[64:ff9b::a9fe:a9fe]/', { denyNetworks: ['linkLocal'] }).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[2002:a9fe:a9fe::]/', { denyNetworks: ['linkLocal'] }).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[64:ff9b:1::7f00:1]/', { allowLocalhost: false }).code).toBe('URL_LOCALHOST_NOT_ALLOWED')
+      expect(validate('http://10.1.2.3/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://[fd00::1]/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://0x7f.1/', publicOnly).code).toBe('URL_IP_DENIED')
+      expect(validate('http://8.8.8.8/', publicOnly).valid).toBe(true)
+      expect(validate('https://example.com/', publicOnly).valid).toBe(true)
+      expect(() => urlAddress({ denyNetworks: ['privat'] })).toThrow('privat')
+    })
+  })
+
+  it('should check ports, credentials, path, query and fragment', () => {
+    const ports = { ports: [443, [8000, 8999] as [number, number]] }
+
+    expect(validate('https://example.com', ports).valid).toBe(true)
+    expect(validate('https://example.com:8443', ports).valid).toBe(true)
+    expect(validate('http://example.com', ports)).toMatchObject({ code: 'URL_PORT_NOT_ALLOWED', message: '不允许使用端口 80' })
+    expect(validate('https://user@example.com', { allowCredentials: false }).code).toBe('URL_CREDENTIALS_NOT_ALLOWED')
+    expect(validate('https://example.com/hooks/1', { path: /^\/hooks\/\d+$/ }).valid).toBe(true)
+    expect(validate('https://example.com/admin', { path: /^\/hooks\// }).code).toBe('URL_PATH_INVALID')
+    expect(validate('https://example.com/?a=1', { allowQuery: false }).code).toBe('URL_QUERY_NOT_ALLOWED')
+    expect(validate('https://example.com/#top', { allowFragment: false }).code).toBe('URL_FRAGMENT_NOT_ALLOWED')
+  })
+})
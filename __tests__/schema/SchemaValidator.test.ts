@@ -1,5 +1,6 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, expectTypeOf, it } from 'vitest'
 import { createSchemaValidator } from '../../src/schema/SchemaValidator'
+import { ValidationException } from '../../src/schema/ValidationException'
 
 describe('SchemaValidator', () => {
   describe('basic validation', () => {
@@ -46,8 +47,8 @@ describe('SchemaValidator', () => {
           type: 'array' as const,
           items: {
             type: 'string' as const,
-            minLength: 2,
-            maxLength: 20,
+            min: 2,
+            max: 20,
           },
         },
       }
@@ -63,7 +64,48 @@ describe('SchemaValidator', () => {
         tags: ['vue', 'a'], // 'a' 太短
       })
       expect(result2.valid).toBe(false)
-      expect(result2.errors[0].message).toContain('[1]')
+      expect(result2.errors[0].field).toBe('tags[1]')
+      expect(result2.errors[0].code).toBe('MIN_LENGTH')
+    })
+
+    it('should report each failing item as its own error', async () => {
+      const schema = {
+        tags: {
+          type: 'array' as const,
+          items: { type: 'string' as const, min: 2 },
+        },
+      }
+
+      const validator = createSchemaValidator(schema)
+
+      const result = await validator.validate({
+        tags: ['a', 'vue', 'b', 3],
+      })
+      expect(result.errors.map(error => error.field)).toEqual(['tags[0]', 'tags[2]', 'tags[3]'])
+      expect(result.errorMap['tags[3]'][0].code).toBe('TYPE_MISMATCH')
+    })
+
+    it('should cap item errors with maxItemErrors', async () => {
+      const schema = {
+        rows: {
+          type: 'array' as const,
+          items: {
+            type: 'object' as const,
+            schema: {
+              name: { type: 'string' as const, required: true },
+              qty: { type: 'number' as const, min: 1 },
+            },
+          },
+        },
+        title: { type: 'string' as const, required: true },
+      }
+
+      const validator = createSchemaValidator(schema, { maxItemErrors: 3 })
+
+      const result = await validator.validate({
+        rows: [{ qty: 0 }, {}, { qty: 0 }, {}],
+      })
+      expect(result.errors.map(error => error.field)).toEqual(['rows[0].name', 'rows[0].qty', 'rows[1].name', 'title'])
     })
   })
 
@@ -264,8 +306,214 @@ describe('SchemaValidator', () => {
       })
       expect(result2.valid).toBe(false)
     })
+
+    it('should validate nested schemas with full paths', async () => {
+      const schema = {
+        address: {
+          type: 'object' as const,
+          required: true,
+          schema: {
+            city: { type: 'string' as const, required: true },
+            geo: {
+              type: 'object' as const,
+              schema: { lat: { type: 'number' as const, min: -90, max: 90 } },
+            },
+          },
+        },
+      }
+
+      const validator = createSchemaValidator(schema)
+
+      const result1 = await validator.validate({
+        address: { city: 'Beijing', geo: { lat: 39.9 } },
+      })
+      expect(result1.valid).toBe(true)
+
+      const result2 = await validator.validate({
+        address: { city: '', geo: { lat: 120 } },
+      })
+      expect(result2.valid).toBe(false)
+      expect(result2.errors.map(error => error.field)).toEqual(['address.city', 'address.geo.lat'])
+      expect(result2.errorMap['address.city'][0].code).toBe('REQUIRED')
+      expect(result2.errorMap['address.geo.lat'][0].code).toBe('MAX')
+    })
+
+    it('should validate arrays of objects with indexed paths', async () => {
+      const schema = {
+        items: {
+          type: 'array' as const,
+          items: {
+            type: 'object' as const,
+            schema: {
+              sku: { type: 'string' as const, required: true },
+              qty: { type: 'number' as const, min: 1 },
+            },
+          },
+        },
+      }
+
+      const validator = createSchemaValidator(schema)
+
+      const result = await validator.validate({
+        items: [
+          { sku: 'A-1', qty: 1 },
+          { sku: 'A-2', qty: 0 },
+          { qty: 3 },
+        ],
+      })
+
+      expect(result.valid).toBe(false)
+      expect(Object.keys(result.errorMap)).toEqual(['items[1].qty', 'items[2].sku'])
+      expect(result.errorMap['items[2].sku'][0].field).toBe('items[2].sku')
+    })
+
+    it('should stop at the first nested error when stopOnFirstError is enabled', async () => {
+      const schema = {
+        address: {
+          type: 'object' as const,
+          schema: {
+            city: { type: 'string' as const, required: true },
+            street: { type: 'string' as const, required: true },
+          },
+        },
+        name: { type: 'string' as const, required: true },
+      }
+
+      const validator = createSchemaValidator(schema, { stopOnFirstError: true })
+
+      const result = await validator.validate({ address: {} })
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].field).toBe('address.city')
+    })
+
+    it('should skip nested validation for empty optional objects', async () => {
+      const schema = {
+        address: {
+          type: 'object' as const,
+          schema: { city: { type: 'string' as const, required: true } },
+        },
+      }
+
+      const validator = createSchemaValidator(schema)
+
+      const result = await validator.validate({})
+      expect(result.valid).toBe(true)
+    })
   })
-})
 
+  describe('parse and safeParse', () => {
+    const schema = {
+      email: { type: 'email' as const, required: true as const, transform: ['trim', 'toLowerCase'] },
+      age: { type: 'number' as const, min: 18, default: 18 },
+      address: {
+        type: 'object' as const,
+        schema: { city: { type: 'string' as const, transform: ['trim'] } },
+      },
+    }
 
+    it('should return transformed data from validate on success', async () => {
+      const validator = createSchemaValidator(schema, { autoTransform: true })
 
+      const result1 = await validator.validate({ email: '  USER@EXAMPLE.COM ' })
+      expect(result1.data).toEqual({ email: 'user@example.com', age: 18 })
+
+      const result2 = await validator.validate({ email: 'invalid' })
+      expect(result2.data).toBeUndefined()
+    })
+
+    it('should parse and return cleaned data', async () => {
+      const validator = createSchemaValidator(schema, { autoTransform: true })
+
+      const data = await validator.parse({
+        email: ' USER@EXAMPLE.COM',
+        address: { city: '  Beijing ' },
+        extra: true,
+      })
+      expect(data).toEqual({
+        email: 'user@example.com',
+        age: 18,
+        address: { city: 'Beijing' },
+        extra: true,
+      })
+      expectTypeOf(data.email).toEqualTypeOf<string>()
+    })
+
+    it('should throw ValidationException on failure', async () => {
+      const validator = createSchemaValidator(schema)
+
+      const error = await validator.parse({ email: 'invalid', age: 10 }).catch(e => e)
+      expect(error).toBeInstanceOf(ValidationException)
+      expect(error).toBeInstanceOf(Error)
+      expect(error.name).toBe('ValidationException')
+      expect(error.errors).toHaveLength(2)
+      expect(error.message).toBe(error.errors[0].message)
+      expect(error.getMessage('age')).toBe(error.errorMap.age[0].message)
+    })
+
+    it('should return a discriminated union from safeParse', async () => {
+      const validator = createSchemaValidator(schema)
+
+      const success = await validator.safeParse({ email: 'user@example.com' })
+      expect(success.success).toBe(true)
+      if (success.success) {
+        expect(success.data.age).toBe(18)
+      }
+
+      const failure = await validator.safeParse({})
+      expect(failure.success).toBe(false)
+      if (!failure.success) {
+        expect(failure.error.errorMap.email[0].code).toBe('REQUIRED')
+      }
+    })
+  })
+
+  describe('unknown keys policy', () => {
+    const schema = {
+      name: { type: 'string' as const, required: true },
+      address: {
+        type: 'object' as const,
+        schema: { city: { type: 'string' as const } },
+      },
+      items: {
+        type: 'array' as const,
+        items: { type: 'object' as const, schema: { sku: { type: 'string' as const } } },
+      },
+    }
+
+    const payload = {
+      name: 'John',
+      role: 'admin',
+      address: { city: 'Beijing', zip: '100000' },
+      items: [{ sku: 'A-1', price: 1 }],
+    }
+
+    it('should keep unknown keys by default', async () => {
+      const validator = createSchemaValidator(schema)
+
+      const data = await validator.parse(payload)
+      expect(data).toEqual(payload)
+    })
+
+    it('should strip unknown keys including nested schemas', async () => {
+      const validator = createSchemaValidator(schema, { unknownKeys: 'strip' })
+
+      const data = await validator.parse(payload)
+      expect(data).toEqual({
+        name: 'John',
+        address: { city: 'Beijing' },
+        items: [{ sku: 'A-1' }],
+      })
+      expect(payload.address.zip).toBe('100000')
+    })
+
+    it('should reject unknown keys with UNKNOWN_FIELD errors', async () => {
+      const validator = createSchemaValidator(schema, { unknownKeys: 'reject' })
+
+      const result = await validator.validate(payload)
+      expect(result.valid).toBe(false)
+      expect(result.errors.map(error => error.field)).toEqual(['address.zip', 'items[0].price', 'role'])
+      expect(result.errors.every(error => error.code === 'UNKNOWN_FIELD')).toBe(true)
+      expect(result.errorMap.role[0].message).toContain('role')
+    })
+  })
+})
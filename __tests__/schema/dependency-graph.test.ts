@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import * as rules from '../../src/rules'
+import { createDependencyGraph, DependencyCycleError } from '../../src/schema/dependency-graph'
+import { getDependencies, withDependencies } from '../../src/utils/dependencies'
+
+describe('dependencyGraph', () => {
+  it('should collect dependencies from cross-field rules and dependsOn', () => {
+    const graph = createDependencyGraph({
+      password: { type: 'string' },
+      confirmPassword: { type: 'string', validator: rules.matchField('password') },
+      country: { type: 'string' },
+      city: [{ type: 'string' }, { validator: rules.requiredIf('country'), dependsOn: ['region'] }],
+    })
+
+    expect(graph.dependenciesOf('confirmPassword')).toEqual(['password'])
+    expect(graph.dependenciesOf('city')).toEqual(['region', 'country'])
+    expect(graph.dependentsOf('password')).toEqual(['confirmPassword'])
+    expect(graph.affectedBy('country')).toEqual(['city'])
+    expect(graph.affectedBy('city')).toEqual([])
+  })
+
+  it('should attribute nested dependencies to top-level fields', () => {
+    const graph = createDependencyGraph({
+      range: {
+        type: 'object',
+        schema: {
+          start: { type: 'date' },
+          end: { type: 'date', validator: rules.afterDate('range.start') },
+        },
+      },
+      deadline: { type: 'date', validator: rules.afterDate('range.end') },
+      items: { type: 'array', items: { type: 'number', validator: rules.lessThan('limit') } },
+    })
+
+    expect(graph.dependenciesOf('range')).toEqual([])
+    expect(graph.dependenciesOf('deadline')).toEqual(['range'])
+    expect(graph.affectedBy('limit')).toEqual(['items'])
+  })
+
+  it('should inherit dependencies through combinators', () => {
+    const combined = rules.and(rules.matchField('a'), rules.or(rules.requiredIf('b'), rules.email))
+    expect(getDependencies(combined)).toEqual(['a', 'b'])
+
+    const conditional = rules.when(() => true, { then: rules.matchField('c'), dependsOn: ['d'] })
+    expect(getDependencies(conditional)).toEqual(['c', 'd'])
+
+    expect(getDependencies(rules.email)).toEqual([])
+  })
+
+  it('should not mutate the wrapped validator', async () => {
+    const dependent = withDependencies(rules.email, ['x'])
+
+    expect(dependent).not.toBe(rules.email)
+    expect(getDependencies(dependent)).toEqual(['x'])
+    expect(getDependencies(rules.email)).toEqual([])
+    expect((await dependent('invalid')).valid).toBe(false)
+  })
+
+  it('should follow transitive dependents', () => {
+    const graph = createDependencyGraph({
+      a: { type: 'number' },
+      b: { validator: rules.greaterThan('a') },
+      c: { validator: rules.greaterThan('b') },
+      d: { validator: withDependencies(() => ({ valid: true }), ['a', 'c']) },
+    })
+
+    expect(graph.affectedBy('a')).toEqual(['b', 'd', 'c'])
+    expect(graph.hasCycles()).toBe(false)
+    expect(() => graph.assertAcyclic()).not.toThrow()
+  })
+
+  it('should detect cycles', () => {
+    const graph = createDependencyGraph({
+      a: { validator: rules.matchField('b') },
+      b: { validator: rules.matchField('c') },
+      c: { validator: rules.matchField('a') },
+      d: { validator: rules.matchField('d') },
+    })
+
+    expect(graph.findCycles()).toEqual([['a', 'b', 'c', 'a']])
+    expect(graph.affectedBy('a')).toEqual(['c', 'b'])
+    expect(() => graph.assertAcyclic()).toThrow(DependencyCycleError)
+  })
+})
@@ -0,0 +1,57 @@
+import type { Infer } from '../../src/schema/infer'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { defineSchema } from '../../src/schema/infer'
+import { createSchemaValidator } from '../../src/schema/SchemaValidator'
+
+describe('schema type inference', () => {
+  const userSchema = defineSchema({
+    name: { type: 'string', required: true },
+    age: { type: 'number', min: 18 },
+    role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+    active: [{ required: true }, { type: 'boolean' }],
+    joinedAt: { type: 'date' },
+    tags: { type: 'array', items: { type: 'string' } },
+    address: {
+      type: 'object',
+      schema: {
+        city: { type: 'string', required: true },
+        zip: { type: 'string' },
+      },
+    },
+    items: {
+      type: 'array',
+      required: true,
+      items: { type: 'object', schema: { sku: { type: 'string', required: true } } },
+    },
+  })
+
+  type User = Infer<typeof userSchema>
+
+  it('should infer required and optional properties', () => {
+    expectTypeOf<User['name']>().toEqualTypeOf<string>()
+    expectTypeOf<User['active']>().toEqualTypeOf<boolean>()
+    expectTypeOf<User>().toHaveProperty('age').toEqualTypeOf<number | undefined>()
+    expectTypeOf<User['joinedAt']>().toEqualTypeOf<Date | string | undefined>()
+  })
+
+  it('should infer enum literal unions and treat defaults as present', () => {
+    expectTypeOf<User['role']>().toEqualTypeOf<'admin' | 'user'>()
+  })
+
+  it('should infer nested schemas and arrays', () => {
+    expectTypeOf<User['tags']>().toEqualTypeOf<string[] | undefined>()
+    expectTypeOf<NonNullable<User['address']>>().toEqualTypeOf<{ city: string, zip?: string }>()
+    expectTypeOf<User['items']>().toEqualTypeOf<{ sku: string }[]>()
+  })
+
+  it('should fall back to a record for untyped schemas', () => {
+    expectTypeOf<Infer<Record<string, { type: 'string' }>>>().toEqualTypeOf<Record<string, any>>()
+  })
+
+  it('should return the schema unchanged for validation', async () => {
+    const validator = createSchemaValidator(userSchema)
+
+    const result = await validator.validate({ name: 'John', active: true, items: [{ sku: 'A-1' }] })
+    expect(result.valid).toBe(true)
+  })
+})
@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest'
+import { email } from '../../src/rules/format'
+import {
+  createJSONSchemaValidator,
+  fromJSONSchema,
+  JSON_SCHEMA_DIALECT,
+  ruleFromJSONSchema,
+  ruleToJSONSchema,
+  toJSONSchema,
+} from '../../src/schema/json-schema'
+
+describe('json schema', () => {
+  describe('toJSONSchema', () => {
+    it('should export a draft 2020-12 object document', () => {
+      const document = toJSONSchema({
+        name: { type: 'string', required: true, min: 2, max: 20, label: 'Name' },
+        age: { type: 'number', min: 18, max: 100, default: 18 },
+        active: { type: 'boolean' },
+      }, { $id: 'https://example.com/user.json', title: 'User' })
+
+      expect(document).toEqual({
+        $schema: JSON_SCHEMA_DIALECT,
+        $id: 'https://example.com/user.json',
+        title: 'User',
+        type: 'object',
+        properties: {
+          name: { title: 'Name', type: 'string', minLength: 2, maxLength: 20 },
+          age: { type: 'number', minimum: 18, maximum: 100, default: 18 },
+          active: { type: 'boolean' },
+        },
+        required: ['name'],
+      })
+    })
+
+    it('should map format types to format', () => {
+      const document = toJSONSchema({
+        email: { type: 'email' },
+        website: { type: 'url' },
+        birthday: { type: 'date' },
+      })
+
+      expect(document.properties).toEqual({
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'uri' },
+        birthday: { type: 'string', format: 'date-time' },
+      })
+    })
+
+    it('should export pattern, enum, items and nested schemas', () => {
+      const document = toJSONSchema({
+        code: { type: 'string', pattern: /^[A-Z]{3}$/ },
+        role: { enum: ['admin', 'user'] },
+        tags: { type: 'array', min: 1, items: { type: 'string', max: 10 } },
+        address: {
+          type: 'object',
+          required: true,
+          schema: {
+            city: { type: 'string', required: true },
+          },
+        },
+      }, { unknownKeys: 'reject' })
+
+      expect(document.additionalProperties).toBe(false)
+      expect(document.required).toEqual(['address'])
+      expect(document.properties).toEqual({
+        code: { type: 'string', pattern: '^[A-Z]{3}$' },
+        role: { enum: ['admin', 'user'] },
+        tags: { type: 'array', minItems: 1, items: { type: 'string', maxLength: 10 } },
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+          additionalProperties: false,
+        },
+      })
+    })
+
+    it('should export multiple rules as allOf', () => {
+      const document = toJSONSchema({
+        password: [{ required: true }, { type: 'string', min: 8 }],
+      })
+
+      expect(document.required).toEqual(['password'])
+      expect(document.properties?.password).toEqual({
+        allOf: [{}, { type: 'string', minLength: 8 }],
+      })
+    })
+  })
+
+  describe('ruleToJSONSchema', () => {
+    it('should emit all range keywords for untyped rules', () => {
+      expect(ruleToJSONSchema({ min: 1, max: 5 })).toEqual({
+        minLength: 1,
+        maxLength: 5,
+        minimum: 1,
+        maximum: 5,
+        minItems: 1,
+        maxItems: 5,
+      })
+    })
+
+    it('should mark constructs that cannot be represented', () => {
+      const rule = {
+        type: 'string' as const,
+        pattern: /^abc$/i,
+        validator: email,
+        transform: ['trim'],
+      }
+
+      expect(ruleToJSONSchema(rule)['x-unsupported']).toEqual(['pattern.flags', 'validator', 'transform'])
+      expect(ruleToJSONSchema(rule, { markUnsupported: false })['x-unsupported']).toBeUndefined()
+    })
+  })
+
+  describe('fromJSONSchema', () => {
+    it('should import types, required and range keywords', () => {
+      const schema = fromJSONSchema({
+        type: 'object',
+        properties: {
+          name: { type: 'string', title: 'Name', minLength: 2, maxLength: 20 },
+          age: { type: 'number', minimum: 18, maximum: 100, default: 18 },
+          tags: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^[a-z]+$' } },
+          role: { enum: ['admin', 'user'] },
+          email: { type: 'string', format: 'email' },
+          website: { type: 'string', format: 'uri' },
+        },
+        required: ['name'],
+      })
+
+      expect(schema).toEqual({
+        name: { label: 'Name', type: 'string', min: 2, max: 20, required: true },
+        age: { type: 'number', min: 18, max: 100, default: 18, validator: expect.any(Function) },
+        tags: { type: 'array', min: 1, items: { type: 'string', pattern: /^[a-z]+$/ } },
+        role: { enum: ['admin', 'user'] },
+        email: { type: 'email' },
+        website: { type: 'url' },
+      })
+    })
+
+    it('should import nested objects', () => {
+      const rule = ruleFromJSONSchema({
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+      })
+
+      expect(rule).toEqual({ type: 'object', schema: { city: { type: 'string', required: true } } })
+    })
+
+    it('should round-trip exported schemas', () => {
+      const original = {
+        email: { type: 'email' as const, required: true },
+        age: { type: 'number' as const, min: 18 },
+        address: { type: 'object' as const, schema: { city: { type: 'string' as const, max: 50 } } },
+      }
+
+      // 导入的 number 类型附带严格的类型检查验证器
+      expect(fromJSONSchema(toJSONSchema(original))).toEqual({
+        ...original,
+        age: { ...original.age, validator: expect.any(Function) },
+      })
+    })
+  })
+
+  describe('createJSONSchemaValidator', () => {
+    const document = {
+      type: 'object' as const,
+      properties: {
+        email: { type: 'string' as const, format: 'email' },
+        age: { type: 'integer' as const, minimum: 18 },
+        id: { type: 'string' as const, format: 'uuid' },
+        nickname: { type: ['string', 'null'] as any, maxLength: 5 },
+        address: {
+          type: 'object' as const,
+          properties: { city: { type: 'string' as const, minLength: 2 } },
+          required: ['city'],
+        },
+      },
+      required: ['email', 'address'],
+      additionalProperties: false,
+    }
+
+    it('should validate data against an imported document', async () => {
+      const validator = createJSONSchemaValidator(document)
+
+      const result1 = await validator.validate({
+        email: 'user@example.com',
+        age: 20,
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        nickname: null,
+        address: { city: 'Beijing' },
+      })
+      expect(result1.valid).toBe(true)
+
+      const result2 = await validator.validate({
+        email: 'invalid',
+        age: 18.5,
+        id: 'not-a-uuid',
+        nickname: 'too long',
+        address: {},
+        extra: true,
+      })
+      expect(Object.keys(result2.errorMap)).toEqual(['email', 'age', 'id', 'nickname', 'address.city', 'extra'])
+      expect(result2.errorMap.extra[0].code).toBe('UNKNOWN_FIELD')
+    })
+
+    it('should support allOf, anyOf and oneOf', async () => {
+      const validator = createJSONSchemaValidator({
+        type: 'object',
+        properties: {
+          code: { allOf: [{ type: 'string', minLength: 2 }, { pattern: '^[A-Z]+$' }] },
+          contact: { anyOf: [{ type: 'string', format: 'email' }, { type: 'string', pattern: '^\\d{11}$' }] },
+          value: { oneOf: [{ type: 'number', maximum: 10 }, { type: 'number', minimum: 5 }] },
+        },
+      })
+
+      const result1 = await validator.validate({ code: 'AB', contact: '13800138000', value: 2 })
+      expect(result1.valid).toBe(true)
+
+      const result2 = await validator.validate({ code: 'ab', contact: 'nope', value: 7 })
+      expect(result2.errorMap.code[0].code).toBe('PATTERN')
+      expect(result2.errorMap.contact[0].code).toBe('OR_ALL_FAILED')
+      expect(result2.errorMap.value[0].code).toBe('ONE_OF_MULTIPLE')
+    })
+
+    it('should check number and integer types strictly', async () => {
+      const validator = createJSONSchemaValidator({
+        type: 'object',
+        properties: {
+          n: { type: 'integer' },
+          x: { type: 'number' },
+          o: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        },
+      })
+
+      expect((await validator.validate({ n: 3, x: 1.5, o: 'a' })).valid).toBe(true)
+      expect((await validator.validate({ n: 3, x: 1.5, o: 2 })).valid).toBe(true)
+
+      const result = await validator.validate({ n: '3', x: '1.5', o: true })
+      expect(result.errorMap.n[0].code).toBe('TYPE_MISMATCH')
+      expect(result.errorMap.x[0].code).toBe('TYPE_MISMATCH')
+      expect(result.errorMap.o[0].code).toBe('OR_ALL_FAILED')
+
+      const booleans = await validator.validate({ n: true, x: false })
+      expect(Object.keys(booleans.errorMap)).toEqual(['n', 'x'])
+    })
+
+    it('should pass the abort signal to combined sub-rules', async () => {
+      const rule = ruleFromJSONSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await rule.validator!('a', { signal: controller.signal })
+      expect(result).toMatchObject({ valid: false, code: 'ABORTED' })
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { getEventListeners } from 'node:events'
+import { describe, expect, it } from 'vitest'
+import { createValidator } from '../../src/core/Validator'
+import * as rules from '../../src/rules'
+import { createSchemaValidator } from '../../src/schema/SchemaValidator'
+import { abortedResult, createAbortScope, isAborted, linkSignals, raceAbort } from '../../src/utils/abort'
+
+/**
+ * 创建一个可手动完成的异步规则
+ */
+function deferredRule() {
+  const calls: Array<{ value: any, signal?: AbortSignal, resolve: (valid: boolean) => void }> = []
+
+  const validator = (value: any, context?: any) => new Promise<{ valid: boolean }>((resolve) => {
+    calls.push({ value, signal: context?.signal, resolve: valid => resolve({ valid }) })
+  })
+
+  return { validator, calls }
+}
+
+describe('abort Utilities', () => {
+  describe('helpers', () => {
+    it('should detect aborted contexts', () => {
+      const controller = new AbortController()
+      expect(isAborted({ signal: controller.signal })).toBe(false)
+
+      controller.abort()
+      expect(isAborted({ signal: controller.signal })).toBe(true)
+      expect(isAborted()).toBe(false)
+      expect(abortedResult().code).toBe('ABORTED')
+    })
+
+    it('should resolve with ABORTED when the signal fires first', async () => {
+      const controller = new AbortController()
+      const pending = raceAbort(new Promise(() => {}), { signal: controller.signal })
+
+      controller.abort()
+      await expect(pending).resolves.toMatchObject({ valid: false, code: 'ABORTED' })
+    })
+
+    it('should link multiple signals', () => {
+      const first = new AbortController()
+      const second = new AbortController()
+      const linked = linkSignals(first.signal, undefined, second.signal)
+
+      expect(linkSignals(undefined, first.signal)).toBe(first.signal)
+      second.abort()
+      expect(linked?.aborted).toBe(true)
+    })
+
+    it('should not accumulate listeners on a long-lived signal', async () => {
+      const form = new AbortController()
+      const validator = createValidator<string>().rule({ validator: async () => ({ valid: true }) })
+
+      for (let i = 0; i < 20; i++) {
+        linkSignals(form.signal, new AbortController().signal)
+        await validator.validate('value', { signal: form.signal })
+      }
+
+      expect(getEventListeners(form.signal, 'abort')).toHaveLength(0)
+    })
+
+    it('should abort the previous signal for the same key', () => {
+      const scope = createAbortScope()
+
+      const first = scope.next('username')
+      const other = scope.next('email')
+      const second = scope.next('username')
+
+      expect(first.aborted).toBe(true)
+      expect(other.aborted).toBe(false)
+
+      scope.release('username', second)
+      expect(scope.size).toBe(1)
+
+      scope.abortAll()
+      expect(other.aborted).toBe(true)
+      expect(scope.size).toBe(0)
+    })
+  })
+
+  describe('validator', () => {
+    it('should end with ABORTED when cancelled mid-flight', async () => {
+      const { validator, calls } = deferredRule()
+      const controller = new AbortController()
+      const instance = createValidator<string>({ cache: true })
+        .rule({ name: 'remote', validator })
+
+      const pending = instance.validate('john', { signal: controller.signal })
+      await Promise.resolve()
+      expect(calls[0].signal).toBe(controller.signal)
+
+      controller.abort()
+      const result = await pending
+      expect(result).toMatchObject({ valid: false, code: 'ABORTED' })
+      expect(instance.getCacheStats()?.size).toBe(0)
+    })
+
+    it('should not run rules when already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = createValidator<string>()
+        .rule({ validator: rules.email })
+        .validateSync('invalid', { signal: controller.signal })
+
+      expect(result.code).toBe('ABORTED')
+    })
+
+    it('should map rejections caused by cancellation to ABORTED without onError', async () => {
+      const errors: Error[] = []
+      const controller = new AbortController()
+      const instance = createValidator<string>({ onError: error => errors.push(error) })
+        .rule({
+          validator: (_value, context) => new Promise((_resolve, reject) => {
+            context?.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+          }),
+        })
+
+      const pending = instance.validate('john', { signal: controller.signal })
+      controller.abort()
+
+      expect((await pending).code).toBe('ABORTED')
+      expect(errors).toHaveLength(0)
+    })
+
+    it('should cancel stale validations per field with abortStale', async () => {
+      const { validator, calls } = deferredRule()
+      const instance = createValidator<string>({ abortStale: true })
+        .rule({ validator })
+
+      const first = instance.validate('jo', { field: 'username' })
+      const other = instance.validate('x', { field: 'nickname' })
+      const second = instance.validate('john', { field: 'username' })
+      await Promise.resolve()
+
+      calls.forEach(call => call.resolve(true))
+
+      expect((await first).code).toBe('ABORTED')
+      expect((await other).valid).toBe(true)
+      expect((await second).valid).toBe(true)
+    })
+  })
+
+  describe('combinators', () => {
+    it('should stop and/or/arrayOf when aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const context = { signal: controller.signal }
+
+      expect((await rules.and(rules.email)('invalid', context)).code).toBe('ABORTED')
+      expect((await rules.or(rules.email)('invalid', context)).code).toBe('ABORTED')
+      expect((await rules.when(() => true, { then: rules.email })('invalid', context)).code).toBe('ABORTED')
+      expect((await rules.arrayOf(rules.email)(['invalid'], context)).code).toBe('ABORTED')
+    })
+  })
+
+  describe('schemaValidator', () => {
+    it('should report ABORTED and stop validating remaining fields', async () => {
+      const { validator } = deferredRule()
+      const controller = new AbortController()
+      const schemaValidator = createSchemaValidator({
+        username: { type: 'string', validator },
+        email: { type: 'email', required: true },
+      })
+
+      const pending = schemaValidator.validate({ username: 'john' }, { signal: controller.signal })
+      controller.abort()
+
+      const result = await pending
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual([expect.objectContaining({ field: 'username', code: 'ABORTED' })])
+    })
+  })
+})
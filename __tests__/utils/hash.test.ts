@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { fastHash, simpleKey, CacheKeyStrategy } from '../../src/utils/hash'
+import { fastHash, simpleKey, CacheKeyStrategy, sha1 } from '../../src/utils/hash'
 
 describe('Hash Utilities', () => {
   describe('fastHash', () => {
@@ -135,7 +135,17 @@ describe('Hash Utilities', () => {
       expect(time1).toBeLessThan(time2)
     })
   })
-})
-
 
+  describe('sha1', () => {
+    it('should match known SHA-1 digests', () => {
+      expect(sha1('')).toBe('DA39A3EE5E6B4B0D3255BFEF95601890AFD80709')
+      expect(sha1('abc')).toBe('A9993E364706816ABA3E25717850C26C9CD0D89D')
+      expect(sha1('password')).toBe('5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8')
+    })
 
+    it('should hash multi-block and non-ASCII input as UTF-8', () => {
+      expect(sha1('a'.repeat(1000))).toBe('291E9A6C66994949B57BA5E650361E98FC36B1BA')
+      expect(sha1('密码')).toBe('C839A8FF17885AF0B098662CCC3AC5E3111B3B3B')
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createValidator } from '../../src/core/Validator'
+import { createSchemaValidator } from '../../src/schema/SchemaValidator'
+import { runWithTimeout, timeoutResult, ValidationTimeoutError } from '../../src/utils/timeout'
+
+/**
+ * 创建一个永不完成的异步规则，并记录收到的取消信号
+ */
+function hangingRule() {
+  const signals: Array<AbortSignal | undefined> = []
+
+  const validator = (_value: any, context?: any) => {
+    signals.push(context?.signal)
+    return new Promise<{ valid: boolean }>(() => {})
+  }
+
+  return { validator, signals }
+}
+
+describe('timeout Utilities', () => {
+  describe('runWithTimeout', () => {
+    it('should return sync results directly', () => {
+      const result = runWithTimeout(() => ({ valid: true }), 'x', undefined, 10)
+      expect(result).toEqual({ valid: true })
+    })
+
+    it('should resolve with TIMEOUT and abort the validator signal', async () => {
+      const { validator, signals } = hangingRule()
+      const onTimeout = vi.fn()
+
+      const result = await runWithTimeout(validator, 'x', undefined, 20, onTimeout)
+
+      expect(result).toMatchObject({ valid: false, code: 'TIMEOUT', meta: { timeout: 20 } })
+      expect(onTimeout).toHaveBeenCalledTimes(1)
+      expect(signals[0]?.aborted).toBe(true)
+    })
+
+    it('should not limit validators without a timeout', async () => {
+      const result = await runWithTimeout(async () => ({ valid: true }), 'x', undefined, 0)
+      expect(result.valid).toBe(true)
+    })
+
+    it('should localize the timeout message', () => {
+      expect(timeoutResult(500, { locale: 'en-US' }).message).toBe('Validation timed out after 500 ms')
+    })
+  })
+
+  describe('validator', () => {
+    it('should time out hanging rules and report through onError', async () => {
+      const { validator, signals } = hangingRule()
+      const onError = vi.fn()
+      const v = createValidator({ timeout: 20, onError, cache: false })
+        .rule({ name: 'unique', validator })
+
+      const result = await v.validate('john')
+
+      expect(result.code).toBe('TIMEOUT')
+      expect(signals[0]?.aborted).toBe(true)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(ValidationTimeoutError)
+      expect(onError.mock.calls[0][0].rule).toBe('unique')
+    })
+
+    it('should let rule timeout override the validator timeout', async () => {
+      const { validator } = hangingRule()
+      const v = createValidator({ timeout: 10_000, cache: false })
+        .rule({ name: 'unique', validator, timeout: 20 })
+
+      const result = await v.validate('john')
+      expect(result).toMatchObject({ code: 'TIMEOUT', meta: { timeout: 20 } })
+    })
+
+    it('should not cache timeout results', async () => {
+      let calls = 0
+      const v = createValidator({ timeout: 20 }).rule({
+        name: 'flaky',
+        validator: () => {
+          calls++
+          return calls === 1 ? new Promise(() => {}) : Promise.resolve({ valid: true })
+        },
+      })
+
+      expect((await v.validate('john')).code).toBe('TIMEOUT')
+      expect((await v.validate('john')).valid).toBe(true)
+    })
+  })
+
+  describe('schemaValidator', () => {
+    it('should time out hanging custom validators', async () => {
+      const { validator } = hangingRule()
+      const schemaValidator = createSchemaValidator({
+        username: { type: 'string', validator, timeout: 20 },
+      })
+
+      const result = await schemaValidator.validate({ username: 'john' })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toMatchObject({ field: 'username', code: 'TIMEOUT' })
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest'
+import { effectScope } from 'vue'
+import * as rules from '../../src/rules'
+import { useSchemaForm } from '../../src/vue/useSchemaForm'
+
+/**
+ * 等待挂起的微任务和定时器执行完
+ */
+function flush(ms = 0) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('useSchemaForm', () => {
+  it('should bind v-model values to field state', async () => {
+    const scope = effectScope()
+    const form = scope.run(() => useSchemaForm({
+      email: { type: 'email', required: true },
+      tags: { type: 'array', items: { type: 'string', min: 2 } },
+    }, { initialValues: { email: '', tags: [] } }))!
+
+    form.values.email = 'invalid'
+    form.values.tags!.push('a')
+    await flush()
+
+    expect(form.errors.value.email).toBeTruthy()
+    expect(form.state.value.errorMap['tags[0]']).toHaveLength(1)
+    expect(form.dirty.value).toBe(true)
+
+    form.reset()
+    await flush()
+    expect(form.values).toEqual({ email: '', tags: [] })
+    expect(form.valid.value).toBe(true)
+    expect(form.dirty.value).toBe(false)
+
+    scope.stop()
+  })
+
+  it('should submit with pending debounced checks', async () => {
+    const scope = effectScope()
+    const onSubmit = vi.fn()
+    const form = scope.run(() => useSchemaForm({
+      password: { type: 'string', required: true },
+      confirmPassword: { type: 'string', validator: rules.matchField('password') },
+    }, { debounce: 50, onSubmit }))!
+
+    form.values.password = 'secret'
+    form.values.confirmPassword = 'secret'
+    const result = await form.submit()
+
+    expect(result.valid).toBe(true)
+    expect(onSubmit).toHaveBeenCalledWith({ password: 'secret', confirmPassword: 'secret' })
+    expect(form.submitting.value).toBe(false)
+
+    scope.stop()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { createValidator } from '../../src/core/Validator'
+import * as rules from '../../src/rules'
+import { useValidator } from '../../src/vue/useValidator'
+
+/**
+ * 等待挂起的微任务和定时器执行完
+ */
+function flush(ms = 0) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('useValidator', () => {
+  it('should validate when the ref changes', async () => {
+    const scope = effectScope()
+    const email = ref('')
+    const validator = createValidator<string>().rule({ validator: rules.email })
+
+    const { error, valid } = scope.run(() => useValidator(email, validator))!
+
+    email.value = 'invalid'
+    await nextTick()
+    await flush()
+    expect(valid.value).toBe(false)
+    expect(error.value).toBeTruthy()
+
+    email.value = 'user@example.com'
+    await nextTick()
+    await flush()
+    expect(valid.value).toBe(true)
+
+    scope.stop()
+  })
+
+  it('should debounce automatic checks and honor blur rules', async () => {
+    const scope = effectScope()
+    const name = ref('')
+    const check = vi.fn(async () => ({ valid: false, message: 'taken' }))
+    const validator = createValidator<string>({ cache: false })
+      .rule({ validator: rules.minLength(2) })
+      .rule({ validator: check, trigger: 'blur' })
+
+    const { error, blur } = scope.run(() => useValidator(name, validator, { debounce: 20 }))!
+
+    name.value = 'a'
+    await nextTick()
+    name.value = 'ab'
+    await nextTick()
+    await flush(40)
+
+    expect(error.value).toBeUndefined()
+    expect(check).not.toHaveBeenCalled()
+
+    await blur()
+    expect(check).toHaveBeenCalledTimes(1)
+    expect(error.value).toBe('taken')
+
+    scope.stop()
+  })
+})
@@ -1,7 +1,7 @@
 import { defineConfig } from '@ldesign/builder'
 
 export default defineConfig({
-  input: 'src/index.ts',
+  input: ['src/index.ts', 'src/react/index.ts', 'src/vue/index.ts'],
 
   output: {
     format: ['esm', 'cjs', ],
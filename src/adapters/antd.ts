@@ -0,0 +1,134 @@
+/**
+ * Ant Design 表单规则生成器
+ * 把 Schema 转换为 Form.Item 的 rules 格式，验证逻辑仍委托给 SchemaValidator
+ */
+
+import type { SchemaValidatorOptions } from '../schema/SchemaValidator'
+import type { Schema, SchemaRule, ValidationTrigger } from '../types'
+import { SchemaValidator } from '../schema/SchemaValidator'
+
+/**
+ * Ant Design 规则对象（RuleObject 的子集）
+ */
+export interface AntdRuleObject {
+  /** 是否必填（用于显示必填星号） */
+  required?: boolean
+
+  /** 错误消息 */
+  message?: string
+
+  /** 触发事件（需包含在 Form.Item 的 validateTrigger 中） */
+  validateTrigger?: string | string[]
+
+  /** 验证函数，验证失败时以包含错误消息的 Error 拒绝 */
+  validator: (rule: any, value: any) => Promise<void>
+}
+
+/**
+ * Ant Design 表单实例（FormInstance 的结构子集）
+ */
+export interface AntdFormInstance {
+  getFieldsValue: (...args: any[]) => any
+}
+
+/**
+ * Ant Design 规则（RuleRender 形式，可读取整个表单的值）
+ */
+export type AntdRule = (form: AntdFormInstance) => AntdRuleObject
+
+/**
+ * Ant Design 规则生成选项
+ */
+export interface AntdRulesOptions {
+  /**
+   * 验证消息语言
+   */
+  locale?: string
+
+  /**
+   * 内部 SchemaValidator 的选项
+   */
+  validatorOptions?: SchemaValidatorOptions
+}
+
+/**
+ * 把规则的触发时机映射为 Ant Design 的 validateTrigger
+ * 'change' 规则在输入和失焦时都会执行；'submit' 规则不绑定字段事件，只在 form.validateFields() 和提交时执行
+ */
+function mapTrigger(trigger: ValidationTrigger = 'change'): string[] {
+  switch (trigger) {
+    case 'blur':
+      return ['onBlur']
+    case 'submit':
+      return []
+    default:
+      return ['onChange', 'onBlur']
+  }
+}
+
+/**
+ * 把单条 Schema 规则转换为 Ant Design 规则
+ * @param field 字段名
+ * @param rule Schema 规则
+ * @param options 生成选项
+ * @returns Ant Design 规则
+ */
+export function toAntdRule(
+  field: string,
+  rule: SchemaRule,
+  options: AntdRulesOptions = {},
+): AntdRule {
+  const validator = new SchemaValidator({ [field]: rule }, options.validatorOptions)
+
+  return form => ({
+    required: rule.required,
+    message: rule.message,
+    validateTrigger: mapTrigger(rule.trigger),
+    validator: async (_rule, value) => {
+      // 跨字段规则需要完整的表单数据（包括未挂载字段的值）
+      const data = { ...form.getFieldsValue(true), [field]: value }
+      const result = await validator.validateFields(data, [field], { locale: options.locale })
+
+      if (!result.valid) {
+        throw new Error(result.errors[0].message)
+      }
+    },
+  })
+}
+
+/**
+ * 把 Schema 转换为 Ant Design Form.Item 的 rules
+ * 每条 Schema 规则生成一条 Ant Design 规则，validateTrigger 按规则的 trigger 映射，错误消息与 SchemaValidator 一致。
+ * 使用 'blur' 规则时，Form.Item 的 validateTrigger 需包含 'onBlur'
+ *
+ * @param schema Schema 定义
+ * @param options 生成选项
+ * @returns 按字段索引的 Ant Design 规则
+ *
+ * @example
+ * ```tsx
+ * const rules = toAntdRules({
+ *   email: { type: 'email', required: true },
+ *   username: { type: 'string', validator: checkUnique, trigger: 'blur' },
+ * })
+ *
+ * <Form form={form}>
+ *   <Form.Item name="email" label="邮箱" rules={rules.email} validateTrigger={['onChange', 'onBlur']}>
+ *     <Input />
+ *   </Form.Item>
+ * </Form>
+ * ```
+ */
+export function toAntdRules(
+  schema: Schema,
+  options: AntdRulesOptions = {},
+): Record<string, AntdRule[]> {
+  const rules: Record<string, AntdRule[]> = {}
+
+  for (const [field, ruleOrRules] of Object.entries(schema)) {
+    const fieldRules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+    rules[field] = fieldRules.map(rule => toAntdRule(field, rule, options))
+  }
+
+  return rules
+}
@@ -0,0 +1,130 @@
+/**
+ * Element Plus 表单规则生成器
+ * 把 Schema 转换为 el-form / el-form-item 的 rules 格式，验证逻辑仍委托给 SchemaValidator
+ */
+
+import type { SchemaValidatorOptions } from '../schema/SchemaValidator'
+import type { Schema, SchemaRule, ValidationTrigger } from '../types'
+import { SchemaValidator } from '../schema/SchemaValidator'
+
+/**
+ * Element Plus 表单规则（async-validator RuleItem 的子集）
+ */
+export interface ElementPlusRule {
+  /** 是否必填（用于显示必填星号） */
+  required?: boolean
+
+  /** 错误消息 */
+  message?: string
+
+  /** 触发事件 */
+  trigger?: string | string[]
+
+  /** 验证函数 */
+  validator: (
+    rule: any,
+    value: any,
+    callback: (error?: string | Error) => void,
+    source?: Record<string, any>,
+  ) => void
+}
+
+/**
+ * Element Plus 规则生成选项
+ */
+export interface ElementPlusRulesOptions {
+  /**
+   * 验证消息语言
+   */
+  locale?: string
+
+  /**
+   * 内部 SchemaValidator 的选项
+   */
+  validatorOptions?: SchemaValidatorOptions
+}
+
+/**
+ * 把规则的触发时机映射为 Element Plus 的 trigger
+ * 'change' 规则在输入和失焦时都会执行；'submit' 规则不绑定字段事件，只在 form.validate() 时执行
+ */
+function mapTrigger(trigger: ValidationTrigger = 'change'): string[] {
+  switch (trigger) {
+    case 'blur':
+      return ['blur']
+    case 'submit':
+      return []
+    default:
+      return ['change', 'blur']
+  }
+}
+
+/**
+ * 把单条 Schema 规则转换为 Element Plus 规则
+ * @param field 字段名
+ * @param rule Schema 规则
+ * @param options 生成选项
+ * @returns Element Plus 规则
+ */
+export function toElementPlusRule(
+  field: string,
+  rule: SchemaRule,
+  options: ElementPlusRulesOptions = {},
+): ElementPlusRule {
+  const validator = new SchemaValidator({ [field]: rule }, options.validatorOptions)
+
+  return {
+    required: rule.required,
+    message: rule.message,
+    trigger: mapTrigger(rule.trigger),
+    validator: (_rule, value, callback, source) => {
+      // 跨字段规则需要完整的表单数据，async-validator 会把它作为 source 传入
+      const data = { ...source, [field]: value }
+
+      validator.validateFields(data, [field], { locale: options.locale }).then(
+        result => callback(result.valid ? undefined : new Error(result.errors[0].message)),
+        error => callback(error),
+      )
+    },
+  }
+}
+
+/**
+ * 把 Schema 转换为 Element Plus 表单 rules
+ * 每条 Schema 规则生成一条 Element Plus 规则，trigger 按规则的 trigger 映射，错误消息与 SchemaValidator 一致
+ *
+ * @param schema Schema 定义
+ * @param options 生成选项
+ * @returns 按字段索引的 Element Plus 规则
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const rules = toElementPlusRules({
+ *   email: { type: 'email', required: true },
+ *   username: { type: 'string', validator: checkUnique, trigger: 'blur' },
+ * })
+ * </script>
+ *
+ * <template>
+ *   <el-form :model="form" :rules="rules">
+ *     <el-form-item prop="email" label="邮箱">
+ *       <el-input v-model="form.email" />
+ *     </el-form-item>
+ *   </el-form>
+ * </template>
+ * ```
+ */
+export function toElementPlusRules(
+  schema: Schema,
+  options: ElementPlusRulesOptions = {},
+): Record<string, ElementPlusRule[]> {
+  const rules: Record<string, ElementPlusRule[]> = {}
+
+  for (const [field, ruleOrRules] of Object.entries(schema)) {
+    const fieldRules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+    rules[field] = fieldRules.map(rule => toElementPlusRule(field, rule, options))
+  }
+
+  return rules
+}
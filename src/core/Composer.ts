@@ -3,9 +3,16 @@
  * 提供更优雅的链式 API 来组合验证规则
  */
 
-import type { ValidatorFunction } from '../types'
+import type { ValidationContext, ValidationResult, ValidatorFunction } from '../types'
 import { createValidator, type Validator } from './Validator'
 import * as rules from '../rules'
+import { localized } from '../i18n/MessageCatalog'
+
+/**
+ * 自定义错误消息
+ * 可以是固定字符串，也可以是每次验证时解析的函数（如 localized() 返回的函数）
+ */
+export type ComposerMessage<T = any> = string | ((value: T, context?: ValidationContext) => string)
 
 /**
  * 规则组合器类
@@ -33,15 +40,10 @@ export class RuleComposer<T = any> {
    * @param message 自定义错误消息
    * @returns 返回自身以支持链式调用
    */
-  required(message?: string): this {
+  required(message?: ComposerMessage<T>): this {
     this.validatorRules.push({
       name: 'required',
-      validator: message
-        ? (value, context) => {
-          const result = rules.required(value, context)
-          return result.valid ? result : { ...result, message }
-        }
-        : rules.required,
+      validator: this.withMessage(rules.required, message),
     })
     return this
   }
@@ -49,17 +51,13 @@ export class RuleComposer<T = any> {
   /**
    * 添加邮箱验证
    * @param message 自定义错误消息
+   * @param options 邮箱验证选项（可选），未提供时使用严格模式
    * @returns 返回自身以支持链式调用
    */
-  email(message?: string): this {
+  email(message?: ComposerMessage<T>, options?: rules.EmailOptions): this {
     this.validatorRules.push({
       name: 'email',
-      validator: message
-        ? (value, context) => {
-          const result = rules.email(value, context)
-          return result.valid ? result : { ...result, message }
-        }
-        : rules.email,
+      validator: this.withMessage(options ? rules.emailAddress(options) : rules.email, message),
     })
     return this
   }
@@ -67,17 +65,13 @@ export class RuleComposer<T = any> {
   /**
    * 添加 URL 验证
    * @param message 自定义错误消息
+   * @param options URL 验证选项（可选），未提供时允许 http、https 和 ftp 地址
    * @returns 返回自身以支持链式调用
    */
-  url(message?: string): this {
+  url(message?: ComposerMessage<T>, options?: rules.UrlOptions): this {
     this.validatorRules.push({
       name: 'url',
-      validator: message
-        ? (value, context) => {
-          const result = rules.url(value, context)
-          return result.valid ? result : { ...result, message }
-        }
-        : rules.url,
+      validator: this.withMessage(options ? rules.urlAddress(options) : rules.url, message),
     })
     return this
   }
@@ -87,15 +81,10 @@ export class RuleComposer<T = any> {
    * @param message 自定义错误消息
    * @returns 返回自身以支持链式调用
    */
-  phone(message?: string): this {
+  phone(message?: ComposerMessage<T>): this {
     this.validatorRules.push({
       name: 'phone',
-      validator: message
-        ? (value, context) => {
-          const result = rules.phone(value, context)
-          return result.valid ? result : { ...result, message }
-        }
-        : rules.phone,
+      validator: this.withMessage(rules.phone, message),
     })
     return this
   }
@@ -106,10 +95,10 @@ export class RuleComposer<T = any> {
    * @param message 自定义错误消息
    * @returns 返回自身以支持链式调用
    */
-  minLength(min: number, message?: string): this {
+  minLength(min: number, message?: ComposerMessage<T>): this {
     this.validatorRules.push({
       name: 'minLength',
-      validator: rules.minLength(min),
+      validator: this.withMessage(rules.minLength(min) as ValidatorFunction, message),
     })
     return this
   }
@@ -120,10 +109,10 @@ export class RuleComposer<T = any> {
    * @param message 自定义错误消息
    * @returns 返回自身以支持链式调用
    */
-  maxLength(max: number, message?: string): this {
+  maxLength(max: number, message?: ComposerMessage<T>): this {
     this.validatorRules.push({
       name: 'maxLength',
-      validator: rules.maxLength(max),
+      validator: this.withMessage(rules.maxLength(max) as ValidatorFunction, message),
     })
     return this
   }
@@ -208,12 +197,13 @@ export class RuleComposer<T = any> {
 
   /**
    * 添加强密码验证
+   * @param policy 密码策略（可选），未提供时使用默认的强密码规则
    * @returns 返回自身以支持链式调用
    */
-  strongPassword(): this {
+  strongPassword(policy?: rules.PasswordPolicy): this {
     this.validatorRules.push({
       name: 'strongPassword',
-      validator: rules.strongPassword,
+      validator: policy ? rules.passwordPolicy(policy) : rules.strongPassword,
     })
     return this
   }
@@ -348,6 +338,28 @@ export class RuleComposer<T = any> {
     this.validatorRules = []
     return this
   }
+
+  /**
+   * 使用自定义消息包装验证器（仅在验证失败时替换消息）
+   * 保持原验证器的同步/异步特性，以便 validateSync() 继续可用
+   * @param validator 原始验证器
+   * @param message 自定义错误消息
+   * @returns 包装后的验证器
+   */
+  private withMessage(validator: ValidatorFunction, message?: ComposerMessage<T>): ValidatorFunction<T> {
+    if (!message) {
+      return validator
+    }
+
+    return (value, context) => {
+      const apply = (result: ValidationResult): ValidationResult => result.valid
+        ? result
+        : { ...result, message: typeof message === 'function' ? message(value, context) : message }
+
+      const result = validator(value, context)
+      return result instanceof Promise ? result.then(apply) : apply(result)
+    }
+  }
 }
 
 /**
@@ -381,18 +393,18 @@ export const presets = {
    * 必填 + 邮箱格式验证
    */
   email: () => compose<string>()
-    .required('邮箱不能为空')
-    .email('邮箱格式不正确')
+    .required(localized('PRESET_EMAIL_REQUIRED'))
+    .email(localized('PRESET_EMAIL_INVALID'))
     .build({ cache: true }),
 
   /**
    * 密码验证器预设
-   * 必填 + 最小长度 + 强密码
+   * 必填 + 最小长度 + 强密码，可传入密码策略替换默认的强密码规则
    */
-  password: () => compose<string>()
-    .required('密码不能为空')
-    .minLength(8, '密码至少8个字符')
-    .strongPassword()
+  password: (policy?: rules.PasswordPolicy) => compose<string>()
+    .required(localized('PRESET_PASSWORD_REQUIRED'))
+    .minLength(policy?.minLength ?? 8, localized('PRESET_PASSWORD_MIN_LENGTH', { min: policy?.minLength ?? 8 }))
+    .strongPassword(policy)
     .build(),
 
   /**
@@ -400,9 +412,9 @@ export const presets = {
    * 必填 + 长度限制 + 字母数字
    */
   username: () => compose<string>()
-    .required('用户名不能为空')
-    .minLength(3, '用户名至少3个字符')
-    .maxLength(20, '用户名最多20个字符')
+    .required(localized('PRESET_USERNAME_REQUIRED'))
+    .minLength(3, localized('PRESET_USERNAME_MIN_LENGTH', { min: 3 }))
+    .maxLength(20, localized('PRESET_USERNAME_MAX_LENGTH', { max: 20 }))
     .alphanumeric()
     .build({ cache: true }),
 
@@ -411,8 +423,8 @@ export const presets = {
    * 必填 + 手机号格式
    */
   phone: () => compose<string>()
-    .required('手机号不能为空')
-    .phone('手机号格式不正确')
+    .required(localized('PRESET_PHONE_REQUIRED'))
+    .phone(localized('PRESET_PHONE_INVALID'))
     .build({ cache: true }),
 
   /**
@@ -420,8 +432,8 @@ export const presets = {
    * 必填 + URL 格式
    */
   url: () => compose<string>()
-    .required('URL 不能为空')
-    .url('URL 格式不正确')
+    .required(localized('PRESET_URL_REQUIRED'))
+    .url(localized('PRESET_URL_INVALID'))
     .build({ cache: true }),
 }
 
@@ -96,6 +96,7 @@ export class ResultPool {
       message: undefined,
       code: undefined,
       meta: undefined,
+      errors: undefined,
     }
   }
 
@@ -109,6 +110,7 @@ export class ResultPool {
     result.message = undefined
     result.code = undefined
     result.meta = undefined
+    result.errors = undefined
   }
 
   /**
@@ -3,6 +3,11 @@
  * 用于在验证前对数据进行清理和转换
  */
 
+import type { NormalizeEmailOptions } from '../rules/email'
+import type { PhoneRegion } from '../rules/phone'
+import { normalizeEmail } from '../rules/email'
+import { toE164 } from '../rules/phone'
+
 /**
  * 转换函数类型
  */
@@ -266,6 +271,42 @@ export class Transformer<T = any> {
     return this
   }
 
+  /**
+   * 把电话号码规范化为 E.164 格式
+   * 无法识别的号码保持原样，交由验证规则报告错误
+   * @param defaultRegion 解析国内格式号码时使用的国家/地区
+   * @returns 返回自身以支持链式调用
+   *
+   * @example
+   * ```typescript
+   * transformer.toE164('US').transform('(415) 555-2671') // '+14155552671'
+   * ```
+   */
+  toE164(defaultRegion?: PhoneRegion): this {
+    this.transforms.push((value: any) => {
+      return typeof value === 'string' ? toE164(value, defaultRegion) ?? value : value
+    })
+    return this
+  }
+
+  /**
+   * 规范化邮箱地址
+   * 默认整体转小写，可选按 Gmail 规则移除点和 + 后缀
+   * @param options 规范化选项
+   * @returns 返回自身以支持链式调用
+   *
+   * @example
+   * ```typescript
+   * transformer.normalizeEmail({ gmail: true }).transform('John.Doe+news@GMail.com') // 'johndoe@gmail.com'
+   * ```
+   */
+  normalizeEmail(options?: NormalizeEmailOptions): this {
+    this.transforms.push((value: any) => {
+      return typeof value === 'string' ? normalizeEmail(value, options) : value
+    })
+    return this
+  }
+
   /**
    * 移除 HTML 标签
    * @returns 返回自身以支持链式调用
@@ -445,9 +486,9 @@ export function createTransformer<T = any>(): Transformer<T> {
  */
 export const transformers = {
   /**
-   * 邮箱转换器：去除空格、转小写
+   * 邮箱转换器：去除空格、规范化（默认整体转小写）
    */
-  email: () => createTransformer<string>().trim().toLowerCase(),
+  email: (options?: NormalizeEmailOptions) => createTransformer<string>().trim().normalizeEmail(options),
 
   /**
    * 用户名转换器：去除空格、转小写、移除特殊字符
@@ -462,6 +503,11 @@ export const transformers = {
    */
   phone: () => createTransformer<string>().extractNumbers(),
 
+  /**
+   * 国际电话号码转换器：规范化为 E.164 格式
+   */
+  e164: (defaultRegion?: PhoneRegion) => createTransformer<string>().trim().toE164(defaultRegion),
+
   /**
    * URL Slug 转换器：转小写、空格转连字符
    */
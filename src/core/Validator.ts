@@ -1,4 +1,8 @@
-import type { ValidationRule, ValidationResult, ValidationContext } from '../types'
+import type { RuleError, ValidationRule, ValidationResult, ValidationContext } from '../types'
+import { getGlobalCatalog, t } from '../i18n/MessageCatalog'
+import { abortedResult, AbortScope, isAborted, linkSignals, raceAbort } from '../utils/abort'
+import { runWithTimeout, ValidationTimeoutError } from '../utils/timeout'
+import { shouldRunOnTrigger } from '../utils/trigger'
 import { RuleCache } from './Cache'
 import { ResultPool } from './Pool'
 
@@ -56,10 +60,17 @@ export interface ValidatorOptions {
 
   /**
    * 遇到第一个错误时停止验证
+   * 设为 false 时执行所有规则，并在结果的 errors 中返回全部失败（如同时展示密码的所有未满足要求）
    * @default true
    */
   stopOnFirstError?: boolean
 
+  /**
+   * 异步规则的默认超时时间（毫秒），可被 ValidationRule.timeout 覆盖
+   * 超时后以 TIMEOUT 结果结束，并以 ValidationTimeoutError 调用 onError
+   */
+  timeout?: number
+
   /**
    * 规则执行错误处理钩子
    * @param error 错误对象
@@ -67,6 +78,13 @@ export interface ValidatorOptions {
    * @param value 验证的值
    */
   onError?: (error: Error, rule: ValidationRule<any>, value: any) => void
+
+  /**
+   * 是否自动取消过期的验证
+   * 启用后，同一字段（context.field）开始新的 validate() 时，上一次尚未完成的验证以 ABORTED 结束
+   * @default false
+   */
+  abortStale?: boolean
 }
 
 /**
@@ -97,6 +115,12 @@ export class Validator<T = any> {
   /** 规则执行错误处理钩子 */
   private onError?: (error: Error, rule: ValidationRule<any>, value: any) => void
 
+  /** 异步规则的默认超时时间（毫秒） */
+  private timeout?: number
+
+  /** 过期验证取消作用域（启用 abortStale 时创建） */
+  private abortScope?: AbortScope
+
   /**
    * 构造函数
    * @param options 验证器配置选项
@@ -104,6 +128,11 @@ export class Validator<T = any> {
   constructor(options: ValidatorOptions = {}) {
     this.stopOnFirstError = options.stopOnFirstError ?? true
     this.onError = options.onError
+    this.timeout = options.timeout
+
+    if (options.abortStale) {
+      this.abortScope = new AbortScope()
+    }
 
     // 初始化缓存
     if (options.cache) {
@@ -158,7 +187,7 @@ export class Validator<T = any> {
       return this.createResult(false, {
         message: typeof rule.message === 'function'
           ? rule.message(value, context)
-          : rule.message || '此字段是必填项',
+          : rule.message || t('REQUIRED', { label: context?.label }, context?.locale),
         code: 'REQUIRED',
       })
     }
@@ -167,13 +196,15 @@ export class Validator<T = any> {
 
   /**
    * 从缓存获取验证结果
+   * 缓存键包含消息语言，切换语言后不会命中旧语言的消息
    * @param value 验证值
    * @param rule 验证规则
+   * @param context 验证上下文
    * @returns 缓存的结果或 undefined
    */
-  private getCachedResult(value: T, rule: ValidationRule<T>): ValidationResult | undefined {
+  private getCachedResult(value: T, rule: ValidationRule<T>, context?: ValidationContext): ValidationResult | undefined {
     if (this.cache && rule.name) {
-      const cacheKey = this.cache.generateKey(value, rule.name)
+      const cacheKey = this.cache.generateKey(value, rule.name, this.getLocale(context))
       return this.cache.get(cacheKey)
     }
     return undefined
@@ -184,14 +215,23 @@ export class Validator<T = any> {
    * @param value 验证值
    * @param rule 验证规则
    * @param result 验证结果
+   * @param context 验证上下文
    */
-  private setCachedResult(value: T, rule: ValidationRule<T>, result: ValidationResult): void {
+  private setCachedResult(value: T, rule: ValidationRule<T>, result: ValidationResult, context?: ValidationContext): void {
     if (this.cache && rule.name) {
-      const cacheKey = this.cache.generateKey(value, rule.name)
+      const cacheKey = this.cache.generateKey(value, rule.name, this.getLocale(context))
       this.cache.set(cacheKey, result)
     }
   }
 
+  /**
+   * 获取本次验证使用的消息语言
+   * @param context 验证上下文
+   */
+  private getLocale(context?: ValidationContext): string {
+    return context?.locale ?? getGlobalCatalog().getLocale()
+  }
+
   /**
    * 创建验证结果对象
    * @param valid 是否通过验证
@@ -200,7 +240,7 @@ export class Validator<T = any> {
    */
   private createResult(
     valid: boolean,
-    options?: { message?: string; code?: string; meta?: any }
+    options?: { message?: string; code?: string; meta?: any; errors?: RuleError[] }
   ): ValidationResult {
     // 如果启用了对象池，从池中获取对象
     if (this.pool) {
@@ -209,16 +249,57 @@ export class Validator<T = any> {
       result.message = options?.message
       result.code = options?.code
       result.meta = options?.meta
+      result.errors = options?.errors
       return result
     }
 
     // 否则直接创建新对象
-    return {
+    const result: ValidationResult = {
       valid,
       message: options?.message,
       code: options?.code,
       meta: options?.meta,
     }
+
+    if (options?.errors) {
+      result.errors = options.errors
+    }
+
+    return result
+  }
+
+  /**
+   * 汇总收集到的全部错误（收集全部错误模式）
+   * 顶层 message/code/meta 取第一条错误，errors 包含所有错误
+   * @param errors 收集到的错误
+   * @returns 验证结果
+   */
+  private createCollectedResult(errors: RuleError[]): ValidationResult {
+    if (errors.length === 0) {
+      return this.createResult(true)
+    }
+
+    const [first] = errors
+    return this.createResult(false, {
+      message: first.message,
+      code: first.code,
+      meta: first.meta,
+      errors,
+    })
+  }
+
+  /**
+   * 将失败结果转换为规则错误
+   * @param result 验证结果
+   * @param rule 验证规则
+   */
+  private toRuleError(result: ValidationResult, rule: ValidationRule<T>): RuleError {
+    return {
+      rule: rule.name,
+      message: result.message,
+      code: result.code,
+      meta: result.meta,
+    }
   }
 
   /**
@@ -260,17 +341,27 @@ export class Validator<T = any> {
     isAsync = true
   ): ValidationResult | Promise<ValidationResult> {
     try {
-      const result = rule.validator(value, context)
+      const timeout = rule.timeout ?? this.timeout
+      const result = isAsync && timeout
+        ? runWithTimeout(rule.validator, value, context, timeout, () => {
+            this.onError?.(new ValidationTimeoutError(timeout, rule.name), rule, value)
+          })
+        : rule.validator(value, context)
 
       // 如果是异步模式且结果是 Promise，正常返回
       if (isAsync && result instanceof Promise) {
         return result.catch(error => {
+          // 验证被取消导致的错误（如 fetch 抛出的 AbortError）不视为规则错误
+          if (isAborted(context)) {
+            return abortedResult(context)
+          }
+
           // 处理异步验证中的错误
           if (this.onError) {
             this.onError(error, rule, value)
           }
           return this.createResult(false, {
-            message: '验证规则执行出错',
+            message: t('RULE_ERROR', undefined, context?.locale),
             code: 'RULE_ERROR',
             meta: { error: error.message },
           })
@@ -290,7 +381,7 @@ export class Validator<T = any> {
         this.onError(error as Error, rule, value)
       }
       return this.createResult(false, {
-        message: '验证规则执行出错',
+        message: t('RULE_ERROR', undefined, context?.locale),
         code: 'RULE_ERROR',
         meta: { error: (error as Error).message },
       })
@@ -311,19 +402,72 @@ export class Validator<T = any> {
    * } else {
    *   console.log('验证失败:', result.message)
    * }
+   *
+   * // 收集全部错误模式
+   * const password = createValidator<string>({ stopOnFirstError: false })
+   *   .rule({ name: 'minLength', validator: rules.minLength(8) })
+   *   .rule({ name: 'strongPassword', validator: rules.strongPassword })
+   * const { errors } = await password.validate('abc') // 两条规则的错误都会返回
+   *
+   * // 取消验证
+   * const controller = new AbortController()
+   * const pending = validator.validate('user@example.com', { signal: controller.signal })
+   * controller.abort() // pending 以 { valid: false, code: 'ABORTED' } 结束
    * ```
    */
   async validate(value: T, context?: ValidationContext): Promise<ValidationResult> {
+    if (!this.abortScope) {
+      return this.validateValue(value, context)
+    }
+
+    // 取消同一字段上一次尚未完成的验证
+    const key = context?.field ?? ''
+    const staleSignal = this.abortScope.next(key)
+
+    try {
+      return await this.validateValue(value, {
+        ...context,
+        signal: linkSignals(context?.signal, staleSignal),
+      })
+    }
+    finally {
+      this.abortScope.release(key, staleSignal)
+    }
+  }
+
+  /**
+   * 执行所有规则验证单个值（异步）
+   * @param value 要验证的值
+   * @param context 验证上下文
+   * @returns 验证结果的 Promise
+   */
+  private async validateValue(value: T, context?: ValidationContext): Promise<ValidationResult> {
     // 短路优化：如果没有规则，直接返回成功
     if (this.rules.length === 0) {
       return this.createResult(true)
     }
 
+    const errors: RuleError[] = []
+
     for (const rule of this.rules) {
+      // 已取消时立即结束
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
+
+      // 跳过不在本次触发事件上执行的规则
+      if (!shouldRunOnTrigger(rule.trigger, context?.trigger)) {
+        continue
+      }
+
       // 检查必填规则
       const requiredResult = this.checkRequired(value, rule, context)
       if (requiredResult) {
-        return requiredResult
+        if (this.stopOnFirstError) {
+          return requiredResult
+        }
+        errors.push(this.toRuleError(requiredResult, rule))
+        continue
       }
 
       // 跳过空值（非必需字段）
@@ -332,14 +476,21 @@ export class Validator<T = any> {
       }
 
       // 尝试从缓存获取结果
-      let result = this.getCachedResult(value, rule)
+      let result = this.getCachedResult(value, rule, context)
 
-      // 如果缓存未命中，执行验证器
+      // 如果缓存未命中，执行验证器（取消时不等待规则完成）
       if (!result) {
-        result = await this.executeRule(rule, value, context, true)
+        result = await raceAbort(this.executeRule(rule, value, context, true), context)
 
-        // 保存到缓存
-        this.setCachedResult(value, rule, result)
+        // 取消的结果不缓存，直接返回
+        if (result.code === 'ABORTED' && isAborted(context)) {
+          return result
+        }
+
+        // 超时结果不缓存，下次验证时重试
+        if (result.code !== 'TIMEOUT') {
+          this.setCachedResult(value, rule, result, context)
+        }
       }
 
       // 如果验证失败
@@ -351,12 +502,12 @@ export class Validator<T = any> {
           return finalResult
         }
 
-        // 否则返回第一个错误（但继续执行后续规则的副作用）
-        return finalResult
+        // 否则记录错误并继续执行后续规则
+        errors.push(this.toRuleError(finalResult, rule))
       }
     }
 
-    return this.createResult(true)
+    return this.createCollectedResult(errors)
   }
 
   /**
@@ -379,7 +530,7 @@ export class Validator<T = any> {
     const failures: Array<{ value: T, result: ValidationResult }> = []
 
     for (const value of values) {
-      const result = await this.validate(value, context)
+      const result = await this.validateValue(value, context)
       const item = { value, result }
 
       results.push(item)
@@ -415,7 +566,7 @@ export class Validator<T = any> {
     // 并行执行所有验证
     const promises = values.map(async value => ({
       value,
-      result: await this.validate(value, context),
+      result: await this.validateValue(value, context),
     }))
 
     const results = await Promise.all(promises)
@@ -451,11 +602,27 @@ export class Validator<T = any> {
       return this.createResult(true)
     }
 
+    const errors: RuleError[] = []
+
     for (const rule of this.rules) {
+      // 已取消时立即结束
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
+
+      // 跳过不在本次触发事件上执行的规则
+      if (!shouldRunOnTrigger(rule.trigger, context?.trigger)) {
+        continue
+      }
+
       // 检查必填规则
       const requiredResult = this.checkRequired(value, rule, context)
       if (requiredResult) {
-        return requiredResult
+        if (this.stopOnFirstError) {
+          return requiredResult
+        }
+        errors.push(this.toRuleError(requiredResult, rule))
+        continue
       }
 
       // 跳过空值（非必需字段）
@@ -464,7 +631,7 @@ export class Validator<T = any> {
       }
 
       // 尝试从缓存获取结果
-      let result = this.getCachedResult(value, rule)
+      let result = this.getCachedResult(value, rule, context)
 
       // 如果缓存未命中，执行验证器
       if (!result) {
@@ -474,7 +641,7 @@ export class Validator<T = any> {
         result = executeResult as ValidationResult
 
         // 保存到缓存
-        this.setCachedResult(value, rule, result)
+        this.setCachedResult(value, rule, result, context)
       }
 
       // 如果验证失败
@@ -486,12 +653,12 @@ export class Validator<T = any> {
           return finalResult
         }
 
-        // 否则返回第一个错误
-        return finalResult
+        // 否则记录错误并继续执行后续规则
+        errors.push(this.toRuleError(finalResult, rule))
       }
     }
 
-    return this.createResult(true)
+    return this.createCollectedResult(errors)
   }
 
   /**
@@ -526,6 +693,19 @@ export class Validator<T = any> {
     return this.cache?.getStats()
   }
 
+  /**
+   * 取消正在进行的验证（仅在启用 abortStale 时有效）
+   * @param field 字段名，不传则取消所有字段
+   */
+  abort(field?: string): void {
+    if (field === undefined) {
+      this.abortScope?.abortAll()
+    }
+    else {
+      this.abortScope?.abort(field)
+    }
+  }
+
   /**
    * 获取验证器中的规则数量
    */
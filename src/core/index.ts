@@ -17,6 +17,7 @@ export { Transformer, createTransformer, transformers } from './Transformer'
 export type { TransformFunction } from './Transformer'
 
 export { RuleComposer, compose, presets } from './Composer'
+export type { ComposerMessage } from './Composer'
 
 
 
@@ -0,0 +1,603 @@
+/**
+ * 表单控制器
+ * 与框架无关的表单状态管理：持有表单值，跟踪字段的 touched/dirty 状态，
+ * 按规则的 trigger 在 change/blur/submit 时验证，并在依赖字段变化时重新验证
+ */
+
+import type { Infer } from '../schema/infer'
+import type { SchemaValidatorOptions } from '../schema/SchemaValidator'
+import type { Schema, SchemaValidationResult, ValidationError, ValidationTrigger } from '../types'
+import { DependencyGraph } from '../schema/dependency-graph'
+import { SchemaValidator } from '../schema/SchemaValidator'
+import { AbortScope } from '../utils/abort'
+
+/**
+ * 字段状态
+ */
+export interface FieldState<V = any> {
+  /** 当前值 */
+  value: V
+
+  /** 是否失焦过（或已提交过） */
+  touched: boolean
+
+  /** 当前值是否与初始值不同 */
+  dirty: boolean
+
+  /** 是否正在验证 */
+  validating: boolean
+
+  /** 是否已完成过至少一次验证 */
+  validated: boolean
+
+  /** 字段错误（包括嵌套路径的错误，如 `address.city`） */
+  errors: ValidationError[]
+
+  /** 是否没有错误 */
+  valid: boolean
+}
+
+/**
+ * 表单状态
+ */
+export interface FormState<T = Record<string, any>> {
+  /** 当前表单值 */
+  values: T
+
+  /** 各字段状态 */
+  fields: Record<string, FieldState>
+
+  /** 所有字段的错误 */
+  errors: ValidationError[]
+
+  /** 按字段路径索引的错误 */
+  errorMap: Record<string, ValidationError[]>
+
+  /** 是否没有错误 */
+  valid: boolean
+
+  /** 是否有字段被修改 */
+  dirty: boolean
+
+  /** 是否有字段失焦过 */
+  touched: boolean
+
+  /** 是否有字段正在验证 */
+  validating: boolean
+
+  /** 是否正在提交 */
+  submitting: boolean
+
+  /** 提交次数 */
+  submitCount: number
+}
+
+/**
+ * 表单状态监听器
+ */
+export type FormStateListener<T = Record<string, any>> = (state: FormState<T>) => void
+
+/**
+ * 字段状态监听器
+ */
+export type FieldStateListener<V = any> = (state: FieldState<V>) => void
+
+/**
+ * 提交处理函数（仅在验证通过时调用）
+ */
+export type SubmitHandler<T = Record<string, any>> = (data: T) => void | Promise<void>
+
+/**
+ * 表单控制器选项
+ */
+export interface FormControllerOptions<T = Record<string, any>> {
+  /**
+   * 初始值（同时作为 dirty 判断和 reset() 的基准）
+   */
+  initialValues?: Partial<T>
+
+  /**
+   * 内部 SchemaValidator 的选项（abortStale 由控制器自行管理）
+   */
+  validatorOptions?: Omit<SchemaValidatorOptions, 'abortStale'>
+
+  /**
+   * 验证消息语言
+   */
+  locale?: string
+
+  /**
+   * 默认的提交处理函数
+   */
+  onSubmit?: SubmitHandler<T>
+}
+
+/**
+ * 设置值的选项
+ */
+export interface SetValueOptions {
+  /**
+   * 是否触发 change 验证
+   * @default true
+   */
+  validate?: boolean
+}
+
+/** 提交验证在取消作用域中使用的键 */
+const SUBMIT_KEY = '\0submit'
+
+/**
+ * 内部字段状态
+ */
+interface FieldMeta {
+  touched: boolean
+  validating: boolean
+  validated: boolean
+  errors: ValidationError[]
+}
+
+/**
+ * 获取错误路径所属的顶层字段
+ */
+function rootField(path: string): string {
+  return path.split(/[.[]/)[0]
+}
+
+/**
+ * 结构相等比较（支持普通对象、数组和日期）
+ */
+function isEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) {
+    return false
+  }
+
+  return keys.every(key => isEqual(a[key], b[key]))
+}
+
+/**
+ * 表单控制器
+ * 基于 SchemaValidator，负责表单值、字段状态和验证时机，不依赖任何 UI 框架
+ *
+ * - `setValue()` 标记 dirty，并按 'change' 触发验证
+ * - `blur()` 标记 touched，并按 'blur' 触发验证
+ * - `submit()` 取消进行中的字段验证，按 'submit' 验证全部字段，通过后调用提交处理函数
+ * - 字段变化时，按字段依赖图（`dependsOn` 和跨字段规则声明的依赖）重新验证受影响且已验证/已失焦的字段
+ *
+ * @example
+ * ```typescript
+ * const form = createFormController({
+ *   password: { type: 'string', required: true, min: 8 },
+ *   confirmPassword: { type: 'string', validator: rules.matchField('password') },
+ *   username: { type: 'string', validator: checkUnique, trigger: 'blur' },
+ * }, {
+ *   onSubmit: data => api.register(data),
+ * })
+ *
+ * form.subscribe('username', state => render(state.errors))
+ * form.setValue('username', 'john')
+ * form.blur('username')
+ * await form.submit()
+ * ```
+ */
+export class FormController<T extends Record<string, any> = Record<string, any>> {
+  private schema: Schema
+  private validator: SchemaValidator<T>
+  private options: FormControllerOptions<T>
+
+  /** 初始值 */
+  private initialValues: Record<string, any>
+
+  /** 当前值 */
+  private values: Record<string, any>
+
+  /** 各字段的内部状态 */
+  private meta = new Map<string, FieldMeta>()
+
+  /** 字段依赖图 */
+  private graph: DependencyGraph
+
+  /** 按字段取消过期验证 */
+  private scope = new AbortScope()
+
+  /** 进行中的提交 */
+  private submitPromise?: Promise<SchemaValidationResult<T>>
+
+  private submitting = false
+  private submitCount = 0
+
+  private formListeners = new Set<FormStateListener<T>>()
+  private fieldListeners = new Map<string, Set<FieldStateListener>>()
+
+  /**
+   * 构造函数
+   * @param schema 表单 Schema
+   * @param options 控制器选项
+   */
+  constructor(schema: Schema, options: FormControllerOptions<T> = {}) {
+    this.schema = schema
+    this.options = options
+    this.validator = new SchemaValidator<T>(schema, options.validatorOptions)
+    this.initialValues = { ...options.initialValues }
+    this.values = { ...this.initialValues }
+    this.graph = new DependencyGraph(schema)
+  }
+
+  /**
+   * 获取当前表单值
+   */
+  getValues(): T {
+    return { ...this.values } as T
+  }
+
+  /**
+   * 获取字段值
+   * @param field 字段名
+   */
+  getValue<K extends keyof T & string>(field: K): T[K] {
+    return this.values[field]
+  }
+
+  /**
+   * 获取字段状态
+   * @param field 字段名
+   */
+  getFieldState<K extends keyof T & string>(field: K): FieldState<T[K]>
+  getFieldState(field: string): FieldState
+  getFieldState(field: string): FieldState {
+    const meta = this.getMeta(field)
+
+    return {
+      value: this.values[field],
+      touched: meta.touched,
+      dirty: !isEqual(this.values[field], this.initialValues[field]),
+      validating: meta.validating,
+      validated: meta.validated,
+      errors: meta.errors,
+      valid: meta.errors.length === 0,
+    }
+  }
+
+  /**
+   * 获取表单状态
+   */
+  getState(): FormState<T> {
+    const fields: Record<string, FieldState> = {}
+    const errors: ValidationError[] = []
+    const errorMap: Record<string, ValidationError[]> = {}
+
+    for (const field of this.fieldNames()) {
+      const state = this.getFieldState(field)
+      fields[field] = state
+
+      for (const error of state.errors) {
+        errors.push(error)
+        ;(errorMap[error.field] ??= []).push(error)
+      }
+    }
+
+    const states = Object.values(fields)
+
+    return {
+      values: this.getValues(),
+      fields,
+      errors,
+      errorMap,
+      valid: errors.length === 0,
+      dirty: states.some(state => state.dirty),
+      touched: states.some(state => state.touched),
+      validating: states.some(state => state.validating),
+      submitting: this.submitting,
+      submitCount: this.submitCount,
+    }
+  }
+
+  /**
+   * 设置字段值，并按 'change' 验证该字段及依赖它的字段
+   * @param field 字段名
+   * @param value 新值
+   * @param options 设置选项
+   * @returns 验证完成的 Promise（不验证时立即完成）
+   */
+  async setValue<K extends keyof T & string>(field: K, value: T[K], options: SetValueOptions = {}): Promise<void> {
+    this.values[field] = value
+    this.notify([field])
+
+    if (options.validate ?? true) {
+      await this.validateAffected(field, 'change')
+    }
+  }
+
+  /**
+   * 批量设置字段值
+   * @param values 新值（仅覆盖提供的字段）
+   * @param options 设置选项
+   * @returns 验证完成的 Promise（不验证时立即完成）
+   */
+  async setValues(values: Partial<T>, options: SetValueOptions = {}): Promise<void> {
+    const fields = Object.keys(values)
+    Object.assign(this.values, values)
+    this.notify(fields)
+
+    if (options.validate ?? true) {
+      await Promise.all(fields.map(field => this.validateAffected(field, 'change')))
+    }
+  }
+
+  /**
+   * 标记字段失焦，并按 'blur' 验证该字段
+   * @param field 字段名
+   * @returns 验证完成的 Promise
+   */
+  async blur<K extends keyof T & string>(field: K): Promise<void> {
+    this.getMeta(field).touched = true
+    this.notify([field])
+    await this.validateField(field, 'blur')
+  }
+
+  /**
+   * 验证单个字段
+   * 同一字段开始新的验证时，上一次尚未完成的验证会被取消，其结果不会写入状态
+   *
+   * @param field 字段名
+   * @param trigger 触发事件（只执行适用于该事件的规则）
+   * @returns 验证后的字段状态
+   */
+  async validateField(field: string, trigger: ValidationTrigger = 'change'): Promise<FieldState> {
+    if (!(field in this.schema)) {
+      return this.getFieldState(field)
+    }
+
+    const meta = this.getMeta(field)
+    const signal = this.scope.next(field)
+    meta.validating = true
+    this.notify([field])
+
+    try {
+      const result = await this.validator.validateFields(this.values, [field], {
+        locale: this.options.locale,
+        signal,
+        trigger,
+      })
+
+      // 被更新的验证或提交取代时丢弃结果
+      if (signal.aborted) {
+        return this.getFieldState(field)
+      }
+
+      meta.errors = result.errors
+      meta.validated = true
+    }
+    finally {
+      if (!signal.aborted) {
+        meta.validating = false
+        this.scope.release(field, signal)
+        this.notify([field])
+      }
+    }
+
+    return this.getFieldState(field)
+  }
+
+  /**
+   * 验证字段，并重新验证受它影响（依赖图中直接或间接依赖它）且已验证或已失焦的字段
+   * setValue() 默认会调用它；以 `validate: false` 设置值后可以稍后手动调用（如防抖验证）
+   *
+   * @param field 字段名
+   * @param trigger 触发事件
+   * @returns 验证完成的 Promise
+   */
+  async validateAffected(field: string, trigger: ValidationTrigger = 'change'): Promise<void> {
+    const dependents = this.graph.affectedBy(field).filter((dependent) => {
+      const meta = this.meta.get(dependent)
+      return !!meta && (meta.validated || meta.touched)
+    })
+
+    await Promise.all([field, ...dependents].map(name => this.validateField(name, trigger)))
+  }
+
+  /**
+   * 按 'submit' 验证全部字段并更新字段状态（不调用提交处理函数）
+   * @returns 验证结果
+   */
+  async validate(): Promise<SchemaValidationResult<T>> {
+    // 全量验证取代所有进行中的字段验证
+    this.scope.abortAll()
+
+    const fields = this.fieldNames()
+    fields.forEach(field => this.getMeta(field).validating = true)
+    this.notify(fields)
+
+    const signal = this.scope.next(SUBMIT_KEY)
+
+    try {
+      const result = await this.validator.validate(this.values, {
+        locale: this.options.locale,
+        signal,
+        trigger: 'submit',
+      })
+
+      if (!signal.aborted) {
+        for (const field of fields) {
+          const meta = this.getMeta(field)
+          meta.errors = result.errors.filter(error => rootField(error.field) === field)
+          meta.validated = true
+        }
+      }
+
+      return result
+    }
+    finally {
+      if (!signal.aborted) {
+        fields.forEach(field => this.getMeta(field).validating = false)
+        this.scope.release(SUBMIT_KEY, signal)
+        this.notify(fields)
+      }
+    }
+  }
+
+  /**
+   * 提交表单
+   * 标记全部字段为 touched，取消进行中的字段验证并验证全部字段，通过后调用提交处理函数；
+   * 提交进行中再次调用时返回同一个 Promise
+   *
+   * @param onSubmit 提交处理函数（默认使用选项中的 onSubmit）
+   * @returns 验证结果
+   */
+  submit(onSubmit?: SubmitHandler<T>): Promise<SchemaValidationResult<T>> {
+    if (!this.submitPromise) {
+      this.submitPromise = this.runSubmit(onSubmit ?? this.options.onSubmit).finally(() => {
+        this.submitPromise = undefined
+      })
+    }
+
+    return this.submitPromise
+  }
+
+  /**
+   * 重置表单
+   * 取消所有进行中的验证，清除字段状态，并恢复到初始值
+   *
+   * @param values 新的初始值（不提供则使用原初始值）
+   */
+  reset(values?: Partial<T>): void {
+    this.scope.abortAll()
+
+    if (values) {
+      this.initialValues = { ...values }
+    }
+
+    this.values = { ...this.initialValues }
+    this.meta.clear()
+    this.submitting = false
+    this.submitCount = 0
+    this.notify(this.fieldNames())
+  }
+
+  /**
+   * 订阅表单状态变化
+   * @param listener 监听器
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: FormStateListener<T>): () => void
+  /**
+   * 订阅字段状态变化
+   * @param field 字段名
+   * @param listener 监听器
+   * @returns 取消订阅函数
+   */
+  subscribe<K extends keyof T & string>(field: K, listener: FieldStateListener<T[K]>): () => void
+  subscribe(fieldOrListener: string | FormStateListener<T>, listener?: FieldStateListener): () => void {
+    if (typeof fieldOrListener === 'function') {
+      this.formListeners.add(fieldOrListener)
+      return () => {
+        this.formListeners.delete(fieldOrListener)
+      }
+    }
+
+    const listeners = this.fieldListeners.get(fieldOrListener) ?? new Set()
+    listeners.add(listener!)
+    this.fieldListeners.set(fieldOrListener, listeners)
+
+    return () => {
+      listeners.delete(listener!)
+    }
+  }
+
+  /**
+   * 执行提交
+   */
+  private async runSubmit(onSubmit?: SubmitHandler<T>): Promise<SchemaValidationResult<T>> {
+    this.submitting = true
+    this.submitCount++
+    this.fieldNames().forEach(field => this.getMeta(field).touched = true)
+
+    try {
+      const result = await this.validate()
+
+      if (result.valid && onSubmit) {
+        await onSubmit(result.data as T)
+      }
+
+      return result
+    }
+    finally {
+      this.submitting = false
+      this.notify([])
+    }
+  }
+
+  /**
+   * 获取（必要时创建）字段的内部状态
+   */
+  private getMeta(field: string): FieldMeta {
+    let meta = this.meta.get(field)
+    if (!meta) {
+      meta = { touched: false, validating: false, validated: false, errors: [] }
+      this.meta.set(field, meta)
+    }
+    return meta
+  }
+
+  /**
+   * 所有字段名（Schema 字段和已有值的字段）
+   */
+  private fieldNames(): string[] {
+    return Array.from(new Set([...Object.keys(this.schema), ...Object.keys(this.values)]))
+  }
+
+  /**
+   * 通知字段和表单监听器
+   * @param fields 状态发生变化的字段
+   */
+  private notify(fields: string[]): void {
+    for (const field of fields) {
+      const listeners = this.fieldListeners.get(field)
+      if (listeners?.size) {
+        const state = this.getFieldState(field)
+        listeners.forEach(listener => listener(state))
+      }
+    }
+
+    if (this.formListeners.size) {
+      const state = this.getState()
+      this.formListeners.forEach(listener => listener(state))
+    }
+  }
+}
+
+/**
+ * 创建表单控制器
+ * @param schema 表单 Schema
+ * @param options 控制器选项
+ * @returns FormController 实例（值类型由 Schema 推导）
+ *
+ * @example
+ * ```typescript
+ * const form = createFormController({
+ *   email: { type: 'email', required: true },
+ * }, { initialValues: { email: '' } })
+ * ```
+ */
+export function createFormController<const S extends Schema>(
+  schema: S,
+  options?: FormControllerOptions<Infer<S>>,
+): FormController<Infer<S>> {
+  return new FormController<Infer<S>>(schema, options)
+}
@@ -0,0 +1,14 @@
+/**
+ * 表单状态导出
+ */
+
+export { createFormController, FormController } from './FormController'
+export type {
+  FieldState,
+  FieldStateListener,
+  FormControllerOptions,
+  FormState,
+  FormStateListener,
+  SetValueOptions,
+  SubmitHandler,
+} from './FormController'
@@ -0,0 +1,444 @@
+/**
+ * 验证消息目录
+ * 按错误代码（code）管理多语言验证消息，支持参数插值、运行时切换语言、
+ * 覆盖/扩展消息以及与 @ldesign/i18n 实例对接
+ */
+
+import type { ValidationContext } from '../types'
+import { builtInLocales } from './locales'
+
+/**
+ * 消息插值参数
+ */
+export type MessageParams = Record<string, any>
+
+/**
+ * 消息模板
+ * 字符串模板使用 `{name}` 占位符，也可以是接收参数的函数（适合复数等复杂场景）
+ */
+export type MessageTemplate = string | ((params: MessageParams) => string)
+
+/**
+ * 单个语言的消息表（按错误代码索引）
+ */
+export type LocaleMessages = Record<string, MessageTemplate>
+
+/**
+ * 语言切换监听器
+ */
+export type LocaleChangeListener = (locale: string, previous: string) => void
+
+/**
+ * 消息目录配置选项
+ */
+export interface MessageCatalogOptions {
+  /**
+   * 当前语言
+   * @default 'zh-CN'
+   */
+  locale?: string
+
+  /**
+   * 回退语言（当前语言缺失消息时使用）
+   * @default 'zh-CN'
+   */
+  fallbackLocale?: string
+
+  /**
+   * 额外的消息表，会合并到内置消息之上
+   */
+  messages?: Record<string, LocaleMessages>
+
+  /**
+   * 是否加载内置语言包
+   * @default true
+   */
+  builtIn?: boolean
+}
+
+/**
+ * 对接 @ldesign/i18n 实例所需的最小接口
+ * 只依赖结构，不直接引用 @ldesign/i18n 的类型
+ */
+export interface I18nInstance {
+  /**
+   * 当前语言
+   */
+  locale?: string
+
+  /**
+   * 获取当前语言
+   */
+  getLocale?: () => string
+
+  /**
+   * 翻译函数
+   */
+  t?: (key: string, params?: Record<string, any>) => string
+
+  /**
+   * 检查翻译键是否存在
+   */
+  exists?: (key: string) => boolean
+
+  /**
+   * 订阅事件，可返回取消订阅函数
+   */
+  on?: (event: string, handler: (...args: any[]) => void) => (() => void) | void
+
+  /**
+   * 取消订阅事件
+   */
+  off?: (event: string, handler: (...args: any[]) => void) => void
+}
+
+/**
+ * 对接 @ldesign/i18n 的选项
+ */
+export interface I18nConnectOptions {
+  /**
+   * 验证消息在 i18n 资源中的命名空间
+   * 例如命名空间为 'validator' 时，INVALID_EMAIL 对应 'validator.INVALID_EMAIL'
+   * @default 'validator'
+   */
+  namespace?: string
+
+  /**
+   * 语言切换事件名
+   * @default 'localeChanged'
+   */
+  event?: string
+}
+
+/**
+ * 验证消息目录类
+ *
+ * @example
+ * ```typescript
+ * const catalog = new MessageCatalog({ locale: 'en-US' })
+ *
+ * catalog.translate('MIN_LENGTH', { min: 8 }) // 'Must be at least 8 characters'
+ *
+ * // 覆盖或扩展消息
+ * catalog.addMessages('en-US', { INVALID_PHONE: 'Please enter a mobile number' })
+ *
+ * // 运行时切换语言
+ * catalog.setLocale('ja-JP')
+ * ```
+ */
+export class MessageCatalog {
+  /** 各语言消息表 */
+  private messages = new Map<string, LocaleMessages>()
+
+  /** 当前语言 */
+  private locale: string
+
+  /** 回退语言 */
+  private fallbackLocale: string
+
+  /** 语言切换监听器 */
+  private listeners = new Set<LocaleChangeListener>()
+
+  /** 已对接的外部 i18n 实例 */
+  private external?: { i18n: I18nInstance, namespace: string }
+
+  /**
+   * 构造函数
+   * @param options 消息目录配置选项
+   */
+  constructor(options: MessageCatalogOptions = {}) {
+    this.locale = options.locale ?? 'zh-CN'
+    this.fallbackLocale = options.fallbackLocale ?? 'zh-CN'
+
+    if (options.builtIn ?? true) {
+      for (const [locale, messages] of Object.entries(builtInLocales)) {
+        this.messages.set(locale, { ...messages })
+      }
+    }
+
+    if (options.messages) {
+      for (const [locale, messages] of Object.entries(options.messages)) {
+        this.addMessages(locale, messages)
+      }
+    }
+  }
+
+  /**
+   * 获取当前语言
+   */
+  getLocale(): string {
+    return this.locale
+  }
+
+  /**
+   * 切换当前语言
+   * @param locale 语言代码（如 'en-US'）
+   */
+  setLocale(locale: string): void {
+    if (locale === this.locale) {
+      return
+    }
+
+    const previous = this.locale
+    this.locale = locale
+    this.listeners.forEach(listener => listener(locale, previous))
+  }
+
+  /**
+   * 获取已注册的语言列表
+   */
+  getLocales(): string[] {
+    return Array.from(this.messages.keys())
+  }
+
+  /**
+   * 合并消息（覆盖同名代码，扩展新代码）
+   * @param locale 语言代码
+   * @param messages 消息表
+   */
+  addMessages(locale: string, messages: LocaleMessages): void {
+    this.messages.set(locale, { ...this.messages.get(locale), ...messages })
+  }
+
+  /**
+   * 整体替换某个语言的消息表
+   * @param locale 语言代码
+   * @param messages 消息表
+   */
+  setMessages(locale: string, messages: LocaleMessages): void {
+    this.messages.set(locale, { ...messages })
+  }
+
+  /**
+   * 检查指定代码是否有消息
+   * @param code 错误代码
+   * @param locale 语言代码（默认为当前语言）
+   */
+  has(code: string, locale = this.locale): boolean {
+    return this.resolveTemplate(code, locale) !== undefined
+  }
+
+  /**
+   * 翻译错误代码
+   * 查找顺序：外部 i18n 实例 → 指定语言 → 同语种语言 → 回退语言
+   *
+   * @param code 错误代码
+   * @param params 插值参数
+   * @param locale 语言代码（默认为当前语言）
+   * @returns 翻译后的消息，找不到时返回错误代码本身
+   */
+  translate(code: string, params: MessageParams = {}, locale = this.locale): string {
+    if (this.external && locale === this.locale) {
+      const { i18n, namespace } = this.external
+      const key = `${namespace}.${code}`
+      if (i18n.t && i18n.exists?.(key)) {
+        return i18n.t(key, this.withDefaultLabel(params, locale))
+      }
+    }
+
+    const template = this.resolveTemplate(code, locale)
+    if (template === undefined) {
+      return code
+    }
+
+    return this.interpolate(template, this.withDefaultLabel(params, locale))
+  }
+
+  /**
+   * 订阅语言切换
+   * @param listener 监听器
+   * @returns 取消订阅函数
+   */
+  onLocaleChange(listener: LocaleChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * 对接 @ldesign/i18n 实例
+   * 同步当前语言、订阅语言切换事件，并优先使用 i18n 资源中的验证消息
+   *
+   * @param i18n i18n 实例
+   * @param options 对接选项
+   * @returns 断开对接的函数
+   *
+   * @example
+   * ```typescript
+   * import { createI18n } from '@ldesign/i18n'
+   *
+   * const i18n = createI18n({ locale: 'en-US' })
+   * const disconnect = getGlobalCatalog().connect(i18n)
+   * ```
+   */
+  connect(i18n: I18nInstance, options: I18nConnectOptions = {}): () => void {
+    const namespace = options.namespace ?? 'validator'
+    const event = options.event ?? 'localeChanged'
+
+    this.external = { i18n, namespace }
+
+    const current = i18n.getLocale?.() ?? i18n.locale
+    if (current) {
+      this.setLocale(current)
+    }
+
+    const handler = (payload?: any) => {
+      const next = typeof payload === 'string'
+        ? payload
+        : payload?.locale ?? i18n.getLocale?.() ?? i18n.locale
+      if (next) {
+        this.setLocale(next)
+      }
+    }
+
+    const unsubscribe = i18n.on?.(event, handler)
+
+    return () => {
+      if (typeof unsubscribe === 'function') {
+        unsubscribe()
+      }
+      else {
+        i18n.off?.(event, handler)
+      }
+      if (this.external?.i18n === i18n) {
+        this.external = undefined
+      }
+    }
+  }
+
+  /**
+   * 查找消息模板
+   */
+  private resolveTemplate(code: string, locale: string): MessageTemplate | undefined {
+    const exact = this.messages.get(locale)?.[code]
+    if (exact !== undefined) {
+      return exact
+    }
+
+    // 同语种匹配（如 'en' 或 'en-GB' 回退到 'en-US'）
+    const language = locale.split('-')[0]
+    for (const [name, messages] of this.messages) {
+      if (name !== locale && name.split('-')[0] === language && messages[code] !== undefined) {
+        return messages[code]
+      }
+    }
+
+    return this.messages.get(this.fallbackLocale)?.[code]
+  }
+
+  /**
+   * 未提供字段标签时使用默认标签（如“此字段”）
+   */
+  private withDefaultLabel(params: MessageParams, locale: string): MessageParams {
+    if (params.label !== undefined && params.label !== '') {
+      return params
+    }
+
+    const template = this.resolveTemplate('DEFAULT_LABEL', locale)
+    return {
+      ...params,
+      label: typeof template === 'function' ? template(params) : template ?? '',
+    }
+  }
+
+  /**
+   * 插值替换 `{name}` 占位符
+   */
+  private interpolate(template: MessageTemplate, params: MessageParams): string {
+    if (typeof template === 'function') {
+      return template(params)
+    }
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name]
+      if (value === undefined || value === null) {
+        return match
+      }
+      return Array.isArray(value) ? value.join(', ') : String(value)
+    })
+  }
+}
+
+/**
+ * 全局消息目录实例（单例）
+ */
+let globalCatalog: MessageCatalog | null = null
+
+/**
+ * 获取全局消息目录
+ * 所有内置规则、Validator、SchemaValidator 和 RuleComposer 都通过它解析消息
+ *
+ * @returns 全局消息目录实例
+ */
+export function getGlobalCatalog(): MessageCatalog {
+  if (!globalCatalog) {
+    globalCatalog = new MessageCatalog()
+  }
+  return globalCatalog
+}
+
+/**
+ * 设置自定义的全局消息目录
+ * @param catalog 消息目录实例
+ *
+ * @example
+ * ```typescript
+ * setGlobalCatalog(new MessageCatalog({ locale: 'de-DE', fallbackLocale: 'en-US' }))
+ * ```
+ */
+export function setGlobalCatalog(catalog: MessageCatalog): void {
+  globalCatalog = catalog
+}
+
+/**
+ * 通过全局消息目录翻译错误代码
+ * @param code 错误代码
+ * @param params 插值参数
+ * @param locale 语言代码（默认为当前语言）
+ * @returns 翻译后的消息
+ *
+ * @example
+ * ```typescript
+ * t('MIN_LENGTH', { min: 8 }) // '最小长度为 8 个字符'
+ * t('REQUIRED', { label: 'Email' }, 'en-US') // 'Email is required'
+ * ```
+ */
+export function t(code: string, params?: MessageParams, locale?: string): string {
+  return getGlobalCatalog().translate(code, params, locale)
+}
+
+/**
+ * 切换全局语言
+ * @param locale 语言代码
+ */
+export function setLocale(locale: string): void {
+  getGlobalCatalog().setLocale(locale)
+}
+
+/**
+ * 获取全局语言
+ */
+export function getLocale(): string {
+  return getGlobalCatalog().getLocale()
+}
+
+/**
+ * 创建延迟解析的消息函数
+ * 可直接作为 ValidationRule.message 使用，每次验证时按当前语言解析
+ *
+ * @param code 错误代码
+ * @param params 插值参数
+ * @returns 消息函数
+ *
+ * @example
+ * ```typescript
+ * validator.rule({ validator: rules.email, message: localized('INVALID_EMAIL') })
+ * ```
+ */
+export function localized(
+  code: string,
+  params?: MessageParams,
+): (value?: any, context?: ValidationContext) => string {
+  return (_value, context) => t(code, { label: context?.label, ...params }, context?.locale)
+}
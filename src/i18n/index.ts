@@ -0,0 +1,24 @@
+/**
+ * 国际化模块导出
+ */
+
+export { builtInLocales, deDE, enUS, jaJP, zhCN } from './locales'
+export {
+  getGlobalCatalog,
+  getLocale,
+  localized,
+  MessageCatalog,
+  setGlobalCatalog,
+  setLocale,
+  t,
+} from './MessageCatalog'
+
+export type {
+  I18nConnectOptions,
+  I18nInstance,
+  LocaleChangeListener,
+  LocaleMessages,
+  MessageCatalogOptions,
+  MessageParams,
+  MessageTemplate,
+} from './MessageCatalog'
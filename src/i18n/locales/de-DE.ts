@@ -0,0 +1,198 @@
+import type { LocaleMessages } from '../MessageCatalog'
+
+/**
+ * 德文验证消息
+ */
+export const deDE: LocaleMessages = {
+  // 通用
+  DEFAULT_LABEL: 'Dieses Feld',
+  VALIDATION_FAILED: 'Validierung fehlgeschlagen',
+  RULE_ERROR: 'Beim Ausführen der Validierungsregel ist ein Fehler aufgetreten',
+  ABORTED: 'Validierung wurde abgebrochen',
+  TIMEOUT: 'Zeitüberschreitung der Validierung nach {timeout} ms',
+  UNKNOWN_ERROR: 'Unbekannter Fehler',
+  LIST_SEPARATOR: ', ',
+
+  // 基础规则
+  REQUIRED: '{label} ist ein Pflichtfeld',
+  MIN_LENGTH: 'Mindestens {min} Zeichen erforderlich',
+  MAX_LENGTH: 'Höchstens {max} Zeichen erlaubt',
+  RANGE: 'Der Wert muss zwischen {min} und {max} liegen',
+  MIN: 'Der Wert darf nicht kleiner als {min} sein',
+  MAX: 'Der Wert darf nicht größer als {max} sein',
+  PATTERN: 'Ungültiges Format',
+  ONE_OF: 'Der Wert muss einer von {values} sein',
+  ENUM: 'Der Wert muss einer von {values} sein',
+  NOT_ARRAY: 'Muss ein Array sein',
+  ARRAY_MIN_LENGTH: 'Mindestens {min} Einträge erforderlich',
+  ARRAY_MAX_LENGTH: 'Höchstens {max} Einträge erlaubt',
+  TYPE_MISMATCH: 'Falscher Typ: erwartet {expected}, erhalten {actual}',
+  UNKNOWN_FIELD: 'Unbekanntes Feld: {field}',
+  ARRAY_ITEM_INVALID: 'Eintrag [{index}] ist ungültig: {message}',
+  ARRAY_NOT_UNIQUE: 'Das Array enthält einen doppelten Eintrag: {item}',
+  ARRAY_NOT_UNIQUE_AT: 'Das Array enthält doppelte Einträge (Index {first} und {second})',
+
+  // 格式规则
+  INVALID_EMAIL: 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+  EMAIL_TOO_LONG: 'Die E-Mail-Adresse ist zu lang (maximal {max} Zeichen)',
+  EMAIL_DOMAIN_NOT_ALLOWED: 'E-Mail-Adressen bei {domain} werden nicht unterstützt',
+  EMAIL_DOMAIN_DENIED: 'E-Mail-Adressen bei {domain} sind nicht erlaubt',
+  EMAIL_DISPOSABLE: 'Wegwerf-E-Mail-Adressen sind nicht erlaubt',
+  INVALID_URL: 'Bitte geben Sie eine gültige URL ein',
+  URL_TOO_LONG: 'Die URL ist zu lang (maximal {max} Zeichen)',
+  URL_PROTOCOL_NOT_ALLOWED: 'Das URL-Protokoll muss eines der folgenden sein: {protocols}',
+  URL_TLD_REQUIRED: 'Der Host der URL muss eine Top-Level-Domain enthalten',
+  URL_HOST_NOT_ALLOWED: 'Der Host {host} wird nicht unterstützt',
+  URL_HOST_DENIED: 'Der Host {host} ist nicht erlaubt',
+  URL_IP_NOT_ALLOWED: 'Die URL darf keine IP-Adresse verwenden',
+  URL_IP_DENIED: 'Die IP-Adresse {ip} der URL liegt in einem gesperrten Netz',
+  URL_LOCALHOST_NOT_ALLOWED: 'Die URL darf nicht auf localhost verweisen',
+  URL_PORT_NOT_ALLOWED: 'Der Port {port} ist nicht erlaubt',
+  URL_CREDENTIALS_NOT_ALLOWED: 'Die URL darf keinen Benutzernamen oder kein Passwort enthalten',
+  URL_PATH_INVALID: 'Der URL-Pfad ist ungültig',
+  URL_QUERY_NOT_ALLOWED: 'Die URL darf keine Abfrageparameter enthalten',
+  URL_FRAGMENT_NOT_ALLOWED: 'Die URL darf kein Fragment (#) enthalten',
+  INVALID_PHONE: 'Bitte geben Sie eine gültige Telefonnummer ein',
+  INVALID_PHONE_E164: 'Bitte geben Sie die Telefonnummer im E.164-Format ein (z. B. +4930123456)',
+  INVALID_PHONE_REGION: 'Die Telefonnummer muss aus einem dieser Länder stammen: {regions}',
+  INVALID_PHONE_TYPE: 'Bitte geben Sie eine gültige Nummer ein ({types})',
+  PHONE_TYPE_MOBILE: 'Mobilfunk',
+  PHONE_TYPE_FIXED: 'Festnetz',
+  INVALID_ID_CARD: 'Bitte geben Sie eine gültige Ausweisnummer ein',
+  INVALID_ID_CARD_CHECK: 'Die Prüfziffer der Ausweisnummer ist falsch',
+  INVALID_HKID: 'Bitte geben Sie eine gültige Hongkonger Ausweisnummer ein',
+  INVALID_TAIWAN_ID: 'Bitte geben Sie eine gültige taiwanische Ausweisnummer ein',
+  INVALID_SSN: 'Bitte geben Sie eine gültige US-Sozialversicherungsnummer ein',
+  INVALID_NINO: 'Bitte geben Sie eine gültige britische National Insurance Number ein',
+  INVALID_NRIC: 'Bitte geben Sie eine gültige singapurische NRIC/FIN ein',
+  INVALID_USCC: 'Bitte geben Sie einen gültigen einheitlichen Sozialkreditcode ein',
+  INVALID_USCC_CHECK: 'Die Prüfziffer des einheitlichen Sozialkreditcodes ist falsch',
+  INVALID_BANK_CARD: 'Bitte geben Sie eine gültige Bankkartennummer ein',
+  INVALID_BANK_CARD_CHECK: 'Prüfsumme der Bankkartennummer ungültig',
+  UNKNOWN_BANK_CARD_ISSUER: 'Karten dieser Bank werden nicht unterstützt',
+  INVALID_LICENSE_PLATE: 'Bitte geben Sie ein gültiges Kfz-Kennzeichen ein',
+  INVALID_PASSPORT: 'Bitte geben Sie eine gültige Reisepassnummer ein',
+  INVALID_HK_MACAU_PERMIT: 'Bitte geben Sie eine gültige Hongkong/Macau-Reisegenehmigungsnummer ein',
+  INVALID_IPV4: 'Bitte geben Sie eine gültige IPv4-Adresse ein',
+  INVALID_IPV6: 'Bitte geben Sie eine gültige IPv6-Adresse ein',
+  INVALID_IP: 'Bitte geben Sie eine gültige IP-Adresse ein',
+  INVALID_CIDR: 'Bitte geben Sie einen gültigen CIDR-Block ein',
+  CIDR_HOST_BITS_SET: 'Im CIDR-Block sind Host-Bits gesetzt, meinten Sie {network}?',
+  INVALID_IP_RANGE: 'Bitte geben Sie einen gültigen IP-Adressbereich ein',
+  IP_NOT_ALLOWED: 'Die IP-Adresse {ip} ist nicht erlaubt',
+  IP_DENIED: 'Die IP-Adresse {ip} liegt in einem gesperrten Netz',
+  CIDR_OVERLAP: 'Die CIDR-Blöcke {first} und {second} überschneiden sich',
+  NOT_NUMERIC: 'Bitte geben Sie eine gültige Zahl ein',
+  NOT_INTEGER: 'Bitte geben Sie eine ganze Zahl ein',
+  NOT_ALPHA: 'Nur Buchstaben sind erlaubt',
+  NOT_ALPHANUMERIC: 'Nur Buchstaben und Ziffern sind erlaubt',
+  NOT_LOWERCASE: 'Nur Kleinbuchstaben sind erlaubt',
+  NOT_UPPERCASE: 'Nur Großbuchstaben sind erlaubt',
+  INVALID_DATE: 'Bitte geben Sie ein gültiges Datum ein',
+  INVALID_JSON: 'Bitte geben Sie gültiges JSON ein',
+  INVALID_CREDIT_CARD: 'Bitte geben Sie eine gültige Kreditkartennummer ein',
+  INVALID_CREDIT_CARD_CHECK: 'Die Prüfsumme der Kreditkartennummer ist ungültig',
+  INVALID_POSTAL_CODE: 'Bitte geben Sie eine gültige Postleitzahl ein',
+  POSTAL_CODE_COUNTRY_UNSUPPORTED: 'Postleitzahlen für {country} werden nicht unterstützt',
+  WEAK_PASSWORD: 'Das Passwort muss Folgendes enthalten: {missing}',
+  PASSWORD_MIN_LENGTH: 'mindestens {min} Zeichen',
+  PASSWORD_LOWERCASE: 'einen Kleinbuchstaben',
+  PASSWORD_UPPERCASE: 'einen Großbuchstaben',
+  PASSWORD_NUMBER: 'eine Ziffer',
+  PASSWORD_SPECIAL: 'ein Sonderzeichen',
+  PASSWORD_CLASSES: 'mindestens {count} Zeichenarten',
+  PASSWORD_MAX_LENGTH: 'Das Passwort darf höchstens {max} Zeichen lang sein',
+  PASSWORD_REPEATED: 'Ein Zeichen darf nicht mehr als {max}-mal hintereinander vorkommen',
+  PASSWORD_SEQUENCE: 'Das Passwort darf keine Zeichenfolgen mit mehr als {max} Zeichen enthalten',
+  PASSWORD_KEYBOARD_PATTERN: 'Das Passwort darf keine Tastaturmuster enthalten',
+  PASSWORD_DICTIONARY_WORD: 'Das Passwort darf keine gängigen Wörter enthalten',
+  PASSWORD_SIMILAR_TO_USER: 'Das Passwort darf dem Benutzernamen oder der E-Mail-Adresse nicht ähneln',
+  PASSWORD_LOW_ENTROPY: 'Das Passwort ist zu schwach',
+  PASSWORD_BREACHED: 'Dieses Passwort ist in einem Datenleck aufgetaucht, bitte wählen Sie ein anderes',
+  NOT_EQUAL: 'Die Eingaben stimmen nicht überein',
+  INVALID_UUID: 'Bitte geben Sie eine gültige UUID ein',
+  INVALID_MAC: 'Bitte geben Sie eine gültige MAC-Adresse ein',
+  INVALID_PORT: 'Der Port muss zwischen 1 und 65535 liegen',
+  INVALID_MD5: 'Bitte geben Sie einen gültigen MD5-Hash ein',
+  INVALID_SHA1: 'Bitte geben Sie einen gültigen SHA1-Hash ein',
+  INVALID_SHA256: 'Bitte geben Sie einen gültigen SHA256-Hash ein',
+  INVALID_SHA512: 'Bitte geben Sie einen gültigen SHA512-Hash ein',
+  NOT_HEX: 'Nur hexadezimale Zeichen (0-9, A-F) sind erlaubt',
+  INVALID_HEX_COLOR: 'Bitte geben Sie einen gültigen Hex-Farbwert ein',
+  INVALID_BASE64: 'Bitte geben Sie eine gültige Base64-Zeichenkette ein',
+  INVALID_JWT: 'Bitte geben Sie ein gültiges JWT ein',
+  INVALID_IBAN: 'Bitte geben Sie eine gültige IBAN ein',
+  INVALID_IBAN_CHECK: 'Die Prüfsumme der IBAN ist ungültig',
+  INVALID_ISBN: 'Bitte geben Sie eine gültige ISBN ein',
+  INVALID_ISBN_CHECK: 'Die Prüfsumme der {variant} ist ungültig',
+  INVALID_ISBN_LENGTH: 'Die ISBN muss 10 oder 13 Stellen haben',
+  INVALID_ISSN: 'Bitte geben Sie eine gültige ISSN ein',
+  INVALID_ISSN_CHECK: 'Die Prüfsumme der ISSN ist ungültig',
+  INVALID_ISSN_LENGTH: 'Die ISSN muss 8 Stellen haben',
+  INVALID_DOMAIN: 'Bitte geben Sie einen gültigen Domainnamen ein',
+  INVALID_SLUG: 'Ungültiger Slug (nur Kleinbuchstaben, Ziffern und Bindestriche)',
+  INVALID_SEMVER: 'Bitte geben Sie eine gültige semantische Version ein (z. B. 1.0.0)',
+  INVALID_MONGO_ID: 'Bitte geben Sie eine gültige MongoDB ObjectId ein',
+  INVALID_LATITUDE: 'Der Breitengrad muss zwischen -90 und 90 liegen',
+  INVALID_LONGITUDE: 'Der Längengrad muss zwischen -180 und 180 liegen',
+  INVALID_FILE_EXTENSION: 'Die Dateiendung muss eine von {extensions} sein',
+  INVALID_MIME_TYPE: 'Der MIME-Typ muss einer von {types} sein',
+  INVALID_LANGUAGE_CODE: 'Bitte geben Sie einen gültigen Sprachcode ein (z. B. en, zh, en-US)',
+  INVALID_COUNTRY_CODE: 'Bitte geben Sie einen gültigen Ländercode ein (zwei Großbuchstaben, z. B. CN, US)',
+  INVALID_CURRENCY_CODE: 'Bitte geben Sie einen gültigen Währungscode ein (drei Großbuchstaben, z. B. CNY, USD)',
+  INVALID_CRON: 'Ungültiger Cron-Ausdruck',
+  INVALID_CRON_SEGMENTS: 'Ein Cron-Ausdruck muss 5 oder 6 Felder haben',
+  INVALID_CRON_QUARTZ_SEGMENTS: 'Quartz-Cron-Ausdruck muss 6 oder 7 Felder haben',
+  INVALID_CRON_QUARTZ_DAY: 'Im Quartz-Cron-Ausdruck muss genau eines der Felder Tag und Wochentag ? sein',
+  INVALID_CRON_FIELD: 'Ungültiger Wert im Cron-Feld {position}: {token}',
+  INVALID_CRON_MACRO: 'Nicht unterstütztes Cron-Makro: {macro}',
+  CRON_NEVER_RUNS: 'Der Cron-Ausdruck wird nie ausgeführt',
+
+  // 字符串规则
+  EXACT_LENGTH: 'Genau {length} Zeichen erforderlich',
+  STARTS_WITH: 'Muss mit "{prefix}" beginnen',
+  ENDS_WITH: 'Muss mit "{suffix}" enden',
+  CONTAINS: 'Muss "{substring}" enthalten',
+  NOT_CONTAINS: 'Darf "{substring}" nicht enthalten',
+  TRIM: 'Darf keine führenden oder nachgestellten Leerzeichen enthalten',
+
+  // 类型规则
+  NOT_STRING: 'Muss eine Zeichenkette sein',
+  NOT_NUMBER: 'Muss eine Zahl sein',
+  NOT_BOOLEAN: 'Muss ein Wahrheitswert sein',
+  NOT_OBJECT: 'Muss ein Objekt sein',
+  NOT_NULL: 'Muss null sein',
+  NOT_UNDEFINED: 'Muss undefined sein',
+  NOT_FUNCTION: 'Muss eine Funktion sein',
+  NOT_SYMBOL: 'Muss ein Symbol sein',
+  NOT_DATE: 'Muss ein gültiges Date-Objekt sein',
+
+  // 高级规则
+  OR_ALL_FAILED: 'Alle Regeln sind fehlgeschlagen: {messages}',
+  ONE_OF_MULTIPLE: 'Muss genau eine Regel erfüllen, erfüllt aber {count}',
+  NOT: 'Der Wert darf diese Validierung nicht bestehen',
+  CUSTOM: 'Benutzerdefinierte Validierung fehlgeschlagen',
+
+  // 跨字段规则
+  FIELD_MISMATCH: 'Muss mit dem Wert von "{field}" übereinstimmen',
+  INVALID_TYPE: 'Muss eine Zahl oder ein Datum sein',
+  NOT_GREATER_THAN: 'Muss {operator} dem Wert von "{field}" sein',
+  NOT_LESS_THAN: 'Muss {operator} dem Wert von "{field}" sein',
+  DATE_NOT_AFTER: 'Das Datum muss nach "{field}" liegen',
+  DATE_NOT_BEFORE: 'Das Datum muss vor "{field}" liegen',
+  REQUIRED_IF: '{label} ist erforderlich, wenn "{field}" ausgefüllt ist',
+  FIELD_EXCLUDES: 'Darf nicht zusammen mit "{field}" angegeben werden',
+
+  // 预设
+  PRESET_EMAIL_REQUIRED: 'E-Mail ist ein Pflichtfeld',
+  PRESET_EMAIL_INVALID: 'Das E-Mail-Format ist ungültig',
+  PRESET_PASSWORD_REQUIRED: 'Passwort ist ein Pflichtfeld',
+  PRESET_PASSWORD_MIN_LENGTH: 'Das Passwort muss mindestens {min} Zeichen lang sein',
+  PRESET_USERNAME_REQUIRED: 'Benutzername ist ein Pflichtfeld',
+  PRESET_USERNAME_MIN_LENGTH: 'Der Benutzername muss mindestens {min} Zeichen lang sein',
+  PRESET_USERNAME_MAX_LENGTH: 'Der Benutzername darf höchstens {max} Zeichen lang sein',
+  PRESET_PHONE_REQUIRED: 'Telefonnummer ist ein Pflichtfeld',
+  PRESET_PHONE_INVALID: 'Das Telefonnummernformat ist ungültig',
+  PRESET_URL_REQUIRED: 'URL ist ein Pflichtfeld',
+  PRESET_URL_INVALID: 'Das URL-Format ist ungültig',
+}
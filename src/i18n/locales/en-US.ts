@@ -0,0 +1,198 @@
+import type { LocaleMessages } from '../MessageCatalog'
+
+/**
+ * 英文验证消息
+ */
+export const enUS: LocaleMessages = {
+  // 通用
+  DEFAULT_LABEL: 'This field',
+  VALIDATION_FAILED: 'Validation failed',
+  RULE_ERROR: 'An error occurred while running the validation rule',
+  ABORTED: 'Validation was cancelled',
+  TIMEOUT: 'Validation timed out after {timeout} ms',
+  UNKNOWN_ERROR: 'Unknown error',
+  LIST_SEPARATOR: ', ',
+
+  // 基础规则
+  REQUIRED: '{label} is required',
+  MIN_LENGTH: 'Must be at least {min} characters',
+  MAX_LENGTH: 'Must be at most {max} characters',
+  RANGE: 'Must be between {min} and {max}',
+  MIN: 'Must not be less than {min}',
+  MAX: 'Must not be greater than {max}',
+  PATTERN: 'Invalid format',
+  ONE_OF: 'Must be one of {values}',
+  ENUM: 'Must be one of {values}',
+  NOT_ARRAY: 'Must be an array',
+  ARRAY_MIN_LENGTH: 'Must contain at least {min} items',
+  ARRAY_MAX_LENGTH: 'Must contain at most {max} items',
+  TYPE_MISMATCH: 'Type mismatch: expected {expected}, received {actual}',
+  UNKNOWN_FIELD: 'Unknown field: {field}',
+  ARRAY_ITEM_INVALID: 'Item [{index}] is invalid: {message}',
+  ARRAY_NOT_UNIQUE: 'Array contains a duplicate item: {item}',
+  ARRAY_NOT_UNIQUE_AT: 'Array contains duplicate items (indices {first} and {second})',
+
+  // 格式规则
+  INVALID_EMAIL: 'Please enter a valid email address',
+  EMAIL_TOO_LONG: 'Email address is too long (maximum {max} characters)',
+  EMAIL_DOMAIN_NOT_ALLOWED: 'Email addresses at {domain} are not supported',
+  EMAIL_DOMAIN_DENIED: 'Email addresses at {domain} are not allowed',
+  EMAIL_DISPOSABLE: 'Disposable email addresses are not allowed',
+  INVALID_URL: 'Please enter a valid URL',
+  URL_TOO_LONG: 'URL is too long (maximum {max} characters)',
+  URL_PROTOCOL_NOT_ALLOWED: 'URL protocol must be one of: {protocols}',
+  URL_TLD_REQUIRED: 'URL host must include a top-level domain',
+  URL_HOST_NOT_ALLOWED: 'Host {host} is not supported',
+  URL_HOST_DENIED: 'Host {host} is not allowed',
+  URL_IP_NOT_ALLOWED: 'URL must not use an IP address',
+  URL_IP_DENIED: 'URL IP address {ip} is in a denied network',
+  URL_LOCALHOST_NOT_ALLOWED: 'URL must not point to localhost',
+  URL_PORT_NOT_ALLOWED: 'Port {port} is not allowed',
+  URL_CREDENTIALS_NOT_ALLOWED: 'URL must not contain a username or password',
+  URL_PATH_INVALID: 'URL path is invalid',
+  URL_QUERY_NOT_ALLOWED: 'URL must not contain a query string',
+  URL_FRAGMENT_NOT_ALLOWED: 'URL must not contain a fragment (#)',
+  INVALID_PHONE: 'Please enter a valid phone number',
+  INVALID_PHONE_E164: 'Please enter the phone number in E.164 format (e.g. +14155552671)',
+  INVALID_PHONE_REGION: 'Phone number must be from one of: {regions}',
+  INVALID_PHONE_TYPE: 'Please enter a valid {types} number',
+  PHONE_TYPE_MOBILE: 'mobile',
+  PHONE_TYPE_FIXED: 'landline',
+  INVALID_ID_CARD: 'Please enter a valid ID card number',
+  INVALID_ID_CARD_CHECK: 'The ID card number check digit is incorrect',
+  INVALID_HKID: 'Please enter a valid Hong Kong identity card number',
+  INVALID_TAIWAN_ID: 'Please enter a valid Taiwan ID number',
+  INVALID_SSN: 'Please enter a valid Social Security number',
+  INVALID_NINO: 'Please enter a valid National Insurance number',
+  INVALID_NRIC: 'Please enter a valid NRIC/FIN number',
+  INVALID_USCC: 'Please enter a valid Unified Social Credit Code',
+  INVALID_USCC_CHECK: 'Unified Social Credit Code check digit is incorrect',
+  INVALID_BANK_CARD: 'Please enter a valid bank card number',
+  INVALID_BANK_CARD_CHECK: 'Bank card number checksum failed',
+  UNKNOWN_BANK_CARD_ISSUER: 'Cards from this bank are not supported',
+  INVALID_LICENSE_PLATE: 'Please enter a valid license plate number',
+  INVALID_PASSPORT: 'Please enter a valid passport number',
+  INVALID_HK_MACAU_PERMIT: 'Please enter a valid Hong Kong/Macau travel permit number',
+  INVALID_IPV4: 'Please enter a valid IPv4 address',
+  INVALID_IPV6: 'Please enter a valid IPv6 address',
+  INVALID_IP: 'Please enter a valid IP address',
+  INVALID_CIDR: 'Please enter a valid CIDR block',
+  CIDR_HOST_BITS_SET: 'CIDR block has host bits set, did you mean {network}?',
+  INVALID_IP_RANGE: 'Please enter a valid IP address range',
+  IP_NOT_ALLOWED: 'IP address {ip} is not allowed',
+  IP_DENIED: 'IP address {ip} is in a denied network',
+  CIDR_OVERLAP: 'CIDR blocks {first} and {second} overlap',
+  NOT_NUMERIC: 'Please enter a valid number',
+  NOT_INTEGER: 'Please enter an integer',
+  NOT_ALPHA: 'Only letters are allowed',
+  NOT_ALPHANUMERIC: 'Only letters and digits are allowed',
+  NOT_LOWERCASE: 'Only lowercase letters are allowed',
+  NOT_UPPERCASE: 'Only uppercase letters are allowed',
+  INVALID_DATE: 'Please enter a valid date',
+  INVALID_JSON: 'Please enter valid JSON',
+  INVALID_CREDIT_CARD: 'Please enter a valid credit card number',
+  INVALID_CREDIT_CARD_CHECK: 'The credit card number failed the checksum',
+  INVALID_POSTAL_CODE: 'Please enter a valid postal code',
+  POSTAL_CODE_COUNTRY_UNSUPPORTED: 'Postal codes for {country} are not supported',
+  WEAK_PASSWORD: 'Password must contain: {missing}',
+  PASSWORD_MIN_LENGTH: 'at least {min} characters',
+  PASSWORD_LOWERCASE: 'a lowercase letter',
+  PASSWORD_UPPERCASE: 'an uppercase letter',
+  PASSWORD_NUMBER: 'a digit',
+  PASSWORD_SPECIAL: 'a special character',
+  PASSWORD_CLASSES: 'at least {count} character types',
+  PASSWORD_MAX_LENGTH: 'Password must be at most {max} characters',
+  PASSWORD_REPEATED: 'Password must not repeat a character more than {max} times in a row',
+  PASSWORD_SEQUENCE: 'Password must not contain sequences longer than {max} characters',
+  PASSWORD_KEYBOARD_PATTERN: 'Password must not contain keyboard patterns',
+  PASSWORD_DICTIONARY_WORD: 'Password must not contain common words',
+  PASSWORD_SIMILAR_TO_USER: 'Password must not be similar to your username or email',
+  PASSWORD_LOW_ENTROPY: 'Password is too weak',
+  PASSWORD_BREACHED: 'This password has appeared in a data breach, please choose another',
+  NOT_EQUAL: 'The values do not match',
+  INVALID_UUID: 'Please enter a valid UUID',
+  INVALID_MAC: 'Please enter a valid MAC address',
+  INVALID_PORT: 'Port must be between 1 and 65535',
+  INVALID_MD5: 'Please enter a valid MD5 hash',
+  INVALID_SHA1: 'Please enter a valid SHA1 hash',
+  INVALID_SHA256: 'Please enter a valid SHA256 hash',
+  INVALID_SHA512: 'Please enter a valid SHA512 hash',
+  NOT_HEX: 'Only hexadecimal characters (0-9, A-F) are allowed',
+  INVALID_HEX_COLOR: 'Please enter a valid hex color',
+  INVALID_BASE64: 'Please enter a valid Base64 string',
+  INVALID_JWT: 'Please enter a valid JWT',
+  INVALID_IBAN: 'Please enter a valid IBAN',
+  INVALID_IBAN_CHECK: 'The IBAN failed the checksum',
+  INVALID_ISBN: 'Please enter a valid ISBN',
+  INVALID_ISBN_CHECK: 'The {variant} failed the checksum',
+  INVALID_ISBN_LENGTH: 'ISBN must be 10 or 13 digits long',
+  INVALID_ISSN: 'Please enter a valid ISSN',
+  INVALID_ISSN_CHECK: 'The ISSN failed the checksum',
+  INVALID_ISSN_LENGTH: 'ISSN must be 8 characters long',
+  INVALID_DOMAIN: 'Please enter a valid domain name',
+  INVALID_SLUG: 'Invalid slug (only lowercase letters, digits and hyphens are allowed)',
+  INVALID_SEMVER: 'Please enter a valid semantic version (e.g. 1.0.0)',
+  INVALID_MONGO_ID: 'Please enter a valid MongoDB ObjectId',
+  INVALID_LATITUDE: 'Latitude must be between -90 and 90',
+  INVALID_LONGITUDE: 'Longitude must be between -180 and 180',
+  INVALID_FILE_EXTENSION: 'File extension must be one of {extensions}',
+  INVALID_MIME_TYPE: 'MIME type must be one of {types}',
+  INVALID_LANGUAGE_CODE: 'Please enter a valid language code (e.g. en, zh, en-US)',
+  INVALID_COUNTRY_CODE: 'Please enter a valid country code (two uppercase letters, e.g. CN, US)',
+  INVALID_CURRENCY_CODE: 'Please enter a valid currency code (three uppercase letters, e.g. CNY, USD)',
+  INVALID_CRON: 'Invalid cron expression',
+  INVALID_CRON_SEGMENTS: 'A cron expression must have 5 or 6 fields',
+  INVALID_CRON_QUARTZ_SEGMENTS: 'Quartz cron expression must have 6 or 7 fields',
+  INVALID_CRON_QUARTZ_DAY: 'Quartz cron expression must use ? in exactly one of the day-of-month and day-of-week fields',
+  INVALID_CRON_FIELD: 'Invalid value in cron field {position}: {token}',
+  INVALID_CRON_MACRO: 'Unsupported cron macro: {macro}',
+  CRON_NEVER_RUNS: 'Cron expression never runs',
+
+  // 字符串规则
+  EXACT_LENGTH: 'Must be exactly {length} characters',
+  STARTS_WITH: 'Must start with "{prefix}"',
+  ENDS_WITH: 'Must end with "{suffix}"',
+  CONTAINS: 'Must contain "{substring}"',
+  NOT_CONTAINS: 'Must not contain "{substring}"',
+  TRIM: 'Must not have leading or trailing whitespace',
+
+  // 类型规则
+  NOT_STRING: 'Must be a string',
+  NOT_NUMBER: 'Must be a number',
+  NOT_BOOLEAN: 'Must be a boolean',
+  NOT_OBJECT: 'Must be an object',
+  NOT_NULL: 'Must be null',
+  NOT_UNDEFINED: 'Must be undefined',
+  NOT_FUNCTION: 'Must be a function',
+  NOT_SYMBOL: 'Must be a Symbol',
+  NOT_DATE: 'Must be a valid Date object',
+
+  // 高级规则
+  OR_ALL_FAILED: 'All rules failed: {messages}',
+  ONE_OF_MULTIPLE: 'Must match exactly one rule, but matched {count}',
+  NOT: 'The value must not pass this validation',
+  CUSTOM: 'Custom validation failed',
+
+  // 跨字段规则
+  FIELD_MISMATCH: 'Must match the value of "{field}"',
+  INVALID_TYPE: 'Must be a number or a date',
+  NOT_GREATER_THAN: 'Must be {operator} the value of "{field}"',
+  NOT_LESS_THAN: 'Must be {operator} the value of "{field}"',
+  DATE_NOT_AFTER: 'Date must be after "{field}"',
+  DATE_NOT_BEFORE: 'Date must be before "{field}"',
+  REQUIRED_IF: '{label} is required when "{field}" has a value',
+  FIELD_EXCLUDES: 'Cannot be set together with "{field}"',
+
+  // 预设
+  PRESET_EMAIL_REQUIRED: 'Email is required',
+  PRESET_EMAIL_INVALID: 'Email format is invalid',
+  PRESET_PASSWORD_REQUIRED: 'Password is required',
+  PRESET_PASSWORD_MIN_LENGTH: 'Password must be at least {min} characters',
+  PRESET_USERNAME_REQUIRED: 'Username is required',
+  PRESET_USERNAME_MIN_LENGTH: 'Username must be at least {min} characters',
+  PRESET_USERNAME_MAX_LENGTH: 'Username must be at most {max} characters',
+  PRESET_PHONE_REQUIRED: 'Phone number is required',
+  PRESET_PHONE_INVALID: 'Phone number format is invalid',
+  PRESET_URL_REQUIRED: 'URL is required',
+  PRESET_URL_INVALID: 'URL format is invalid',
+}
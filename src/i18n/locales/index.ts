@@ -0,0 +1,21 @@
+/**
+ * 内置语言包导出
+ */
+
+import type { LocaleMessages } from '../MessageCatalog'
+import { deDE } from './de-DE'
+import { enUS } from './en-US'
+import { jaJP } from './ja-JP'
+import { zhCN } from './zh-CN'
+
+export { deDE, enUS, jaJP, zhCN }
+
+/**
+ * 内置语言包（按语言代码索引）
+ */
+export const builtInLocales: Record<string, LocaleMessages> = {
+  'zh-CN': zhCN,
+  'en-US': enUS,
+  'ja-JP': jaJP,
+  'de-DE': deDE,
+}
@@ -0,0 +1,198 @@
+import type { LocaleMessages } from '../MessageCatalog'
+
+/**
+ * 日文验证消息
+ */
+export const jaJP: LocaleMessages = {
+  // 通用
+  DEFAULT_LABEL: 'この項目',
+  VALIDATION_FAILED: '検証に失敗しました',
+  RULE_ERROR: '検証ルールの実行中にエラーが発生しました',
+  ABORTED: '検証がキャンセルされました',
+  TIMEOUT: '検証がタイムアウトしました（{timeout} ミリ秒）',
+  UNKNOWN_ERROR: '不明なエラー',
+  LIST_SEPARATOR: '、',
+
+  // 基础规则
+  REQUIRED: '{label}は必須です',
+  MIN_LENGTH: '{min} 文字以上で入力してください',
+  MAX_LENGTH: '{max} 文字以内で入力してください',
+  RANGE: '{min} から {max} の間で入力してください',
+  MIN: '{min} 以上の値を入力してください',
+  MAX: '{max} 以下の値を入力してください',
+  PATTERN: '形式が正しくありません',
+  ONE_OF: '{values} のいずれかを指定してください',
+  ENUM: '{values} のいずれかを指定してください',
+  NOT_ARRAY: '配列である必要があります',
+  ARRAY_MIN_LENGTH: '{min} 件以上の要素が必要です',
+  ARRAY_MAX_LENGTH: '要素は {max} 件以内にしてください',
+  TYPE_MISMATCH: '型が正しくありません（期待: {expected}、実際: {actual}）',
+  UNKNOWN_FIELD: '許可されていないフィールドです: {field}',
+  ARRAY_ITEM_INVALID: '要素 [{index}] が無効です: {message}',
+  ARRAY_NOT_UNIQUE: '配列に重複した要素があります: {item}',
+  ARRAY_NOT_UNIQUE_AT: '配列に重複した要素があります（インデックス {first} と {second}）',
+
+  // 格式规则
+  INVALID_EMAIL: '有効なメールアドレスを入力してください',
+  EMAIL_TOO_LONG: 'メールアドレスが長すぎます（最大 {max} 文字）',
+  EMAIL_DOMAIN_NOT_ALLOWED: '{domain} のメールアドレスはサポートされていません',
+  EMAIL_DOMAIN_DENIED: '{domain} のメールアドレスは使用できません',
+  EMAIL_DISPOSABLE: '使い捨てメールアドレスは使用できません',
+  INVALID_URL: '有効な URL を入力してください',
+  URL_TOO_LONG: 'URL が長すぎます（最大 {max} 文字）',
+  URL_PROTOCOL_NOT_ALLOWED: 'URL のプロトコルは次のいずれかである必要があります: {protocols}',
+  URL_TLD_REQUIRED: 'URL のホストにはトップレベルドメインが必要です',
+  URL_HOST_NOT_ALLOWED: 'ホスト {host} はサポートされていません',
+  URL_HOST_DENIED: 'ホスト {host} は使用できません',
+  URL_IP_NOT_ALLOWED: 'URL に IP アドレスは使用できません',
+  URL_IP_DENIED: 'URL の IP アドレス {ip} は禁止されたネットワークに含まれています',
+  URL_LOCALHOST_NOT_ALLOWED: 'URL にローカルホストは指定できません',
+  URL_PORT_NOT_ALLOWED: 'ポート {port} は使用できません',
+  URL_CREDENTIALS_NOT_ALLOWED: 'URL にユーザー名やパスワードを含めることはできません',
+  URL_PATH_INVALID: 'URL のパスが正しくありません',
+  URL_QUERY_NOT_ALLOWED: 'URL にクエリ文字列を含めることはできません',
+  URL_FRAGMENT_NOT_ALLOWED: 'URL にフラグメント（#）を含めることはできません',
+  INVALID_PHONE: '有効な電話番号を入力してください',
+  INVALID_PHONE_E164: 'E.164 形式で電話番号を入力してください（例: +819012345678）',
+  INVALID_PHONE_REGION: '電話番号は次の国または地域のものである必要があります：{regions}',
+  INVALID_PHONE_TYPE: '有効な{types}番号を入力してください',
+  PHONE_TYPE_MOBILE: '携帯電話',
+  PHONE_TYPE_FIXED: '固定電話',
+  INVALID_ID_CARD: '有効な身分証番号を入力してください',
+  INVALID_ID_CARD_CHECK: '身分証番号のチェックディジットが正しくありません',
+  INVALID_HKID: '有効な香港身分証番号を入力してください',
+  INVALID_TAIWAN_ID: '有効な台湾身分証番号を入力してください',
+  INVALID_SSN: '有効な米国社会保障番号を入力してください',
+  INVALID_NINO: '有効な英国国民保険番号を入力してください',
+  INVALID_NRIC: '有効なシンガポール NRIC/FIN を入力してください',
+  INVALID_USCC: '有効な統一社会信用コードを入力してください',
+  INVALID_USCC_CHECK: '統一社会信用コードのチェックディジットが正しくありません',
+  INVALID_BANK_CARD: '有効な銀行カード番号を入力してください',
+  INVALID_BANK_CARD_CHECK: '銀行カード番号のチェックに失敗しました',
+  UNKNOWN_BANK_CARD_ISSUER: 'この銀行のカードには対応していません',
+  INVALID_LICENSE_PLATE: '有効なナンバープレートを入力してください',
+  INVALID_PASSPORT: '有効なパスポート番号を入力してください',
+  INVALID_HK_MACAU_PERMIT: '有効な香港・マカオ通行証番号を入力してください',
+  INVALID_IPV4: '有効な IPv4 アドレスを入力してください',
+  INVALID_IPV6: '有効な IPv6 アドレスを入力してください',
+  INVALID_IP: '有効な IP アドレスを入力してください',
+  INVALID_CIDR: '有効な CIDR ブロックを入力してください',
+  CIDR_HOST_BITS_SET: 'CIDR ブロックにホストビットが含まれています（{network} ではありませんか）',
+  INVALID_IP_RANGE: '有効な IP アドレス範囲を入力してください',
+  IP_NOT_ALLOWED: 'IP アドレス {ip} は使用できません',
+  IP_DENIED: 'IP アドレス {ip} は禁止されたネットワークに含まれています',
+  CIDR_OVERLAP: 'CIDR ブロック {first} と {second} が重複しています',
+  NOT_NUMERIC: '有効な数値を入力してください',
+  NOT_INTEGER: '整数を入力してください',
+  NOT_ALPHA: '英字のみ使用できます',
+  NOT_ALPHANUMERIC: '英数字のみ使用できます',
+  NOT_LOWERCASE: '英小文字のみ使用できます',
+  NOT_UPPERCASE: '英大文字のみ使用できます',
+  INVALID_DATE: '有効な日付を入力してください',
+  INVALID_JSON: '有効な JSON を入力してください',
+  INVALID_CREDIT_CARD: '有効なクレジットカード番号を入力してください',
+  INVALID_CREDIT_CARD_CHECK: 'クレジットカード番号のチェックに失敗しました',
+  INVALID_POSTAL_CODE: '有効な郵便番号を入力してください',
+  POSTAL_CODE_COUNTRY_UNSUPPORTED: '{country} の郵便番号には対応していません',
+  WEAK_PASSWORD: 'パスワードには次を含める必要があります: {missing}',
+  PASSWORD_MIN_LENGTH: '{min} 文字以上',
+  PASSWORD_LOWERCASE: '英小文字',
+  PASSWORD_UPPERCASE: '英大文字',
+  PASSWORD_NUMBER: '数字',
+  PASSWORD_SPECIAL: '記号',
+  PASSWORD_CLASSES: '{count} 種類以上の文字',
+  PASSWORD_MAX_LENGTH: 'パスワードは {max} 文字以内で入力してください',
+  PASSWORD_REPEATED: '同じ文字を {max} 回を超えて連続させることはできません',
+  PASSWORD_SEQUENCE: '{max} 文字を超える連続した文字列は使用できません',
+  PASSWORD_KEYBOARD_PATTERN: 'キーボードの並びはパスワードに使用できません',
+  PASSWORD_DICTIONARY_WORD: 'よく使われる単語はパスワードに使用できません',
+  PASSWORD_SIMILAR_TO_USER: 'ユーザー名やメールアドレスに似たパスワードは使用できません',
+  PASSWORD_LOW_ENTROPY: 'パスワードの強度が不足しています',
+  PASSWORD_BREACHED: 'このパスワードは漏洩したパスワードに含まれています。別のパスワードを設定してください',
+  NOT_EQUAL: '入力内容が一致しません',
+  INVALID_UUID: '有効な UUID を入力してください',
+  INVALID_MAC: '有効な MAC アドレスを入力してください',
+  INVALID_PORT: 'ポート番号は 1 から 65535 の間で指定してください',
+  INVALID_MD5: '有効な MD5 ハッシュを入力してください',
+  INVALID_SHA1: '有効な SHA1 ハッシュを入力してください',
+  INVALID_SHA256: '有効な SHA256 ハッシュを入力してください',
+  INVALID_SHA512: '有効な SHA512 ハッシュを入力してください',
+  NOT_HEX: '16 進数の文字（0-9, A-F）のみ使用できます',
+  INVALID_HEX_COLOR: '有効な 16 進カラーコードを入力してください',
+  INVALID_BASE64: '有効な Base64 文字列を入力してください',
+  INVALID_JWT: '有効な JWT を入力してください',
+  INVALID_IBAN: '有効な IBAN を入力してください',
+  INVALID_IBAN_CHECK: 'IBAN のチェックに失敗しました',
+  INVALID_ISBN: '有効な ISBN を入力してください',
+  INVALID_ISBN_CHECK: '{variant} のチェックに失敗しました',
+  INVALID_ISBN_LENGTH: 'ISBN は 10 桁または 13 桁である必要があります',
+  INVALID_ISSN: '有効な ISSN を入力してください',
+  INVALID_ISSN_CHECK: 'ISSN のチェックに失敗しました',
+  INVALID_ISSN_LENGTH: 'ISSN は 8 桁である必要があります',
+  INVALID_DOMAIN: '有効なドメイン名を入力してください',
+  INVALID_SLUG: 'スラッグの形式が正しくありません（英小文字、数字、ハイフンのみ）',
+  INVALID_SEMVER: '有効なセマンティックバージョンを入力してください（例: 1.0.0）',
+  INVALID_MONGO_ID: '有効な MongoDB ObjectId を入力してください',
+  INVALID_LATITUDE: '緯度は -90 から 90 の間で指定してください',
+  INVALID_LONGITUDE: '経度は -180 から 180 の間で指定してください',
+  INVALID_FILE_EXTENSION: 'ファイル拡張子は {extensions} のいずれかである必要があります',
+  INVALID_MIME_TYPE: 'MIME タイプは {types} のいずれかである必要があります',
+  INVALID_LANGUAGE_CODE: '有効な言語コードを入力してください（例: en, zh, en-US）',
+  INVALID_COUNTRY_CODE: '有効な国コードを入力してください（英大文字 2 文字、例: CN, US）',
+  INVALID_CURRENCY_CODE: '有効な通貨コードを入力してください（英大文字 3 文字、例: CNY, USD）',
+  INVALID_CRON: 'Cron 式の形式が正しくありません',
+  INVALID_CRON_SEGMENTS: 'Cron 式は 5 または 6 フィールドである必要があります',
+  INVALID_CRON_QUARTZ_SEGMENTS: 'Quartz Cron 式は 6 つまたは 7 つのフィールドが必要です',
+  INVALID_CRON_QUARTZ_DAY: 'Quartz Cron 式では日と曜日のどちらか一方だけを ? にする必要があります',
+  INVALID_CRON_FIELD: 'Cron 式の {position} 番目のフィールドが無効です：{token}',
+  INVALID_CRON_MACRO: 'サポートされていない Cron マクロです：{macro}',
+  CRON_NEVER_RUNS: 'この Cron 式は実行されることがありません',
+
+  // 字符串规则
+  EXACT_LENGTH: '{length} 文字で入力してください',
+  STARTS_WITH: '"{prefix}" で始まる必要があります',
+  ENDS_WITH: '"{suffix}" で終わる必要があります',
+  CONTAINS: '"{substring}" を含める必要があります',
+  NOT_CONTAINS: '"{substring}" を含めることはできません',
+  TRIM: '先頭または末尾に空白を含めることはできません',
+
+  // 类型规则
+  NOT_STRING: '文字列である必要があります',
+  NOT_NUMBER: '数値である必要があります',
+  NOT_BOOLEAN: '真偽値である必要があります',
+  NOT_OBJECT: 'オブジェクトである必要があります',
+  NOT_NULL: 'null である必要があります',
+  NOT_UNDEFINED: 'undefined である必要があります',
+  NOT_FUNCTION: '関数である必要があります',
+  NOT_SYMBOL: 'Symbol である必要があります',
+  NOT_DATE: '有効な Date オブジェクトである必要があります',
+
+  // 高级规则
+  OR_ALL_FAILED: 'すべてのルールが失敗しました: {messages}',
+  ONE_OF_MULTIPLE: 'ちょうど 1 つのルールに一致する必要がありますが、{count} 個に一致しました',
+  NOT: 'この検証に合格しない値である必要があります',
+  CUSTOM: 'カスタム検証に失敗しました',
+
+  // 跨字段规则
+  FIELD_MISMATCH: '"{field}" の値と一致する必要があります',
+  INVALID_TYPE: '数値または日付である必要があります',
+  NOT_GREATER_THAN: '"{field}" の値に対して {operator} である必要があります',
+  NOT_LESS_THAN: '"{field}" の値に対して {operator} である必要があります',
+  DATE_NOT_AFTER: '日付は "{field}" より後である必要があります',
+  DATE_NOT_BEFORE: '日付は "{field}" より前である必要があります',
+  REQUIRED_IF: '"{field}" が入力されている場合、{label}は必須です',
+  FIELD_EXCLUDES: '"{field}" と同時に指定することはできません',
+
+  // 预设
+  PRESET_EMAIL_REQUIRED: 'メールアドレスは必須です',
+  PRESET_EMAIL_INVALID: 'メールアドレスの形式が正しくありません',
+  PRESET_PASSWORD_REQUIRED: 'パスワードは必須です',
+  PRESET_PASSWORD_MIN_LENGTH: 'パスワードは {min} 文字以上で入力してください',
+  PRESET_USERNAME_REQUIRED: 'ユーザー名は必須です',
+  PRESET_USERNAME_MIN_LENGTH: 'ユーザー名は {min} 文字以上で入力してください',
+  PRESET_USERNAME_MAX_LENGTH: 'ユーザー名は {max} 文字以内で入力してください',
+  PRESET_PHONE_REQUIRED: '電話番号は必須です',
+  PRESET_PHONE_INVALID: '電話番号の形式が正しくありません',
+  PRESET_URL_REQUIRED: 'URL は必須です',
+  PRESET_URL_INVALID: 'URL の形式が正しくありません',
+}
@@ -0,0 +1,198 @@
+import type { LocaleMessages } from '../MessageCatalog'
+
+/**
+ * 简体中文验证消息
+ */
+export const zhCN: LocaleMessages = {
+  // 通用
+  DEFAULT_LABEL: '此字段',
+  VALIDATION_FAILED: '验证失败',
+  RULE_ERROR: '验证规则执行出错',
+  ABORTED: '验证已取消',
+  TIMEOUT: '验证超时（{timeout} 毫秒）',
+  UNKNOWN_ERROR: '未知错误',
+  LIST_SEPARATOR: '、',
+
+  // 基础规则
+  REQUIRED: '{label}是必填项',
+  MIN_LENGTH: '最小长度为 {min} 个字符',
+  MAX_LENGTH: '最大长度为 {max} 个字符',
+  RANGE: '数值必须在 {min} 到 {max} 之间',
+  MIN: '数值不能小于 {min}',
+  MAX: '数值不能大于 {max}',
+  PATTERN: '格式不正确',
+  ONE_OF: '值必须是 {values} 之一',
+  ENUM: '值必须是 {values} 之一',
+  NOT_ARRAY: '必须是数组类型',
+  ARRAY_MIN_LENGTH: '数组长度不能少于 {min}',
+  ARRAY_MAX_LENGTH: '数组长度不能超过 {max}',
+  TYPE_MISMATCH: '类型错误，期望 {expected}，实际 {actual}',
+  UNKNOWN_FIELD: '不允许的字段：{field}',
+  ARRAY_ITEM_INVALID: '数组元素 [{index}] 验证失败: {message}',
+  ARRAY_NOT_UNIQUE: '数组包含重复元素: {item}',
+  ARRAY_NOT_UNIQUE_AT: '数组包含重复元素（索引 {first} 和 {second}）',
+
+  // 格式规则
+  INVALID_EMAIL: '请输入有效的邮箱地址',
+  EMAIL_TOO_LONG: '邮箱地址过长，最多{max}个字符',
+  EMAIL_DOMAIN_NOT_ALLOWED: '不支持使用 {domain} 的邮箱',
+  EMAIL_DOMAIN_DENIED: '不允许使用 {domain} 的邮箱',
+  EMAIL_DISPOSABLE: '不允许使用一次性邮箱',
+  INVALID_URL: '请输入有效的 URL',
+  URL_TOO_LONG: 'URL 过长，最多{max}个字符',
+  URL_PROTOCOL_NOT_ALLOWED: 'URL 协议必须是：{protocols}',
+  URL_TLD_REQUIRED: 'URL 的域名必须包含顶级域',
+  URL_HOST_NOT_ALLOWED: '不支持主机 {host}',
+  URL_HOST_DENIED: '不允许使用主机 {host}',
+  URL_IP_NOT_ALLOWED: 'URL 不能使用 IP 地址',
+  URL_IP_DENIED: 'URL 中的 IP 地址 {ip} 位于禁止的网段内',
+  URL_LOCALHOST_NOT_ALLOWED: 'URL 不能指向本机地址',
+  URL_PORT_NOT_ALLOWED: '不允许使用端口 {port}',
+  URL_CREDENTIALS_NOT_ALLOWED: 'URL 不能包含用户名或密码',
+  URL_PATH_INVALID: 'URL 路径格式不正确',
+  URL_QUERY_NOT_ALLOWED: 'URL 不能包含查询参数',
+  URL_FRAGMENT_NOT_ALLOWED: 'URL 不能包含片段标识（#）',
+  INVALID_PHONE: '请输入有效的手机号码',
+  INVALID_PHONE_E164: '请输入 E.164 格式的电话号码（如 +8613800138000）',
+  INVALID_PHONE_REGION: '电话号码必须属于以下国家或地区：{regions}',
+  INVALID_PHONE_TYPE: '请输入有效的{types}号码',
+  PHONE_TYPE_MOBILE: '手机',
+  PHONE_TYPE_FIXED: '固定电话',
+  INVALID_ID_CARD: '请输入有效的身份证号码',
+  INVALID_ID_CARD_CHECK: '身份证号码校验位错误',
+  INVALID_HKID: '请输入有效的香港身份证号码',
+  INVALID_TAIWAN_ID: '请输入有效的台湾身份证号码',
+  INVALID_SSN: '请输入有效的美国社会安全号',
+  INVALID_NINO: '请输入有效的英国国民保险号',
+  INVALID_NRIC: '请输入有效的新加坡身份证号码',
+  INVALID_USCC: '请输入有效的统一社会信用代码',
+  INVALID_USCC_CHECK: '统一社会信用代码校验位错误',
+  INVALID_BANK_CARD: '请输入有效的银行卡号',
+  INVALID_BANK_CARD_CHECK: '银行卡号校验失败',
+  UNKNOWN_BANK_CARD_ISSUER: '暂不支持该银行的银行卡',
+  INVALID_LICENSE_PLATE: '请输入有效的车牌号',
+  INVALID_PASSPORT: '请输入有效的护照号码',
+  INVALID_HK_MACAU_PERMIT: '请输入有效的港澳通行证号码',
+  INVALID_IPV4: '请输入有效的 IPv4 地址',
+  INVALID_IPV6: '请输入有效的 IPv6 地址',
+  INVALID_IP: '请输入有效的 IP 地址',
+  INVALID_CIDR: '请输入有效的 CIDR 网段',
+  CIDR_HOST_BITS_SET: '网段设置了主机位，应为 {network}',
+  INVALID_IP_RANGE: '请输入有效的 IP 地址范围',
+  IP_NOT_ALLOWED: '不允许使用 IP 地址 {ip}',
+  IP_DENIED: 'IP 地址 {ip} 位于禁止的网段内',
+  CIDR_OVERLAP: '网段 {first} 与 {second} 重叠',
+  NOT_NUMERIC: '请输入有效的数字',
+  NOT_INTEGER: '请输入整数',
+  NOT_ALPHA: '只能包含字母',
+  NOT_ALPHANUMERIC: '只能包含字母和数字',
+  NOT_LOWERCASE: '只能包含小写字母',
+  NOT_UPPERCASE: '只能包含大写字母',
+  INVALID_DATE: '请输入有效的日期',
+  INVALID_JSON: '请输入有效的 JSON',
+  INVALID_CREDIT_CARD: '请输入有效的信用卡号',
+  INVALID_CREDIT_CARD_CHECK: '信用卡号校验失败',
+  INVALID_POSTAL_CODE: '请输入有效的邮政编码',
+  POSTAL_CODE_COUNTRY_UNSUPPORTED: '不支持该国家/地区的邮政编码（{country}）',
+  WEAK_PASSWORD: '密码必须包含：{missing}',
+  PASSWORD_MIN_LENGTH: '至少{min}个字符',
+  PASSWORD_LOWERCASE: '小写字母',
+  PASSWORD_UPPERCASE: '大写字母',
+  PASSWORD_NUMBER: '数字',
+  PASSWORD_SPECIAL: '特殊字符',
+  PASSWORD_CLASSES: '至少{count}种字符类型',
+  PASSWORD_MAX_LENGTH: '密码最多{max}个字符',
+  PASSWORD_REPEATED: '同一字符不能连续出现超过{max}次',
+  PASSWORD_SEQUENCE: '密码不能包含超过{max}个字符的连续序列',
+  PASSWORD_KEYBOARD_PATTERN: '密码不能包含键盘连续按键',
+  PASSWORD_DICTIONARY_WORD: '密码不能包含常见单词',
+  PASSWORD_SIMILAR_TO_USER: '密码不能与用户名或邮箱相似',
+  PASSWORD_LOW_ENTROPY: '密码强度不足',
+  PASSWORD_BREACHED: '该密码已出现在泄露密码列表中，请更换',
+  NOT_EQUAL: '两次输入不一致',
+  INVALID_UUID: '请输入有效的 UUID',
+  INVALID_MAC: '请输入有效的 MAC 地址',
+  INVALID_PORT: '端口号必须在 1-65535 之间',
+  INVALID_MD5: '请输入有效的 MD5 哈希',
+  INVALID_SHA1: '请输入有效的 SHA1 哈希',
+  INVALID_SHA256: '请输入有效的 SHA256 哈希',
+  INVALID_SHA512: '请输入有效的 SHA512 哈希',
+  NOT_HEX: '只能包含十六进制字符（0-9, A-F）',
+  INVALID_HEX_COLOR: '请输入有效的十六进制颜色值',
+  INVALID_BASE64: '请输入有效的 Base64 编码',
+  INVALID_JWT: '请输入有效的 JWT Token',
+  INVALID_IBAN: '请输入有效的 IBAN',
+  INVALID_IBAN_CHECK: 'IBAN 校验失败',
+  INVALID_ISBN: '请输入有效的 ISBN',
+  INVALID_ISBN_CHECK: '{variant} 校验失败',
+  INVALID_ISBN_LENGTH: 'ISBN 长度必须为 10 或 13 位',
+  INVALID_ISSN: '请输入有效的 ISSN',
+  INVALID_ISSN_CHECK: 'ISSN 校验失败',
+  INVALID_ISSN_LENGTH: 'ISSN 长度必须为 8 位',
+  INVALID_DOMAIN: '请输入有效的域名',
+  INVALID_SLUG: 'URL slug 格式不正确（只能包含小写字母、数字和连字符）',
+  INVALID_SEMVER: '请输入有效的语义化版本号（如 1.0.0）',
+  INVALID_MONGO_ID: '请输入有效的 MongoDB ObjectId',
+  INVALID_LATITUDE: '纬度必须在 -90 到 90 之间',
+  INVALID_LONGITUDE: '经度必须在 -180 到 180 之间',
+  INVALID_FILE_EXTENSION: '文件扩展名必须是 {extensions} 之一',
+  INVALID_MIME_TYPE: 'MIME 类型必须是 {types} 之一',
+  INVALID_LANGUAGE_CODE: '请输入有效的语言代码（如 en, zh, en-US）',
+  INVALID_COUNTRY_CODE: '请输入有效的国家代码（两位大写字母，如 CN, US）',
+  INVALID_CURRENCY_CODE: '请输入有效的货币代码（三位大写字母，如 CNY, USD）',
+  INVALID_CRON: 'Cron 表达式格式不正确',
+  INVALID_CRON_SEGMENTS: 'Cron 表达式必须是 5 段或 6 段格式',
+  INVALID_CRON_QUARTZ_SEGMENTS: 'Quartz Cron 表达式必须是 6 段或 7 段格式',
+  INVALID_CRON_QUARTZ_DAY: 'Quartz Cron 表达式的日和星期字段必须有且只有一个为 ?',
+  INVALID_CRON_FIELD: 'Cron 表达式第 {position} 段无效：{token}',
+  INVALID_CRON_MACRO: '不支持的 Cron 宏：{macro}',
+  CRON_NEVER_RUNS: 'Cron 表达式永远不会执行',
+
+  // 字符串规则
+  EXACT_LENGTH: '长度必须为 {length} 个字符',
+  STARTS_WITH: '必须以 "{prefix}" 开头',
+  ENDS_WITH: '必须以 "{suffix}" 结尾',
+  CONTAINS: '必须包含 "{substring}"',
+  NOT_CONTAINS: '不能包含 "{substring}"',
+  TRIM: '不能包含首尾空格',
+
+  // 类型规则
+  NOT_STRING: '必须是字符串类型',
+  NOT_NUMBER: '必须是数字类型',
+  NOT_BOOLEAN: '必须是布尔类型',
+  NOT_OBJECT: '必须是对象类型',
+  NOT_NULL: '必须是 null',
+  NOT_UNDEFINED: '必须是 undefined',
+  NOT_FUNCTION: '必须是函数类型',
+  NOT_SYMBOL: '必须是 Symbol 类型',
+  NOT_DATE: '必须是有效的 Date 对象',
+
+  // 高级规则
+  OR_ALL_FAILED: '所有规则验证失败: {messages}',
+  ONE_OF_MULTIPLE: '只能满足其中一条规则，实际满足 {count} 条',
+  NOT: '值不应通过此验证',
+  CUSTOM: '自定义验证失败',
+
+  // 跨字段规则
+  FIELD_MISMATCH: '必须与字段 "{field}" 的值相同',
+  INVALID_TYPE: '值必须是数字或日期',
+  NOT_GREATER_THAN: '必须{operator}字段 "{field}" 的值',
+  NOT_LESS_THAN: '必须{operator}字段 "{field}" 的值',
+  DATE_NOT_AFTER: '日期必须晚于 "{field}"',
+  DATE_NOT_BEFORE: '日期必须早于 "{field}"',
+  REQUIRED_IF: '当 "{field}" 有值时，{label}为必填项',
+  FIELD_EXCLUDES: '不能与字段 "{field}" 同时存在',
+
+  // 预设
+  PRESET_EMAIL_REQUIRED: '邮箱不能为空',
+  PRESET_EMAIL_INVALID: '邮箱格式不正确',
+  PRESET_PASSWORD_REQUIRED: '密码不能为空',
+  PRESET_PASSWORD_MIN_LENGTH: '密码至少{min}个字符',
+  PRESET_USERNAME_REQUIRED: '用户名不能为空',
+  PRESET_USERNAME_MIN_LENGTH: '用户名至少{min}个字符',
+  PRESET_USERNAME_MAX_LENGTH: '用户名最多{max}个字符',
+  PRESET_PHONE_REQUIRED: '手机号不能为空',
+  PRESET_PHONE_INVALID: '手机号格式不正确',
+  PRESET_URL_REQUIRED: 'URL 不能为空',
+  PRESET_URL_INVALID: 'URL 格式不正确',
+}
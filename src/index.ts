@@ -1,66 +1,134 @@
 /**
  * @ldesign/validator - 通用验证库
- * 
+ *
  * @packageDocumentation
  */
 
-// 导出类型
-export type * from './types'
+// 导出适配器
+export { toAntdRule, toAntdRules } from './adapters/antd'
+export type { AntdFormInstance, AntdRule, AntdRuleObject, AntdRulesOptions } from './adapters/antd'
+export { toElementPlusRule, toElementPlusRules } from './adapters/element-plus'
+export type { ElementPlusRule, ElementPlusRulesOptions } from './adapters/element-plus'
+export { ResultAdapter } from './adapters/ResultAdapter'
+export type {
+  AntdValidationResult,
+  ElementValidationResult,
+  VeeValidateResult,
+} from './adapters/ResultAdapter'
 
 // 导出核心类和工具
 export {
-  Validator,
+  clearGlobalCache,
+  clearGlobalPool,
+  compose,
+  createTransformer,
   createValidator,
-  RuleCache,
+  getGlobalCache,
+  getGlobalPool,
+  presets,
+  registerBuiltInRules,
   ResultPool,
-  RuleRegistry,
-  Transformer,
-  createTransformer,
-  transformers,
+  RuleCache,
   RuleComposer,
-  compose,
-  presets,
-  getGlobalCache,
+  RuleRegistry,
   setGlobalCache,
-  clearGlobalCache,
-  getGlobalPool,
   setGlobalPool,
-  clearGlobalPool,
-  registerBuiltInRules,
+  Transformer,
+  transformers,
+  Validator,
 } from './core'
-
 export type {
-  ValidatorOptions,
   BatchValidationResult,
   CacheOptions,
+  ComposerMessage,
   PoolOptions,
   TransformFunction,
+  ValidatorOptions,
 } from './core'
 
-// 导出 Schema 验证器
-export { SchemaValidator, createSchemaValidator } from './schema'
-export type { SchemaValidatorOptions } from './schema/SchemaValidator'
+// 导出表单控制器
+export { createFormController, FormController } from './form'
+export type {
+  FieldState,
+  FieldStateListener,
+  FormControllerOptions,
+  FormState,
+  FormStateListener,
+  SetValueOptions,
+  SubmitHandler,
+} from './form'
+
+// 导出国际化消息目录
+export {
+  builtInLocales,
+  getGlobalCatalog,
+  getLocale,
+  localized,
+  MessageCatalog,
+  setGlobalCatalog,
+  setLocale,
+  t,
+} from './i18n'
+export type {
+  I18nConnectOptions,
+  I18nInstance,
+  LocaleChangeListener,
+  LocaleMessages,
+  MessageCatalogOptions,
+  MessageParams,
+  MessageTemplate,
+} from './i18n'
 
 // 导出所有内置规则
 export * as rules from './rules'
 
-// 导出正则工具
-export * from './utils/regex'
-
-// 导出工具函数
-export { debounce, throttle } from './utils/throttle'
-export { fastHash, simpleKey, CacheKeyStrategy } from './utils/hash'
-
-// 导出适配器
-export { ResultAdapter } from './adapters/ResultAdapter'
+// 导出 Schema 验证器
+export {
+  collectRuleDependencies,
+  createDependencyGraph,
+  createJSONSchemaValidator,
+  createSchemaValidator,
+  defineSchema,
+  DependencyCycleError,
+  DependencyGraph,
+  fromJSONSchema,
+  JSON_SCHEMA_DIALECT,
+  ruleFromJSONSchema,
+  ruleToJSONSchema,
+  SchemaValidator,
+  toJSONSchema,
+  UNSUPPORTED_KEYWORD,
+  ValidationException,
+} from './schema'
 export type {
-  AntdValidationResult,
-  ElementValidationResult,
-  VeeValidateResult,
-} from './adapters/ResultAdapter'
-
-
+  Infer,
+  InferField,
+  InferRule,
+  JSONSchema,
+  JSONSchemaType,
+  SchemaTypeMap,
+  ToJSONSchemaOptions,
+} from './schema'
+export type { SafeParseResult, SchemaValidatorOptions, UnknownKeysPolicy } from './schema/SchemaValidator'
 
+// 导出类型
+export type * from './types'
 
+// 导出工具函数
+export {
+  abortedResult,
+  AbortScope,
+  createAbortScope,
+  isAborted,
+  linkSignals,
+  raceAbort,
+} from './utils/abort'
+export { getDependencies, inheritDependencies, withDependencies } from './utils/dependencies'
+export { CacheKeyStrategy, fastHash, simpleKey } from './utils/hash'
 
+// 导出正则工具
+export * from './utils/regex'
 
+export { debounce, throttle } from './utils/throttle'
+export { runWithTimeout, timeoutResult, ValidationTimeoutError } from './utils/timeout'
+export { shouldRunOnTrigger } from './utils/trigger'
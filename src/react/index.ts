@@ -0,0 +1,17 @@
+/**
+ * React 集成导出（@ldesign/validator/react）
+ */
+
+export { toAntdRule, toAntdRules } from '../adapters/antd'
+export type { AntdFormInstance, AntdRule, AntdRuleObject, AntdRulesOptions } from '../adapters/antd'
+export { schemaResolver, toFieldErrors } from './resolver'
+export type {
+  ResolverFieldError,
+  ResolverFieldErrors,
+  ResolverOptions,
+  ResolverResult,
+  SchemaResolver,
+  SchemaResolverOptions,
+} from './resolver'
+export { useValidator } from './useValidator'
+export type { UseValidatorOptions, UseValidatorReturn } from './useValidator'
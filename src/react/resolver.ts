@@ -0,0 +1,208 @@
+/**
+ * react-hook-form 解析器
+ * 用 SchemaValidator 验证 react-hook-form 的表单值，并把 errorMap 转换为 FieldErrors（支持嵌套路径）
+ */
+
+import type { Infer } from '../schema/infer'
+import type { Schema, SchemaValidationResult, ValidationError } from '../types'
+import { SchemaValidator } from '../schema/SchemaValidator'
+
+/**
+ * react-hook-form 的单个字段错误（FieldError 的结构子集）
+ */
+export interface ResolverFieldError {
+  /** 错误类型（验证错误代码） */
+  type: string
+
+  /** 错误消息 */
+  message?: string
+
+  /** criteriaMode 为 'all' 时，同一字段的所有错误（错误代码 → 消息） */
+  types?: Record<string, string>
+}
+
+/**
+ * react-hook-form 的 FieldErrors（按字段路径嵌套的错误对象）
+ */
+export type ResolverFieldErrors = Record<string, any>
+
+/**
+ * react-hook-form 传给解析器的选项（ResolverOptions 的结构子集）
+ */
+export interface ResolverOptions {
+  /** 错误收集模式 */
+  criteriaMode?: 'firstError' | 'all'
+
+  /** 本次需要验证的字段（触发单个字段验证时提供） */
+  names?: string[]
+
+  /** 字段引用（不使用） */
+  fields?: Record<string, any>
+
+  /** 是否使用浏览器原生验证（不使用） */
+  shouldUseNativeValidation?: boolean
+}
+
+/**
+ * 解析器返回值
+ */
+export type ResolverResult<T>
+  = | { values: T, errors: Record<string, never> }
+    | { values: Record<string, never>, errors: ResolverFieldErrors }
+
+/**
+ * 解析器
+ */
+export type SchemaResolver<T> = (
+  values: Record<string, any>,
+  context: any,
+  options: ResolverOptions,
+) => Promise<ResolverResult<T>>
+
+/**
+ * 解析器选项
+ */
+export interface SchemaResolverOptions {
+  /**
+   * 验证消息语言
+   */
+  locale?: string
+
+  /**
+   * 是否返回原始表单值（而不是应用默认值和转换后的数据）
+   * @default false
+   */
+  raw?: boolean
+}
+
+/**
+ * 解析字段路径（如 `items[2].sku` → ['items', 2, 'sku']）
+ */
+function parsePath(path: string): Array<string | number> {
+  return path
+    .split(/\.|\[(\d+)\]/)
+    .filter(segment => segment !== undefined && segment !== '')
+    .map(segment => /^\d+$/.test(segment) ? Number(segment) : segment)
+}
+
+/**
+ * 按路径写入嵌套错误对象，数组下标生成数组
+ */
+function setError(errors: ResolverFieldErrors, path: string, error: ResolverFieldError): void {
+  const segments = parsePath(path)
+  let target: any = errors
+
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      target[segment] = error
+      return
+    }
+
+    if (target[segment] === undefined) {
+      target[segment] = typeof segments[index + 1] === 'number' ? [] : {}
+    }
+    target = target[segment]
+  })
+}
+
+/**
+ * 把单个字段的错误列表转换为 react-hook-form 的 FieldError
+ */
+function toFieldError(fieldErrors: ValidationError[], criteriaMode: ResolverOptions['criteriaMode']): ResolverFieldError {
+  const [first] = fieldErrors
+  const error: ResolverFieldError = {
+    type: first.code ?? 'validation',
+    message: first.message,
+  }
+
+  if (criteriaMode === 'all') {
+    error.types = Object.fromEntries(fieldErrors.map(item => [item.code ?? 'validation', item.message]))
+  }
+
+  return error
+}
+
+/**
+ * 把 SchemaValidationResult.errorMap 转换为 react-hook-form 的 FieldErrors
+ * `address.city`、`items[2].sku` 等路径会转换为嵌套对象和数组
+ *
+ * @param result Schema 验证结果
+ * @param criteriaMode 错误收集模式
+ * @returns FieldErrors
+ *
+ * @example
+ * ```typescript
+ * toFieldErrors(result)
+ * // { items: [, , { sku: { type: 'REQUIRED', message: '此字段为必填项' } }] }
+ * ```
+ */
+export function toFieldErrors(
+  result: SchemaValidationResult<any>,
+  criteriaMode: ResolverOptions['criteriaMode'] = 'firstError',
+): ResolverFieldErrors {
+  const errors: ResolverFieldErrors = {}
+
+  for (const [path, fieldErrors] of Object.entries(result.errorMap)) {
+    if (fieldErrors.length > 0) {
+      setError(errors, path, toFieldError(fieldErrors, criteriaMode))
+    }
+  }
+
+  return errors
+}
+
+/**
+ * 创建 react-hook-form 解析器
+ * 触发单个字段验证时（options.names）只验证这些字段所属的顶层字段
+ *
+ * @param schema Schema 定义或 SchemaValidator 实例
+ * @param resolverOptions 解析器选项
+ * @returns react-hook-form 的 resolver
+ *
+ * @example
+ * ```tsx
+ * import { useForm } from 'react-hook-form'
+ * import { schemaResolver } from '@ldesign/validator/react'
+ *
+ * const { register, handleSubmit, formState: { errors } } = useForm({
+ *   resolver: schemaResolver({
+ *     email: { type: 'email', required: true },
+ *     address: { type: 'object', schema: { city: { type: 'string', required: true } } },
+ *   }),
+ * })
+ * // errors.address?.city?.message
+ * ```
+ */
+export function schemaResolver<T>(
+  schema: SchemaValidator<T>,
+  resolverOptions?: SchemaResolverOptions,
+): SchemaResolver<T>
+export function schemaResolver<const S extends Schema>(
+  schema: S,
+  resolverOptions?: SchemaResolverOptions,
+): SchemaResolver<Infer<S>>
+export function schemaResolver(
+  schema: Schema | SchemaValidator<any>,
+  resolverOptions: SchemaResolverOptions = {},
+): SchemaResolver<any> {
+  const validator = schema instanceof SchemaValidator ? schema : new SchemaValidator(schema)
+
+  return async (values, _context, options = {}) => {
+    const context = { locale: resolverOptions.locale }
+    const fields = options.names?.length
+      ? Array.from(new Set(options.names.map(name => String(parsePath(name)[0]))))
+      : undefined
+    const result = fields
+      ? await validator.validateFields(values, fields, context)
+      : await validator.validate(values, context)
+
+    if (!result.valid) {
+      return { values: {}, errors: toFieldErrors(result, options.criteriaMode) }
+    }
+
+    return {
+      values: resolverOptions.raw || !result.data ? values : result.data,
+      errors: {},
+    }
+  }
+}
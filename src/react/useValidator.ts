@@ -0,0 +1,184 @@
+/**
+ * useValidator Hook
+ * 把单个字段的值绑定到 Validator：值变化时自动（可防抖）验证，并提供结果、错误和验证中状态
+ */
+
+import type { Validator } from '../core/Validator'
+import type { RuleError, ValidationContext, ValidationResult, ValidationTrigger } from '../types'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { linkSignals } from '../utils/abort'
+
+/**
+ * useValidator 选项
+ */
+export interface UseValidatorOptions {
+  /**
+   * 值变化时是否自动验证（按 'change' 触发）
+   * @default true
+   */
+  auto?: boolean
+
+  /**
+   * 是否在挂载时立即验证一次
+   * @default false
+   */
+  immediate?: boolean
+
+  /**
+   * 自动验证的防抖时间（毫秒），适合远程唯一性检查等异步规则
+   * @default 0
+   */
+  debounce?: number
+
+  /**
+   * 验证上下文
+   */
+  context?: ValidationContext
+}
+
+/**
+ * useValidator 返回值
+ */
+export interface UseValidatorReturn {
+  /** 最近一次验证结果（尚未验证时为 null） */
+  result: ValidationResult | null
+
+  /** 是否有效（尚未验证时为 true） */
+  valid: boolean
+
+  /** 第一条错误消息 */
+  error?: string
+
+  /** 所有错误（收集全部错误模式下包含每条失败的规则） */
+  errors: RuleError[]
+
+  /** 是否正在验证 */
+  validating: boolean
+
+  /**
+   * 立即验证
+   * @param trigger 触发事件（不设置时执行全部规则）
+   */
+  validate: (trigger?: ValidationTrigger) => Promise<ValidationResult>
+
+  /** 失焦时调用，按 'blur' 立即验证 */
+  blur: () => Promise<ValidationResult>
+
+  /** 取消进行中的验证并清除结果 */
+  reset: () => void
+}
+
+/**
+ * 把单个字段的值绑定到 Validator
+ * 新的验证开始时，上一次尚未完成的验证会被取消，其结果不会写入状态；组件卸载时取消进行中的验证
+ *
+ * @param value 要验证的值
+ * @param validator 验证器
+ * @param options 选项
+ * @returns 验证状态
+ *
+ * @example
+ * ```tsx
+ * function UsernameField() {
+ *   const [username, setUsername] = useState('')
+ *   const { error, validating, blur } = useValidator(username, usernameValidator, { debounce: 300 })
+ *
+ *   return (
+ *     <>
+ *       <input value={username} onChange={e => setUsername(e.target.value)} onBlur={blur} />
+ *       {validating ? <Spinner /> : error}
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function useValidator<T = any>(
+  value: T,
+  validator: Validator<T>,
+  options: UseValidatorOptions = {},
+): UseValidatorReturn {
+  const [result, setResult] = useState<ValidationResult | null>(null)
+  const [validating, setValidating] = useState(false)
+
+  const controllerRef = useRef<AbortController | undefined>(undefined)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const previousRef = useRef(value)
+
+  // 异步回调始终读取最新的值、验证器和上下文
+  const latest = useRef({ value, validator, context: options.context })
+  latest.current = { value, validator, context: options.context }
+
+  const cancel = useCallback(() => {
+    clearTimeout(timerRef.current)
+    timerRef.current = undefined
+    controllerRef.current?.abort()
+    controllerRef.current = undefined
+  }, [])
+
+  const validate = useCallback(async (trigger?: ValidationTrigger): Promise<ValidationResult> => {
+    cancel()
+
+    const current = new AbortController()
+    controllerRef.current = current
+    setValidating(true)
+
+    const { value, validator, context } = latest.current
+    const validation = await validator.validate(value, {
+      ...context,
+      trigger,
+      signal: linkSignals(context?.signal, current.signal),
+    })
+
+    // 被更新的验证取代或组件已卸载时丢弃结果
+    if (!current.signal.aborted) {
+      controllerRef.current = undefined
+      setResult(validation)
+      setValidating(false)
+    }
+
+    return validation
+  }, [cancel])
+
+  const reset = useCallback(() => {
+    cancel()
+    setResult(null)
+    setValidating(false)
+  }, [cancel])
+
+  const blur = useCallback(() => validate('blur'), [validate])
+
+  useEffect(() => {
+    // 值未变化说明是挂载（StrictMode 下重复执行也视为挂载）
+    const changed = !Object.is(previousRef.current, value)
+    previousRef.current = value
+
+    if (changed ? !(options.auto ?? true) : !options.immediate) {
+      return
+    }
+
+    if (changed && options.debounce) {
+      clearTimeout(timerRef.current)
+      timerRef.current = setTimeout(() => validate('change'), options.debounce)
+    }
+    else {
+      validate('change')
+    }
+  }, [value])
+
+  useEffect(() => cancel, [cancel])
+
+  const errors = !result || result.valid
+    ? []
+    : result.errors ?? [{ message: result.message, code: result.code, meta: result.meta }]
+
+  return {
+    result,
+    valid: result?.valid ?? true,
+    error: result?.valid === false ? result.message : undefined,
+    errors,
+    validating,
+    validate,
+    blur,
+    reset,
+  }
+}
@@ -1,4 +1,7 @@
 import type { ValidatorFunction, ValidationContext, ValidationResult } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { abortedResult, isAborted } from '../utils/abort'
+import { inheritDependencies } from '../utils/dependencies'
 
 /**
  * 条件验证选项
@@ -12,6 +15,10 @@ export interface WhenOptions {
    * 条件为假时的验证规则（可选）
    */
   otherwise?: ValidatorFunction
+  /**
+   * 条件读取的字段路径（用于字段依赖图，then/otherwise 声明的依赖会自动合并）
+   */
+  dependsOn?: string[]
 }
 
 /**
@@ -23,7 +30,11 @@ export function when(
   condition: (value: any, context?: ValidationContext) => boolean,
   options: WhenOptions,
 ): ValidatorFunction {
-  return async (value, context) => {
+  const validator: ValidatorFunction = async (value, context) => {
+    if (isAborted(context)) {
+      return abortedResult(context)
+    }
+
     const shouldApplyThen = condition(value, context)
 
     if (shouldApplyThen) {
@@ -35,6 +46,8 @@ export function when(
 
     return { valid: true }
   }
+
+  return inheritDependencies(validator, [options.then, options.otherwise], options.dependsOn)
 }
 
 /**
@@ -66,8 +79,12 @@ export function ref(fieldPath: string): (context?: ValidationContext) => any {
  * 规则与组合 - 所有规则都必须通过
  */
 export function and(...rules: ValidatorFunction[]): ValidatorFunction {
-  return async (value, context) => {
+  return inheritDependencies(async (value, context) => {
     for (const rule of rules) {
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
+
       const result = await rule(value, context)
       if (!result.valid) {
         return result
@@ -75,17 +92,21 @@ export function and(...rules: ValidatorFunction[]): ValidatorFunction {
     }
 
     return { valid: true }
-  }
+  }, rules)
 }
 
 /**
  * 规则或组合 - 至少一个规则通过
  */
 export function or(...rules: ValidatorFunction[]): ValidatorFunction {
-  return async (value, context) => {
+  return inheritDependencies(async (value, context) => {
     const errors: string[] = []
 
     for (const rule of rules) {
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
+
       const result = await rule(value, context)
       if (result.valid) {
         return { valid: true }
@@ -97,25 +118,25 @@ export function or(...rules: ValidatorFunction[]): ValidatorFunction {
 
     return {
       valid: false,
-      message: `所有规则验证失败: ${errors.join('; ')}`,
+      message: t('OR_ALL_FAILED', { messages: errors.join('; ') }, context?.locale),
       code: 'OR_ALL_FAILED',
     }
-  }
+  }, rules)
 }
 
 /**
  * 规则非 - 规则必须不通过
  */
 export function not(rule: ValidatorFunction, message?: string): ValidatorFunction {
-  return async (value, context) => {
+  return inheritDependencies(async (value, context) => {
     const result = await rule(value, context)
 
     return {
       valid: !result.valid,
-      message: !result.valid ? undefined : message || '值不应通过此验证',
+      message: !result.valid ? undefined : message || t('NOT', undefined, context?.locale),
       code: 'NOT',
     }
-  }
+  }, [rule])
 }
 
 /**
@@ -136,7 +157,7 @@ export function custom(
     if (typeof result === 'boolean') {
       return {
         valid: result,
-        message: result ? undefined : message || '自定义验证失败',
+        message: result ? undefined : message || t('CUSTOM', undefined, context?.locale),
         code: code || 'CUSTOM',
       }
     }
@@ -154,6 +175,10 @@ export function lazy(
   fn: (value: any, context?: ValidationContext) => ValidatorFunction,
 ): ValidatorFunction {
   return async (value, context) => {
+    if (isAborted(context)) {
+      return abortedResult(context)
+    }
+
     const validator = fn(value, context)
     return await validator(value, context)
   }
@@ -182,7 +207,11 @@ export function conditional(
   routes: ConditionalRoute[],
   defaultValidator?: ValidatorFunction,
 ): ValidatorFunction {
-  return async (value, context) => {
+  return inheritDependencies(async (value, context) => {
+    if (isAborted(context)) {
+      return abortedResult(context)
+    }
+
     // 查找第一个满足条件的路由
     for (const route of routes) {
       if (route.condition(value, context)) {
@@ -196,7 +225,7 @@ export function conditional(
     }
 
     return { valid: true }
-  }
+  }, [...routes.map(route => route.validator), defaultValidator])
 }
 
 
@@ -1,4 +1,6 @@
 import type { ValidationResult, ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { abortedResult, isAborted } from '../utils/abort'
 
 /**
  * 必填验证
@@ -14,11 +16,11 @@ import type { ValidationResult, ValidatorFunction } from '../types'
  * await validator.validate(null) // 失败
  * ```
  */
-export const required: ValidatorFunction = (value) => {
+export const required: ValidatorFunction = (value, context) => {
   const valid = value !== null && value !== undefined && value !== ''
   return {
     valid,
-    message: valid ? undefined : '此字段是必填项',
+    message: valid ? undefined : t('REQUIRED', { label: context?.label }, context?.locale),
     code: 'REQUIRED',
   }
 }
@@ -40,14 +42,14 @@ export const required: ValidatorFunction = (value) => {
  * ```
  */
 export function minLength(min: number): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
     const valid = value.length >= min
     return {
       valid,
-      message: valid ? undefined : `最小长度为 ${min} 个字符`,
+      message: valid ? undefined : t('MIN_LENGTH', { min }, context?.locale),
       code: 'MIN_LENGTH',
     }
   }
@@ -70,14 +72,14 @@ export function minLength(min: number): ValidatorFunction<string> {
  * ```
  */
 export function maxLength(max: number): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
     const valid = value.length <= max
     return {
       valid,
-      message: valid ? undefined : `最大长度为 ${max} 个字符`,
+      message: valid ? undefined : t('MAX_LENGTH', { max }, context?.locale),
       code: 'MAX_LENGTH',
     }
   }
@@ -87,14 +89,14 @@ export function maxLength(max: number): ValidatorFunction<string> {
  * 数字范围验证
  */
 export function range(min: number, max: number): ValidatorFunction<number> {
-  return (value) => {
+  return (value, context) => {
     if (value === null || value === undefined) {
       return { valid: true }
     }
     const valid = value >= min && value <= max
     return {
       valid,
-      message: valid ? undefined : `数值必须在 ${min} 到 ${max} 之间`,
+      message: valid ? undefined : t('RANGE', { min, max }, context?.locale),
       code: 'RANGE',
     }
   }
@@ -104,14 +106,14 @@ export function range(min: number, max: number): ValidatorFunction<number> {
  * 最小值验证
  */
 export function min(minValue: number): ValidatorFunction<number> {
-  return (value) => {
+  return (value, context) => {
     if (value === null || value === undefined) {
       return { valid: true }
     }
     const valid = value >= minValue
     return {
       valid,
-      message: valid ? undefined : `数值不能小于 ${minValue}`,
+      message: valid ? undefined : t('MIN', { min: minValue }, context?.locale),
       code: 'MIN',
     }
   }
@@ -121,14 +123,14 @@ export function min(minValue: number): ValidatorFunction<number> {
  * 最大值验证
  */
 export function max(maxValue: number): ValidatorFunction<number> {
-  return (value) => {
+  return (value, context) => {
     if (value === null || value === undefined) {
       return { valid: true }
     }
     const valid = value <= maxValue
     return {
       valid,
-      message: valid ? undefined : `数值不能大于 ${maxValue}`,
+      message: valid ? undefined : t('MAX', { max: maxValue }, context?.locale),
       code: 'MAX',
     }
   }
@@ -138,14 +140,14 @@ export function max(maxValue: number): ValidatorFunction<number> {
  * 正则表达式验证
  */
 export function pattern(regex: RegExp, message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
     const valid = regex.test(value)
     return {
       valid,
-      message: valid ? undefined : message || '格式不正确',
+      message: valid ? undefined : message || t('PATTERN', undefined, context?.locale),
       code: 'PATTERN',
     }
   }
@@ -155,11 +157,11 @@ export function pattern(regex: RegExp, message?: string): ValidatorFunction<stri
  * 枚举值验证
  */
 export function oneOf<T>(values: T[], message?: string): ValidatorFunction<T> {
-  return (value) => {
+  return (value, context) => {
     const valid = values.includes(value)
     return {
       valid,
-      message: valid ? undefined : message || `值必须是 ${values.join(', ')} 之一`,
+      message: valid ? undefined : message || t('ONE_OF', { values: values.join(', ') }, context?.locale),
       code: 'ONE_OF',
     }
   }
@@ -169,15 +171,15 @@ export function oneOf<T>(values: T[], message?: string): ValidatorFunction<T> {
  * 数组长度验证
  */
 export function arrayLength(min?: number, max?: number): ValidatorFunction<any[]> {
-  return (value) => {
+  return (value, context) => {
     if (!Array.isArray(value)) {
-      return { valid: false, message: '必须是数组', code: 'NOT_ARRAY' }
+      return { valid: false, message: t('NOT_ARRAY', undefined, context?.locale), code: 'NOT_ARRAY' }
     }
 
     if (min !== undefined && value.length < min) {
       return {
         valid: false,
-        message: `数组长度不能少于 ${min}`,
+        message: t('ARRAY_MIN_LENGTH', { min }, context?.locale),
         code: 'ARRAY_MIN_LENGTH',
       }
     }
@@ -185,7 +187,7 @@ export function arrayLength(min?: number, max?: number): ValidatorFunction<any[]
     if (max !== undefined && value.length > max) {
       return {
         valid: false,
-        message: `数组长度不能超过 ${max}`,
+        message: t('ARRAY_MAX_LENGTH', { max }, context?.locale),
         code: 'ARRAY_MAX_LENGTH',
       }
     }
@@ -206,20 +208,46 @@ export function arrayLength(min?: number, max?: number): ValidatorFunction<any[]
  * ```
  */
 export function type(expectedType: string): ValidatorFunction {
-  return (value) => {
+  return (value, context) => {
     const actualType = typeof value
     const valid = actualType === expectedType
     return {
       valid,
-      message: valid ? undefined : `类型错误，期望 ${expectedType}，实际 ${actualType}`,
+      message: valid ? undefined : t('TYPE_MISMATCH', { expected: expectedType, actual: actualType }, context?.locale),
       code: 'TYPE_MISMATCH',
     }
   }
 }
 
+/**
+ * 数组元素错误
+ */
+export interface ArrayItemError {
+  /**
+   * 元素索引
+   */
+  index: number
+
+  /**
+   * 元素路径（如 `tags[3]`，未提供字段名时为 `[3]`）
+   */
+  field: string
+
+  /**
+   * 错误消息
+   */
+  message: string
+
+  /**
+   * 错误代码
+   */
+  code?: string
+}
+
 /**
  * 数组元素验证
  * 验证数组中的每个元素是否符合指定的验证器
+ * 每个失败的元素都会记录在 meta.errors 中（含索引和路径），message 为第一个错误的汇总消息
  * 
  * @param itemValidator 元素验证器函数
  * @param options 验证选项
@@ -238,6 +266,11 @@ export function type(expectedType: string): ValidatorFunction {
  * // 验证数字数组范围
  * const numberListValidator = createValidator<number[]>()
  *   .rule({ validator: rules.arrayOf(rules.range(0, 100)) })
+ *
+ * // 收集所有错误元素（最多 50 个），用于表格逐格高亮
+ * const cellsValidator = rules.arrayOf(rules.required, { stopOnFirstError: false, maxErrors: 50 })
+ * const result = await cellsValidator(rows, { field: 'rows' })
+ * result.meta?.errors // [{ index: 3, field: 'rows[3]', message: '...', code: 'REQUIRED' }, ...]
  * ```
  */
 export function arrayOf(
@@ -253,16 +286,22 @@ export function arrayOf(
      * 可以使用 {index} 占位符表示错误元素的索引
      */
     message?: string
+    /**
+     * 最多收集的元素错误数（仅在 stopOnFirstError 为 false 时生效）
+     * 达到上限后遇到下一个错误元素即停止验证，并在 meta.truncated 中标记
+     */
+    maxErrors?: number
   }
 ): ValidatorFunction<any[]> {
   const stopOnFirst = options?.stopOnFirstError ?? true
+  const maxErrors = stopOnFirst ? undefined : options?.maxErrors
 
   return async (value, context) => {
     // 检查是否为数组
     if (!Array.isArray(value)) {
       return {
         valid: false,
-        message: '必须是数组类型',
+        message: t('NOT_ARRAY', undefined, context?.locale),
         code: 'NOT_ARRAY',
       }
     }
@@ -272,21 +311,33 @@ export function arrayOf(
       return { valid: true }
     }
 
-    const errors: Array<{ index: number, message?: string, code?: string }> = []
+    const errors: ArrayItemError[] = []
+    let truncated = false
 
     // 验证每个元素
     for (let i = 0; i < value.length; i++) {
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
+
       const item = value[i]
-      const result = await itemValidator(item, context)
+      const field = `${context?.field ?? ''}[${i}]`
+      const result = await itemValidator(item, { ...context, field })
 
       if (!result.valid) {
+        // 已达到错误上限时，只有确实还存在错误元素才标记为截断
+        if (maxErrors !== undefined && errors.length >= maxErrors) {
+          truncated = true
+          break
+        }
+
         errors.push({
           index: i,
-          message: result.message,
+          field,
+          message: result.message || t('VALIDATION_FAILED', undefined, context?.locale),
           code: result.code,
         })
 
-        // 如果需要在第一个错误时停止
         if (stopOnFirst) {
           break
         }
@@ -303,14 +354,17 @@ export function arrayOf(
         message = message.replace('{index}', String(firstError.index))
       }
       else {
-        message = `数组元素 [${firstError.index}] 验证失败: ${firstError.message || '未知错误'}`
+        message = t('ARRAY_ITEM_INVALID', {
+          index: firstError.index,
+          message: firstError.message || t('UNKNOWN_ERROR', undefined, context?.locale),
+        }, context?.locale)
       }
 
       return {
         valid: false,
         message,
         code: firstError.code || 'ARRAY_ITEM_INVALID',
-        meta: { errors },
+        meta: { errors, truncated },
       }
     }
 
@@ -345,11 +399,11 @@ export function arrayUnique<T = any>(options?: {
    */
   message?: string
 }): ValidatorFunction<T[]> {
-  return (value) => {
+  return (value, context) => {
     if (!Array.isArray(value)) {
       return {
         valid: false,
-        message: '必须是数组类型',
+        message: t('NOT_ARRAY', undefined, context?.locale),
         code: 'NOT_ARRAY',
       }
     }
@@ -365,7 +419,7 @@ export function arrayUnique<T = any>(options?: {
         if (seen.has(item)) {
           return {
             valid: false,
-            message: options?.message || `数组包含重复元素: ${item}`,
+            message: options?.message || t('ARRAY_NOT_UNIQUE', { item }, context?.locale),
             code: 'ARRAY_NOT_UNIQUE',
             meta: { duplicate: item, index: i },
           }
@@ -378,7 +432,7 @@ export function arrayUnique<T = any>(options?: {
           if (compareFn(item, value[j])) {
             return {
               valid: false,
-              message: options?.message || `数组包含重复元素（索引 ${j} 和 ${i}）`,
+              message: options?.message || t('ARRAY_NOT_UNIQUE_AT', { first: j, second: i }, context?.locale),
               code: 'ARRAY_NOT_UNIQUE',
               meta: { duplicate: item, indices: [j, i] },
             }
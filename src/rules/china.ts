@@ -0,0 +1,318 @@
+/**
+ * 中国大陆业务标识规则
+ * 统一社会信用代码、银行卡号、机动车号牌、护照和港澳通行证的格式与校验位验证
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 银行卡组织
+ */
+export type CardNetwork = 'UnionPay' | 'Visa' | 'Mastercard' | 'JCB' | 'AmericanExpress'
+
+/**
+ * 发卡行信息
+ */
+export interface BankIssuer {
+  /** 银行代码（如 ICBC） */
+  bankCode: string
+
+  /** 银行名称 */
+  bankName: string
+}
+
+/**
+ * 银行卡信息
+ */
+export interface BankCardInfo extends Partial<BankIssuer> {
+  /** 发卡行识别码（前 6 位） */
+  bin: string
+
+  /** 卡组织 */
+  network?: CardNetwork
+}
+
+/**
+ * 银行卡号验证选项
+ */
+export interface BankCardOptions {
+  /**
+   * 是否进行 Luhn 校验（少数早期发行的借记卡不满足 Luhn 校验）
+   * @default true
+   */
+  luhn?: boolean
+
+  /**
+   * 是否要求发卡行已登记（见 registerBankBin）
+   * @default false
+   */
+  knownIssuer?: boolean
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 统一社会信用代码字符集（不含 I、O、S、V、Z），字符在其中的位置即其数值
+ */
+const USCC_CHARSET = '0123456789ABCDEFGHJKLMNPQRTUWXY'
+const USCC_WEIGHTS = [1, 3, 9, 27, 19, 26, 16, 17, 20, 29, 25, 13, 8, 24, 10, 30, 28]
+
+/**
+ * 机动车号牌：省份简称 + 发牌机关代号 + 新能源序号（第 2 组捕获）或普通序号
+ */
+const PLATE_PATTERN = /^([京津沪渝冀豫云辽黑湘皖鲁新苏浙赣鄂桂甘晋蒙陕吉闽贵粤青藏川宁琼])[A-HJ-NP-Z](?:([A-HJK][A-HJ-NP-Z\d]\d{4}|\d{5}[A-HJK])|[A-HJ-NP-Z\d]{4}[A-HJ-NP-Z\d挂学警港澳])$/
+
+/**
+ * 发卡行识别码（BIN）登记表
+ */
+const BANK_BINS = new Map<string, BankIssuer>([
+  ['436742', { bankCode: 'CCB', bankName: '中国建设银行' }],
+  ['621226', { bankCode: 'ICBC', bankName: '中国工商银行' }],
+  ['621483', { bankCode: 'CMB', bankName: '招商银行' }],
+  ['621660', { bankCode: 'BOC', bankName: '中国银行' }],
+  ['621661', { bankCode: 'BOC', bankName: '中国银行' }],
+  ['621700', { bankCode: 'CCB', bankName: '中国建设银行' }],
+  ['621799', { bankCode: 'PSBC', bankName: '中国邮政储蓄银行' }],
+  ['622188', { bankCode: 'PSBC', bankName: '中国邮政储蓄银行' }],
+  ['622202', { bankCode: 'ICBC', bankName: '中国工商银行' }],
+  ['622208', { bankCode: 'ICBC', bankName: '中国工商银行' }],
+  ['622260', { bankCode: 'BOCOM', bankName: '交通银行' }],
+  ['622262', { bankCode: 'BOCOM', bankName: '交通银行' }],
+  ['622521', { bankCode: 'SPDB', bankName: '上海浦东发展银行' }],
+  ['622588', { bankCode: 'CMB', bankName: '招商银行' }],
+  ['622622', { bankCode: 'CMBC', bankName: '中国民生银行' }],
+  ['622663', { bankCode: 'CEB', bankName: '中国光大银行' }],
+  ['622690', { bankCode: 'CITIC', bankName: '中信银行' }],
+  ['622845', { bankCode: 'ABC', bankName: '中国农业银行' }],
+  ['622848', { bankCode: 'ABC', bankName: '中国农业银行' }],
+  ['622909', { bankCode: 'CIB', bankName: '兴业银行' }],
+])
+
+/**
+ * Luhn 校验
+ */
+function luhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * 按卡号前缀识别卡组织
+ */
+function detectNetwork(cardNumber: string): CardNetwork | undefined {
+  const prefix = Number(cardNumber.slice(0, 4))
+
+  if (cardNumber.startsWith('62')) {
+    return 'UnionPay'
+  }
+  if (cardNumber.startsWith('4')) {
+    return 'Visa'
+  }
+  if ((prefix >= 5100 && prefix <= 5599) || (prefix >= 2221 && prefix <= 2720)) {
+    return 'Mastercard'
+  }
+  if (cardNumber.startsWith('35')) {
+    return 'JCB'
+  }
+  if (cardNumber.startsWith('34') || cardNumber.startsWith('37')) {
+    return 'AmericanExpress'
+  }
+  return undefined
+}
+
+/**
+ * 登记（或覆盖）发卡行识别码
+ *
+ * @param bin 发卡行识别码（卡号前 6 位）
+ * @param issuer 发卡行信息
+ *
+ * @example
+ * ```typescript
+ * registerBankBin('623058', { bankCode: 'PAB', bankName: '平安银行' })
+ * ```
+ */
+export function registerBankBin(bin: string, issuer: BankIssuer): void {
+  BANK_BINS.set(bin, issuer)
+}
+
+/**
+ * 查询银行卡信息
+ * @param cardNumber 银行卡号（可包含空格和连字符）
+ * @returns 银行卡信息（发卡行未登记时不含 bankCode 和 bankName）
+ *
+ * @example
+ * ```typescript
+ * lookupBankCard('6222 0200 0000 0000 000')
+ * // { bin: '622202', network: 'UnionPay', bankCode: 'ICBC', bankName: '中国工商银行' }
+ * ```
+ */
+export function lookupBankCard(cardNumber: string): BankCardInfo {
+  const digits = cardNumber.replace(/[\s-]/g, '')
+  const bin = digits.slice(0, 6)
+
+  return { bin, network: detectNetwork(digits), ...BANK_BINS.get(bin) }
+}
+
+/**
+ * 统一社会信用代码验证
+ * 18 位：登记管理部门代码 + 机构类别代码 + 6 位行政区划码 + 9 位主体标识码 + 校验码（GB 32100-2015）
+ */
+export const uscc: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const code = value.trim().toUpperCase()
+
+  if (!/^[1-9A-HNY][1-9]\d{6}[\dA-HJ-NPQRTUWXY]{10}$/.test(code)) {
+    return {
+      valid: false,
+      message: t('INVALID_USCC', undefined, context?.locale),
+      code: 'INVALID_USCC',
+    }
+  }
+
+  const sum = USCC_WEIGHTS.reduce((total, weight, index) => total + USCC_CHARSET.indexOf(code[index]) * weight, 0)
+  const valid = code[17] === USCC_CHARSET[(31 - (sum % 31)) % 31]
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_USCC_CHECK', undefined, context?.locale),
+    code: 'INVALID_USCC_CHECK',
+    meta: valid ? { regionCode: code.slice(2, 8) } : undefined,
+  }
+}
+
+/**
+ * 银行卡号验证
+ * 12-19 位数字（允许空格和连字符分隔），默认进行 Luhn 校验；meta 包含发卡行识别码、卡组织和已登记的发卡行
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.bankCard() })
+ *
+ * const result = await validator.validate('6222 0200 0000 0000 000')
+ * result.meta?.bankName // '中国工商银行'
+ * ```
+ */
+export function bankCard(options: BankCardOptions = {}): ValidatorFunction<string> {
+  const { luhn: checkLuhn = true, knownIssuer = false, message } = options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const digits = value.replace(/[\s-]/g, '')
+
+    if (!/^\d{12,19}$/.test(digits)) {
+      return {
+        valid: false,
+        message: message || t('INVALID_BANK_CARD', undefined, context?.locale),
+        code: 'INVALID_BANK_CARD',
+      }
+    }
+
+    const info = lookupBankCard(digits)
+
+    if (checkLuhn && !luhn(digits)) {
+      return {
+        valid: false,
+        message: message || t('INVALID_BANK_CARD_CHECK', undefined, context?.locale),
+        code: 'INVALID_BANK_CARD_CHECK',
+        meta: { ...info },
+      }
+    }
+
+    if (knownIssuer && !info.bankCode) {
+      return {
+        valid: false,
+        message: message || t('UNKNOWN_BANK_CARD_ISSUER', undefined, context?.locale),
+        code: 'UNKNOWN_BANK_CARD_ISSUER',
+        meta: { ...info },
+      }
+    }
+
+    return { valid: true, meta: { ...info } }
+  }
+}
+
+/**
+ * 机动车号牌验证
+ * 支持普通号牌（含挂、学、警、港、澳）和新能源号牌（小型车第 3 位为字母，大型车末位为字母）；
+ * meta 包含省份简称和号牌类型（regular 或 newEnergy）
+ */
+export const licensePlate: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const plate = value.replace(/[\s·•-]/g, '').toUpperCase()
+  const match = PLATE_PATTERN.exec(plate)
+
+  return {
+    valid: !!match,
+    message: match ? undefined : t('INVALID_LICENSE_PLATE', undefined, context?.locale),
+    code: 'INVALID_LICENSE_PLATE',
+    meta: match ? { province: match[1], type: match[2] ? 'newEnergy' : 'regular' } : undefined,
+  }
+}
+
+/**
+ * 中国护照号码验证
+ * 普通电子护照为 E + 8 位（第 2 位可为字母），旧版普通护照为 G + 8 位数字，公务/外交护照为 P、S、D + 8 位数字
+ */
+export const passport: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const valid = /^(?:E[\dA-HJ-NP-Z]\d{7}|[DGPS]\d{8})$/.test(value.trim().toUpperCase())
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_PASSPORT', undefined, context?.locale),
+    code: 'INVALID_PASSPORT',
+  }
+}
+
+/**
+ * 港澳通行证验证
+ * 支持往来港澳通行证（C + 8 位，第 2 位可为字母）和港澳居民来往内地通行证（H/M + 8 位或 10 位数字）；
+ * meta 中 type 为 exitEntry（往来港澳通行证）或 homeReturn（港澳居民来往内地通行证）
+ */
+export const hkMacauPermit: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const permit = value.trim().toUpperCase()
+  const type = /^C[\dA-HJ-NP-Z]\d{7}$/.test(permit)
+    ? 'exitEntry'
+    : /^[HM]\d{8}(?:\d{2})?$/.test(permit) ? 'homeReturn' : undefined
+
+  return {
+    valid: !!type,
+    message: type ? undefined : t('INVALID_HK_MACAU_PERMIT', undefined, context?.locale),
+    code: 'INVALID_HK_MACAU_PERMIT',
+    meta: type ? { type } : undefined,
+  }
+}
@@ -0,0 +1,569 @@
+/**
+ * Cron 表达式规则
+ * 解析标准 Cron（5 段或带秒的 6 段）和 Quartz Cron（6 段或带年的 7 段）表达式，
+ * 验证各字段的取值范围、名称（JAN、MON）、步长、宏（@daily）和 Quartz 的 L/W/# 扩展，并计算接下来的执行时间
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * Cron 解析选项
+ */
+export interface CronParseOptions {
+  /**
+   * 是否按 Quartz 语法解析（秒 分 时 日 月 周 [年]，星期 1-7 表示周日到周六，支持 ?、L、W、#）
+   * @default false
+   */
+  quartz?: boolean
+}
+
+/**
+ * Cron 验证选项
+ */
+export interface CronOptions extends CronParseOptions {
+  /**
+   * 在 meta.nextRuns 中返回接下来的执行时间数量
+   * @default 5
+   */
+  preview?: number
+
+  /**
+   * 计算执行时间的起点（默认为当前时间）
+   */
+  from?: Date | (() => Date)
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 解析后的 Cron 日程（时间均按本地时区）
+ */
+export interface CronSchedule {
+  /** 秒（标准 5 段表达式为 [0]） */
+  seconds: number[]
+
+  /** 分 */
+  minutes: number[]
+
+  /** 时 */
+  hours: number[]
+
+  /** 日（1-31） */
+  daysOfMonth: number[]
+
+  /** 月（1-12） */
+  months: number[]
+
+  /** 星期（0-6，0 为周日） */
+  daysOfWeek: number[]
+
+  /** 年（仅 Quartz 7 段表达式） */
+  years?: number[]
+
+  /** 日字段是否受限（为 * 或 ? 时不受限） */
+  dayOfMonthRestricted: boolean
+
+  /** 星期字段是否受限（为 * 或 ? 时不受限） */
+  dayOfWeekRestricted: boolean
+
+  /** 月末前第 N 天（L 为 0，L-3 为 3） */
+  lastDayOffset?: number
+
+  /** 是否为月末最后一个工作日（LW） */
+  lastWeekday?: boolean
+
+  /** 离指定日期最近的工作日（15W） */
+  nearestWeekday?: number
+
+  /** 当月最后一个星期几（5L） */
+  lastDayOfWeek?: number
+
+  /** 当月第 N 个星期几（6#3 为 [5, 3]） */
+  nthDayOfWeek?: [number, number]
+}
+
+/**
+ * Cron 表达式解析错误
+ */
+export class CronParseError extends Error {
+  /** 错误消息的键 */
+  readonly code: string
+
+  /** 出错字段的位置（从 1 开始） */
+  readonly position?: number
+
+  /** 出错的片段 */
+  readonly token?: string
+
+  /**
+   * 构造函数
+   * @param code 错误消息的键
+   * @param position 出错字段的位置
+   * @param token 出错的片段
+   */
+  constructor(code: string, position?: number, token?: string) {
+    super(position ? `Invalid cron field ${position}: "${token}"` : `Invalid cron expression (${code})`)
+    this.name = 'CronParseError'
+    this.code = code
+    this.position = position
+    this.token = token
+  }
+}
+
+/**
+ * 字段定义
+ */
+interface FieldSpec {
+  min: number
+  max: number
+  names?: string[]
+  /** 名称对应的第一个值 */
+  nameOffset?: number
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const SECOND: FieldSpec = { min: 0, max: 59 }
+const MINUTE: FieldSpec = { min: 0, max: 59 }
+const HOUR: FieldSpec = { min: 0, max: 23 }
+const DAY_OF_MONTH: FieldSpec = { min: 1, max: 31 }
+const MONTH: FieldSpec = { min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 }
+const YEAR: FieldSpec = { min: 1970, max: 2099 }
+
+/** 标准 Cron 的星期：0-7，0 和 7 都表示周日 */
+const DAY_OF_WEEK: FieldSpec = { min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+
+/** Quartz 的星期：1-7，1 表示周日 */
+const QUARTZ_DAY_OF_WEEK: FieldSpec = { min: 1, max: 7, names: DAY_NAMES, nameOffset: 1 }
+
+/**
+ * 预定义宏
+ */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+/**
+ * 查找下一次执行时间时最多检查的天数（覆盖闰日与星期的完整组合周期）
+ */
+const MAX_SEARCH_DAYS = 366 * 28
+
+/**
+ * 解析单个值（数字或名称）
+ */
+function parseValue(token: string, spec: FieldSpec, position: number): number {
+  const upper = token.toUpperCase()
+  const nameIndex = spec.names?.indexOf(upper) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + spec.nameOffset! : /^\d+$/.test(token) ? Number(token) : Number.NaN
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronParseError('INVALID_CRON_FIELD', position, token)
+  }
+  return value
+}
+
+/**
+ * 解析字段（逗号分隔的值、范围和步长），返回排序去重后的取值
+ */
+function parseField(field: string, spec: FieldSpec, position: number): number[] {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const match = /^([^/]+)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new CronParseError('INVALID_CRON_FIELD', position, part)
+    }
+
+    const [, range, stepToken] = match
+    const step = stepToken === undefined ? 1 : Number(stepToken)
+    let start: number
+    let end: number
+
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    }
+    else if (range.includes('-')) {
+      const bounds = range.split('-')
+      if (bounds.length !== 2) {
+        throw new CronParseError('INVALID_CRON_FIELD', position, part)
+      }
+
+      const [from, to] = bounds
+      start = parseValue(from, spec, position)
+      end = parseValue(to, spec, position)
+    }
+    else {
+      start = parseValue(range, spec, position)
+      // a/n 表示从 a 开始到最大值，每隔 n
+      end = stepToken === undefined ? start : spec.max
+    }
+
+    if (step < 1 || start > end) {
+      throw new CronParseError('INVALID_CRON_FIELD', position, part)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b)
+}
+
+/**
+ * 解析 Quartz 日字段的 L、L-n、LW、nW 扩展，返回 false 表示不是扩展语法
+ */
+function parseQuartzDayOfMonth(field: string, schedule: CronSchedule, position: number): boolean {
+  const upper = field.toUpperCase()
+  const last = /^L(?:-(\d+))?$/.exec(upper)
+  const nearest = /^(\d+)W$/.exec(upper)
+
+  if (upper === 'LW') {
+    schedule.lastWeekday = true
+  }
+  else if (last) {
+    const offset = Number(last[1] ?? 0)
+    if (offset > 30) {
+      throw new CronParseError('INVALID_CRON_FIELD', position, field)
+    }
+    schedule.lastDayOffset = offset
+  }
+  else if (nearest) {
+    schedule.nearestWeekday = parseValue(nearest[1], DAY_OF_MONTH, position)
+  }
+  else {
+    return false
+  }
+  return true
+}
+
+/**
+ * 解析 Quartz 星期字段的 L、nL、n#k 扩展，返回 false 表示不是扩展语法
+ */
+function parseQuartzDayOfWeek(field: string, schedule: CronSchedule, position: number): boolean {
+  const upper = field.toUpperCase()
+  const last = /^(\w+)L$/.exec(upper)
+  const nth = /^(\w+)#([1-5])$/.exec(upper)
+
+  if (upper === 'L') {
+    // 单独的 L 表示周六
+    schedule.daysOfWeek = [6]
+  }
+  else if (last) {
+    schedule.lastDayOfWeek = parseValue(last[1], QUARTZ_DAY_OF_WEEK, position) - 1
+  }
+  else if (nth) {
+    schedule.nthDayOfWeek = [parseValue(nth[1], QUARTZ_DAY_OF_WEEK, position) - 1, Number(nth[2])]
+  }
+  else {
+    return false
+  }
+  return true
+}
+
+/**
+ * 解析 Cron 表达式
+ *
+ * @param expression Cron 表达式或宏（@yearly、@monthly、@weekly、@daily、@hourly 等）
+ * @param options 解析选项
+ * @returns 解析后的日程
+ * @throws {CronParseError} 表达式无效时抛出
+ *
+ * @example
+ * ```typescript
+ * parseCron('*\/15 9-17 * * MON-FRI').minutes // [0, 15, 30, 45]
+ * parseCron('0 0 12 ? * 6#3', { quartz: true }).nthDayOfWeek // [5, 3]（每月第三个周五）
+ * ```
+ */
+export function parseCron(expression: string, options: CronParseOptions = {}): CronSchedule {
+  const trimmed = expression.trim()
+  const quartz = options.quartz ?? false
+
+  if (trimmed.startsWith('@')) {
+    const macro = MACROS[trimmed.toLowerCase()]
+    if (!macro) {
+      throw new CronParseError('INVALID_CRON_MACRO', undefined, trimmed)
+    }
+    return parseCron(macro)
+  }
+
+  const parts = trimmed.split(/\s+/)
+  const valid = quartz ? parts.length === 6 || parts.length === 7 : parts.length === 5 || parts.length === 6
+
+  if (!valid) {
+    throw new CronParseError(quartz ? 'INVALID_CRON_QUARTZ_SEGMENTS' : 'INVALID_CRON_SEGMENTS')
+  }
+
+  // 标准 5 段表达式没有秒字段，位置从分开始计数
+  const fields = !quartz && parts.length === 5 ? ['0', ...parts] : parts
+  const offset = fields.length - parts.length
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek, year] = fields
+
+  if (quartz && (dayOfMonth === '?') === (dayOfWeek === '?')) {
+    throw new CronParseError('INVALID_CRON_QUARTZ_DAY')
+  }
+
+  const schedule: CronSchedule = {
+    seconds: parseField(second, SECOND, 1 - offset),
+    minutes: parseField(minute, MINUTE, 2 - offset),
+    hours: parseField(hour, HOUR, 3 - offset),
+    daysOfMonth: [],
+    months: parseField(month, MONTH, 5 - offset),
+    daysOfWeek: [],
+    // Vixie cron：以 * 开头的日/星期字段视为不受限
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*') && dayOfMonth !== '?',
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*') && dayOfWeek !== '?',
+  }
+
+  if (dayOfMonth === '?' && !quartz) {
+    throw new CronParseError('INVALID_CRON_FIELD', 4 - offset, dayOfMonth)
+  }
+  if (dayOfMonth !== '?' && !(quartz && parseQuartzDayOfMonth(dayOfMonth, schedule, 4 - offset))) {
+    schedule.daysOfMonth = parseField(dayOfMonth, DAY_OF_MONTH, 4 - offset)
+  }
+
+  if (dayOfWeek === '?' && !quartz) {
+    throw new CronParseError('INVALID_CRON_FIELD', 6 - offset, dayOfWeek)
+  }
+  if (dayOfWeek !== '?' && !(quartz && parseQuartzDayOfWeek(dayOfWeek, schedule, 6 - offset))) {
+    const days = parseField(dayOfWeek, quartz ? QUARTZ_DAY_OF_WEEK : DAY_OF_WEEK, 6 - offset)
+    // 统一为 0-6（0 为周日）
+    schedule.daysOfWeek = Array.from(new Set(days.map(day => quartz ? day - 1 : day % 7))).sort((a, b) => a - b)
+  }
+
+  if (year !== undefined) {
+    schedule.years = parseField(year, YEAR, 7)
+  }
+
+  return schedule
+}
+
+/**
+ * 判断某一天的日字段是否匹配
+ */
+function matchesDayOfMonth(schedule: CronSchedule, date: Date): boolean {
+  const day = date.getDate()
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  const weekday = date.getDay()
+
+  if (schedule.lastDayOffset !== undefined) {
+    return day === lastDay - schedule.lastDayOffset
+  }
+
+  if (schedule.lastWeekday) {
+    // 月末为周六、周日时提前到周五
+    const lastWeekDay = new Date(date.getFullYear(), date.getMonth(), lastDay).getDay()
+    const target = lastWeekDay === 6 ? lastDay - 1 : lastWeekDay === 0 ? lastDay - 2 : lastDay
+    return day === target
+  }
+
+  if (schedule.nearestWeekday !== undefined) {
+    // 离指定日期最近的工作日，不跨月
+    const nominal = Math.min(schedule.nearestWeekday, lastDay)
+    const nominalDay = new Date(date.getFullYear(), date.getMonth(), nominal).getDay()
+    let target = nominal
+    if (nominalDay === 6) {
+      target = nominal === 1 ? 3 : nominal - 1
+    }
+    else if (nominalDay === 0) {
+      target = nominal === lastDay ? nominal - 2 : nominal + 1
+    }
+    return day === target && weekday >= 1 && weekday <= 5
+  }
+
+  return schedule.daysOfMonth.includes(day)
+}
+
+/**
+ * 判断某一天的星期字段是否匹配
+ */
+function matchesDayOfWeek(schedule: CronSchedule, date: Date): boolean {
+  const weekday = date.getDay()
+  const day = date.getDate()
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+
+  if (schedule.lastDayOfWeek !== undefined) {
+    return weekday === schedule.lastDayOfWeek && day + 7 > lastDay
+  }
+
+  if (schedule.nthDayOfWeek) {
+    const [target, nth] = schedule.nthDayOfWeek
+    return weekday === target && Math.ceil(day / 7) === nth
+  }
+
+  return schedule.daysOfWeek.includes(weekday)
+}
+
+/**
+ * 判断某一天是否匹配日程的年、月、日和星期
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (schedule.years && !schedule.years.includes(date.getFullYear())) {
+    return false
+  }
+  if (!schedule.months.includes(date.getMonth() + 1)) {
+    return false
+  }
+
+  const { dayOfMonthRestricted, dayOfWeekRestricted } = schedule
+
+  if (dayOfMonthRestricted && dayOfWeekRestricted) {
+    // 日和星期都受限时满足其一即可（Vixie cron 语义）
+    return matchesDayOfMonth(schedule, date) || matchesDayOfWeek(schedule, date)
+  }
+  if (dayOfMonthRestricted) {
+    return matchesDayOfMonth(schedule, date)
+  }
+  if (dayOfWeekRestricted) {
+    return matchesDayOfWeek(schedule, date)
+  }
+  return true
+}
+
+/**
+ * 查找不早于 after 的第一个执行时间
+ */
+function findNextRun(schedule: CronSchedule, after: Date): Date | null {
+  const lastYear = schedule.years?.[schedule.years.length - 1]
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(after.getFullYear(), after.getMonth(), after.getDate() + offset)
+
+    if (lastYear !== undefined && day.getFullYear() > lastYear) {
+      return null
+    }
+    if (!matchesDay(schedule, day)) {
+      continue
+    }
+
+    // 起点当天跳过已经过去的小时和分钟
+    const sameDay = offset === 0
+    const afterHour = after.getHours()
+    const afterMinute = after.getMinutes()
+
+    for (const hour of schedule.hours) {
+      if (sameDay && hour < afterHour) {
+        continue
+      }
+      for (const minute of schedule.minutes) {
+        if (sameDay && hour === afterHour && minute < afterMinute) {
+          continue
+        }
+        for (const second of schedule.seconds) {
+          const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute, second)
+
+          // 跳过早于起点的时间和夏令时切换中不存在的时间
+          if (run >= after && run.getHours() === hour) {
+            return run
+          }
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * 计算接下来的执行时间
+ *
+ * @param expression Cron 表达式或解析后的日程
+ * @param count 数量
+ * @param from 起点（不包含），默认为当前时间
+ * @param options 解析选项（expression 为字符串时使用）
+ * @returns 执行时间（永远不会执行或超出年份范围时少于 count 个）
+ *
+ * @example
+ * ```typescript
+ * getNextCronRuns('0 9 * * MON-FRI', 3, new Date('2024-01-05T12:00:00'))
+ * // [2024-01-08 09:00, 2024-01-09 09:00, 2024-01-10 09:00]
+ * ```
+ */
+export function getNextCronRuns(
+  expression: string | CronSchedule,
+  count: number,
+  from: Date = new Date(),
+  options?: CronParseOptions,
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression, options) : expression
+  const runs: Date[] = []
+  let after = new Date(Math.floor(from.getTime() / 1000) * 1000 + 1000)
+
+  while (runs.length < count) {
+    const run = findNextRun(schedule, after)
+    if (!run) {
+      break
+    }
+    runs.push(run)
+    after = new Date(run.getTime() + 1000)
+  }
+
+  return runs
+}
+
+/**
+ * Cron 表达式验证
+ * 验证通过时 meta.nextRuns 包含接下来的执行时间，可用于预览；永远不会执行的表达式（如 2 月 30 日）验证失败
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.cronExpression({ quartz: true, preview: 3 }) })
+ *
+ * const result = await validator.validate('0 0 12 ? * 6#3')
+ * result.meta?.nextRuns // 接下来 3 个月第三个周五的 12:00
+ * ```
+ */
+export function cronExpression(options: CronOptions = {}): ValidatorFunction<string> {
+  const { preview = 5, from, message } = options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    let schedule: CronSchedule
+
+    try {
+      schedule = parseCron(value, options)
+    }
+    catch (error) {
+      const { code, position, token } = error as CronParseError
+      return {
+        valid: false,
+        message: message || t(code, { position, token, macro: token }, locale),
+        code,
+        meta: { position, token },
+      }
+    }
+
+    const start = typeof from === 'function' ? from() : from
+    const nextRuns = getNextCronRuns(schedule, Math.max(preview, 1), start)
+
+    if (nextRuns.length === 0) {
+      return {
+        valid: false,
+        message: message || t('CRON_NEVER_RUNS', undefined, locale),
+        code: 'CRON_NEVER_RUNS',
+      }
+    }
+
+    return { valid: true, meta: { nextRuns: nextRuns.slice(0, preview) } }
+  }
+}
@@ -1,9 +1,13 @@
 /**
  * 跨字段验证规则
  * 用于验证字段之间的关系和依赖
+ * 每个规则都通过 dependencies 声明它读取的字段，供字段依赖图计算需要重新验证的字段
  */
 
-import type { ValidatorFunction, ValidationContext } from '../types'
+import type { DependentValidatorFunction, ValidationContext, ValidationResult } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { withDependencies } from '../utils/dependencies'
+import { postalCode } from './postal-code'
 
 /**
  * 从上下文中获取字段值
@@ -51,18 +55,18 @@ function getFieldValue(fieldPath: string, context?: ValidationContext): any {
  * })
  * ```
  */
-export function matchField(fieldPath: string, message?: string): ValidatorFunction {
-  return (value, context) => {
+export function matchField(fieldPath: string, message?: string): DependentValidatorFunction {
+  return withDependencies((value, context) => {
     const compareValue = getFieldValue(fieldPath, context)
     const valid = value === compareValue
 
     return {
       valid,
-      message: valid ? undefined : message || `必须与字段 "${fieldPath}" 的值相同`,
+      message: valid ? undefined : message || t('FIELD_MISMATCH', { field: fieldPath }, context?.locale),
       code: 'FIELD_MISMATCH',
       meta: { fieldPath, compareValue },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -99,8 +103,8 @@ export function greaterThan(
      */
     message?: string
   }
-): ValidatorFunction<number | Date> {
-  return (value, context) => {
+): DependentValidatorFunction<number | Date> {
+  return withDependencies((value, context) => {
     const compareValue = getFieldValue(fieldPath, context)
 
     // 如果比较值不存在，跳过验证
@@ -116,7 +120,7 @@ export function greaterThan(
     if (Number.isNaN(numValue) || Number.isNaN(numCompare)) {
       return {
         valid: false,
-        message: '值必须是数字或日期',
+        message: t('INVALID_TYPE', undefined, context?.locale),
         code: 'INVALID_TYPE',
       }
     }
@@ -126,11 +130,11 @@ export function greaterThan(
 
     return {
       valid,
-      message: valid ? undefined : options?.message || `必须${operator}字段 "${fieldPath}" 的值`,
+      message: valid ? undefined : options?.message || t('NOT_GREATER_THAN', { operator, field: fieldPath }, context?.locale),
       code: 'NOT_GREATER_THAN',
       meta: { fieldPath, compareValue, operator },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -160,8 +164,8 @@ export function lessThan(
      */
     message?: string
   }
-): ValidatorFunction<number | Date> {
-  return (value, context) => {
+): DependentValidatorFunction<number | Date> {
+  return withDependencies((value, context) => {
     const compareValue = getFieldValue(fieldPath, context)
 
     // 如果比较值不存在，跳过验证
@@ -177,7 +181,7 @@ export function lessThan(
     if (Number.isNaN(numValue) || Number.isNaN(numCompare)) {
       return {
         valid: false,
-        message: '值必须是数字或日期',
+        message: t('INVALID_TYPE', undefined, context?.locale),
         code: 'INVALID_TYPE',
       }
     }
@@ -187,11 +191,11 @@ export function lessThan(
 
     return {
       valid,
-      message: valid ? undefined : options?.message || `必须${operator}字段 "${fieldPath}" 的值`,
+      message: valid ? undefined : options?.message || t('NOT_LESS_THAN', { operator, field: fieldPath }, context?.locale),
       code: 'NOT_LESS_THAN',
       meta: { fieldPath, compareValue, operator },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -221,8 +225,8 @@ export function afterDate(
      */
     message?: string
   }
-): ValidatorFunction<string | Date> {
-  return (value, context) => {
+): DependentValidatorFunction<string | Date> {
+  return withDependencies((value, context) => {
     const compareValue = getFieldValue(fieldPath, context)
 
     // 如果比较值不存在，跳过验证
@@ -238,7 +242,7 @@ export function afterDate(
     if (Number.isNaN(date1.getTime()) || Number.isNaN(date2.getTime())) {
       return {
         valid: false,
-        message: '必须是有效的日期',
+        message: t('INVALID_DATE', undefined, context?.locale),
         code: 'INVALID_DATE',
       }
     }
@@ -249,11 +253,11 @@ export function afterDate(
 
     return {
       valid,
-      message: valid ? undefined : options?.message || `日期必须晚于 "${fieldPath}"`,
+      message: valid ? undefined : options?.message || t('DATE_NOT_AFTER', { field: fieldPath }, context?.locale),
       code: 'DATE_NOT_AFTER',
       meta: { fieldPath, compareValue },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -283,8 +287,8 @@ export function beforeDate(
      */
     message?: string
   }
-): ValidatorFunction<string | Date> {
-  return (value, context) => {
+): DependentValidatorFunction<string | Date> {
+  return withDependencies((value, context) => {
     const compareValue = getFieldValue(fieldPath, context)
 
     // 如果比较值不存在，跳过验证
@@ -300,7 +304,7 @@ export function beforeDate(
     if (Number.isNaN(date1.getTime()) || Number.isNaN(date2.getTime())) {
       return {
         valid: false,
-        message: '必须是有效的日期',
+        message: t('INVALID_DATE', undefined, context?.locale),
         code: 'INVALID_DATE',
       }
     }
@@ -311,11 +315,11 @@ export function beforeDate(
 
     return {
       valid,
-      message: valid ? undefined : options?.message || `日期必须早于 "${fieldPath}"`,
+      message: valid ? undefined : options?.message || t('DATE_NOT_BEFORE', { field: fieldPath }, context?.locale),
       code: 'DATE_NOT_BEFORE',
       meta: { fieldPath, compareValue },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -332,8 +336,8 @@ export function beforeDate(
  *   .rule({ validator: rules.requiredIf('country', '选择了国家时，必须选择城市') })
  * ```
  */
-export function requiredIf(fieldPath: string, message?: string): ValidatorFunction {
-  return (value, context) => {
+export function requiredIf(fieldPath: string, message?: string): DependentValidatorFunction {
+  return withDependencies((value, context) => {
     const dependValue = getFieldValue(fieldPath, context)
 
     // 如果依赖字段没有值，当前字段不是必需的
@@ -346,11 +350,11 @@ export function requiredIf(fieldPath: string, message?: string): ValidatorFuncti
 
     return {
       valid,
-      message: valid ? undefined : message || `当 "${fieldPath}" 有值时，此字段为必填项`,
+      message: valid ? undefined : message || t('REQUIRED_IF', { field: fieldPath, label: context?.label }, context?.locale),
       code: 'REQUIRED_IF',
       meta: { fieldPath, dependValue },
     }
-  }
+  }, [fieldPath])
 }
 
 /**
@@ -367,8 +371,8 @@ export function requiredIf(fieldPath: string, message?: string): ValidatorFuncti
  *   .rule({ validator: rules.excludesWith('phone', '邮箱和手机号只能填写一个') })
  * ```
  */
-export function excludesWith(fieldPath: string, message?: string): ValidatorFunction {
-  return (value, context) => {
+export function excludesWith(fieldPath: string, message?: string): DependentValidatorFunction {
+  return withDependencies((value, context) => {
     // 当前字段没有值，不需要检查
     const hasValue = value !== null && value !== undefined && value !== ''
     if (!hasValue) {
@@ -382,13 +386,40 @@ export function excludesWith(fieldPath: string, message?: string): ValidatorFunc
 
     return {
       valid,
-      message: valid ? undefined : message || `不能与字段 "${fieldPath}" 同时存在`,
+      message: valid ? undefined : message || t('FIELD_EXCLUDES', { field: fieldPath }, context?.locale),
       code: 'FIELD_EXCLUDES',
       meta: { fieldPath, excludeValue },
     }
-  }
+  }, [fieldPath])
 }
 
+/**
+ * 按国家字段验证邮政编码
+ * 从 formData 中读取国家/地区代码，按该国家的格式验证当前字段；国家字段为空时不验证
+ *
+ * @param fieldPath 国家字段路径
+ * @param message 自定义错误消息
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   country: { type: 'string', required: true },
+ *   zip: { type: 'string', validator: rules.countryPostalCode('country') },
+ * }
+ *
+ * // { country: 'US', zip: '94105' } 通过，{ country: 'GB', zip: '94105' } 失败
+ * ```
+ */
+export function countryPostalCode(fieldPath = 'country', message?: string): DependentValidatorFunction {
+  return withDependencies((value, context) => {
+    const country = getFieldValue(fieldPath, context)
 
+    if (!country || typeof country !== 'string') {
+      return { valid: true }
+    }
 
-
+    const result = postalCode(country, message)(value, context) as ValidationResult
+    return result.valid ? result : { ...result, meta: { ...result.meta, fieldPath } }
+  }, [fieldPath])
+}
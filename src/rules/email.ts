@@ -0,0 +1,431 @@
+/**
+ * 邮箱地址规则
+ * 支持严格、RFC 5322 和 HTML5 三种验证模式，国际化域名（IDN）和国际化本地部分（EAI），
+ * RFC 长度限制、域名白名单/黑名单、一次性邮箱检测，以及邮箱地址规范化
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { parseIp } from './ip'
+
+/**
+ * 邮箱验证模式
+ * - strict: 本地部分为 dot-atom，域名至少两级且顶级域为字母或 punycode（默认）
+ * - rfc5322: 允许带引号的本地部分、单级域名和地址字面量（如 user@[192.168.0.1]）
+ * - html5: 与浏览器 input[type=email] 一致（WHATWG 规范）
+ */
+export type EmailMode = 'html5' | 'rfc5322' | 'strict'
+
+/**
+ * 邮箱验证选项
+ */
+export interface EmailOptions {
+  /**
+   * 验证模式
+   * @default 'strict'
+   */
+  mode?: EmailMode
+
+  /**
+   * 是否允许国际化域名（如 用户@例子.中国 的域名部分），验证前转换为 punycode
+   * @default true
+   */
+  allowIdn?: boolean
+
+  /**
+   * 是否允许本地部分包含非 ASCII 字符（EAI，RFC 6531）
+   * @default false
+   */
+  allowUnicodeLocal?: boolean
+
+  /**
+   * 只允许这些域名（含其子域名）
+   */
+  allowDomains?: string[]
+
+  /**
+   * 拒绝这些域名（含其子域名）
+   */
+  denyDomains?: string[]
+
+  /**
+   * 是否允许一次性邮箱域名（见 registerDisposableDomains）
+   * @default true
+   */
+  allowDisposable?: boolean
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 邮箱规范化选项
+ */
+export interface NormalizeEmailOptions {
+  /**
+   * 是否将整个地址转为小写，为 false 时只转换域名
+   * @default true
+   */
+  lowercase?: boolean
+
+  /**
+   * 是否按 Gmail 规则规范化：移除本地部分的点和 + 后缀，googlemail.com 转为 gmail.com
+   * @default false
+   */
+  gmail?: boolean
+
+  /**
+   * 是否移除所有域名的 + 子地址后缀（如 user+news@example.com）
+   * @default false
+   */
+  subaddress?: boolean
+
+  /**
+   * 是否将国际化域名转换为 punycode
+   * @default false
+   */
+  punycode?: boolean
+}
+
+/**
+ * 邮箱地址各部分
+ */
+export interface EmailAddress {
+  /** 本地部分 */
+  local: string
+
+  /** 域名（保持原样） */
+  domain: string
+
+  /** ASCII（punycode）形式的小写域名，地址字面量保持原样 */
+  asciiDomain: string
+}
+
+/**
+ * RFC 5321 长度限制：本地部分 64 字节，域名 253 字符，整个地址 254 字节
+ */
+const MAX_LOCAL_LENGTH = 64
+const MAX_DOMAIN_LENGTH = 253
+const MAX_EMAIL_LENGTH = 254
+
+const DOT_ATOM = /^[\w!#$%&'*+/=?^`{|}~-]+(?:\.[\w!#$%&'*+/=?^`{|}~-]+)*$/
+const DOT_ATOM_UNICODE = /^[\w!#$%&'*+/=?^`{|}~\-\u{80}-\u{10FFFF}]+(?:\.[\w!#$%&'*+/=?^`{|}~\-\u{80}-\u{10FFFF}]+)*$/u
+const QUOTED_STRING = /^"(?:[\x20\x21\x23-\x5B\x5D-\x7E]|\\[\x20-\x7E])*"$/
+const QUOTED_STRING_UNICODE = /^"(?:[\x20\x21\x23-\x5B\x5D-\x7E\u{80}-\u{10FFFF}]|\\[\x20-\x7E])*"$/u
+const HTML5_LOCAL = /^[\w.!#$%&'*+/=?^`{|}~-]+$/
+const DOMAIN_LABEL = /^[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?$/
+const TOP_LEVEL_DOMAIN = /^(?:[a-z]{2,63}|xn--[a-z\d-]{1,59})$/
+
+/**
+ * 一次性邮箱域名
+ */
+const DISPOSABLE_DOMAINS = new Set<string>([
+  '10minutemail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'linshiyouxiang.net',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+  'yopmail.fr',
+])
+
+/**
+ * 按最后一个 @ 拆分本地部分和域名（带引号的本地部分可以包含 @）
+ */
+function splitEmail(value: string): [string, string] | null {
+  const index = value.lastIndexOf('@')
+  return index > 0 && index < value.length - 1 ? [value.slice(0, index), value.slice(index + 1)] : null
+}
+
+/**
+ * UTF-8 字节长度
+ */
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length
+}
+
+/**
+ * 是否为有效的地址字面量（[IPv4] 或 [IPv6:...]）
+ */
+function isAddressLiteral(domain: string): boolean {
+  const address = domain.slice(1, -1)
+  const ipv6 = /^IPv6:/i.test(address)
+  const parsed = parseIp(ipv6 ? address.slice(5) : address)
+
+  return !!parsed && parsed.version === (ipv6 ? 6 : 4)
+}
+
+/**
+ * 域名是否命中列表（含子域名）
+ */
+function matchesDomain(asciiDomain: string, domains: string[]): boolean {
+  return domains.some((entry) => {
+    const target = toAsciiDomain(entry)
+    return !!target && (asciiDomain === target || asciiDomain.endsWith(`.${target}`))
+  })
+}
+
+/**
+ * 是否只包含 ASCII 字符
+ */
+function isAscii(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) >= 0x80) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * 将域名转换为小写的 ASCII（punycode）形式
+ *
+ * @param domain 域名
+ * @returns ASCII 域名，无法转换时返回 null
+ *
+ * @example
+ * ```typescript
+ * toAsciiDomain('例子.中国') // 'xn--fsqu00a.xn--fiqs8s'
+ * toAsciiDomain('Example.COM') // 'example.com'
+ * ```
+ */
+export function toAsciiDomain(domain: string): string | null {
+  if (isAscii(domain)) {
+    return domain.toLowerCase()
+  }
+  // 避免 URL 解析器把路径、端口等部分当作域名的一部分
+  if (/[\s/?#@:[\]\\%]/.test(domain)) {
+    return null
+  }
+
+  try {
+    return new URL(`http://${domain}`).hostname
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * 注册一次性邮箱域名
+ *
+ * @param domains 域名
+ *
+ * @example
+ * ```typescript
+ * registerDisposableDomains('tempmail.example', 'throwaway.example')
+ * ```
+ */
+export function registerDisposableDomains(...domains: string[]): void {
+  for (const domain of domains) {
+    const ascii = toAsciiDomain(domain)
+    if (ascii) {
+      DISPOSABLE_DOMAINS.add(ascii)
+    }
+  }
+}
+
+/**
+ * 是否为一次性邮箱域名（含其子域名）
+ * @param domain 域名
+ * @returns 是否为一次性邮箱域名
+ */
+export function isDisposableEmailDomain(domain: string): boolean {
+  const ascii = toAsciiDomain(domain)
+  if (!ascii) {
+    return false
+  }
+
+  const labels = ascii.split('.')
+  return labels.some((_, index) => DISPOSABLE_DOMAINS.has(labels.slice(index).join('.')))
+}
+
+/**
+ * 解析邮箱地址
+ * 按验证模式检查本地部分、域名和 RFC 长度限制，任一不通过时返回 null
+ *
+ * @param value 邮箱地址
+ * @param options 验证选项（只使用 mode、allowIdn 和 allowUnicodeLocal）
+ * @returns 邮箱地址各部分
+ *
+ * @example
+ * ```typescript
+ * parseEmail('User@例子.中国')
+ * // { local: 'User', domain: '例子.中国', asciiDomain: 'xn--fsqu00a.xn--fiqs8s' }
+ * parseEmail('a@b..c') // null
+ * ```
+ */
+export function parseEmail(value: string, options: EmailOptions = {}): EmailAddress | null {
+  const { mode = 'strict', allowIdn = true, allowUnicodeLocal = false } = options
+  const parts = splitEmail(value)
+
+  if (!parts) {
+    return null
+  }
+
+  const [local, domain] = parts
+
+  const localValid = mode === 'html5'
+    ? HTML5_LOCAL.test(local)
+    : (allowUnicodeLocal ? DOT_ATOM_UNICODE : DOT_ATOM).test(local)
+      || (mode === 'rfc5322' && (allowUnicodeLocal ? QUOTED_STRING_UNICODE : QUOTED_STRING).test(local))
+
+  if (!localValid || byteLength(local) > MAX_LOCAL_LENGTH) {
+    return null
+  }
+
+  if (domain.startsWith('[') && domain.endsWith(']')) {
+    return mode === 'rfc5322' && isAddressLiteral(domain) && byteLength(value) <= MAX_EMAIL_LENGTH
+      ? { local, domain, asciiDomain: domain }
+      : null
+  }
+
+  const asciiDomain = allowIdn ? toAsciiDomain(domain) : domain.toLowerCase()
+  if (!asciiDomain || asciiDomain.length > MAX_DOMAIN_LENGTH) {
+    return null
+  }
+
+  const labels = asciiDomain.split('.')
+  if (!labels.every(label => DOMAIN_LABEL.test(label))) {
+    return null
+  }
+  if (mode === 'strict' && (labels.length < 2 || !TOP_LEVEL_DOMAIN.test(labels[labels.length - 1]))) {
+    return null
+  }
+  if (byteLength(local) + 1 + asciiDomain.length > MAX_EMAIL_LENGTH) {
+    return null
+  }
+
+  return { local, domain, asciiDomain }
+}
+
+/**
+ * 规范化邮箱地址
+ * 无法拆分为本地部分和域名时只按 lowercase 选项转换大小写
+ *
+ * @param value 邮箱地址
+ * @param options 规范化选项
+ * @returns 规范化后的邮箱地址
+ *
+ * @example
+ * ```typescript
+ * normalizeEmail('John.Doe+news@GoogleMail.com', { gmail: true }) // 'johndoe@gmail.com'
+ * normalizeEmail('John@Example.COM', { lowercase: false }) // 'John@example.com'
+ * ```
+ */
+export function normalizeEmail(value: string, options: NormalizeEmailOptions = {}): string {
+  const { lowercase = true, gmail = false, subaddress = false, punycode = false } = options
+  const parts = splitEmail(value)
+
+  if (!parts) {
+    return lowercase ? value.toLowerCase() : value
+  }
+
+  let [local, domain] = parts
+
+  domain = punycode ? toAsciiDomain(domain) ?? domain.toLowerCase() : domain.toLowerCase()
+  if (lowercase) {
+    local = local.toLowerCase()
+  }
+
+  const isGmail = gmail && (domain === 'gmail.com' || domain === 'googlemail.com')
+  if (isGmail) {
+    domain = 'gmail.com'
+    local = local.replace(/\./g, '')
+  }
+  if ((isGmail || subaddress) && !local.startsWith('"')) {
+    local = local.replace(/\+.*$/, '')
+  }
+
+  return `${local}@${domain}`
+}
+
+/**
+ * 邮箱地址验证
+ * 验证通过时 meta 包含本地部分、域名、ASCII 域名和是否为一次性邮箱
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({
+ *     validator: rules.emailAddress({
+ *       mode: 'rfc5322',
+ *       denyDomains: ['example.org'],
+ *       allowDisposable: false,
+ *     }),
+ *   })
+ *
+ * await validator.validate('"john doe"@example.com') // 通过
+ * await validator.validate('user@mailinator.com') // 失败：EMAIL_DISPOSABLE
+ * ```
+ */
+export function emailAddress(options: EmailOptions = {}): ValidatorFunction<string> {
+  const { allowDomains, denyDomains, allowDisposable = true, message } = options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const address = parseEmail(value, options)
+
+    if (!address) {
+      const parts = splitEmail(value)
+      const tooLong = byteLength(value) > MAX_EMAIL_LENGTH
+        || (!!parts && (byteLength(parts[0]) > MAX_LOCAL_LENGTH || parts[1].length > MAX_DOMAIN_LENGTH))
+      const code = tooLong ? 'EMAIL_TOO_LONG' : 'INVALID_EMAIL'
+
+      return {
+        valid: false,
+        message: message || t(code, { max: MAX_EMAIL_LENGTH }, locale),
+        code,
+      }
+    }
+
+    const meta = { ...address, disposable: isDisposableEmailDomain(address.asciiDomain) }
+    const fail = (code: string) => ({
+      valid: false,
+      message: message || t(code, { domain: address.domain }, locale),
+      code,
+      meta,
+    })
+
+    if (allowDomains && !matchesDomain(address.asciiDomain, allowDomains)) {
+      return fail('EMAIL_DOMAIN_NOT_ALLOWED')
+    }
+    if (denyDomains && matchesDomain(address.asciiDomain, denyDomains)) {
+      return fail('EMAIL_DOMAIN_DENIED')
+    }
+    if (!allowDisposable && meta.disposable) {
+      return fail('EMAIL_DISPOSABLE')
+    }
+
+    return { valid: true, meta }
+  }
+}
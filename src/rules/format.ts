@@ -1,48 +1,24 @@
 import type { ValidationResult, ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { cronExpression } from './cron'
+import { emailAddress } from './email'
+import { passwordPolicy } from './password'
+import { urlAddress } from './url'
 
 /**
- * Email 验证
+ * Email 验证（严格模式），需要其他模式、域名限制或一次性邮箱检测时使用 emailAddress
  */
-export const email: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  const valid = emailRegex.test(value)
-
-  return {
-    valid,
-    message: valid ? undefined : '请输入有效的邮箱地址',
-    code: 'INVALID_EMAIL',
-  }
-}
+export const email: ValidatorFunction<string> = emailAddress()
 
 /**
- * URL 验证
+ * URL 验证（http、https、ftp），需要限制主机、端口等时使用 urlAddress
  */
-export const url: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  try {
-    new URL(value)
-    return { valid: true }
-  }
-  catch {
-    return {
-      valid: false,
-      message: '请输入有效的 URL',
-      code: 'INVALID_URL',
-    }
-  }
-}
+export const url: ValidatorFunction<string> = urlAddress({ protocols: ['http', 'https', 'ftp'], requireTld: false })
 
 /**
  * 手机号验证（中国大陆）
  */
-export const phone: ValidatorFunction<string> = (value) => {
+export const phone: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -52,53 +28,15 @@ export const phone: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的手机号码',
+    message: valid ? undefined : t('INVALID_PHONE', undefined, context?.locale),
     code: 'INVALID_PHONE',
   }
 }
 
-/**
- * 身份证号验证（中国大陆）
- */
-export const idCard: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  // 18 位身份证号验证
-  const idCardRegex = /^[1-9]\d{5}(18|19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])\d{3}[\dXx]$/
-
-  if (!idCardRegex.test(value)) {
-    return {
-      valid: false,
-      message: '请输入有效的身份证号码',
-      code: 'INVALID_ID_CARD',
-    }
-  }
-
-  // 校验码验证
-  const weights = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2]
-  const checkCodes = ['1', '0', 'X', '9', '8', '7', '6', '5', '4', '3', '2']
-
-  let sum = 0
-  for (let i = 0; i < 17; i++) {
-    sum += Number.parseInt(value[i]) * weights[i]
-  }
-
-  const checkCode = checkCodes[sum % 11]
-  const valid = value[17].toUpperCase() === checkCode
-
-  return {
-    valid,
-    message: valid ? undefined : '身份证号码校验位错误',
-    code: 'INVALID_ID_CARD_CHECK',
-  }
-}
-
 /**
  * IP 地址验证（IPv4）
  */
-export const ipv4: ValidatorFunction<string> = (value) => {
+export const ipv4: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -108,7 +46,7 @@ export const ipv4: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 IPv4 地址',
+    message: valid ? undefined : t('INVALID_IPV4', undefined, context?.locale),
     code: 'INVALID_IPV4',
   }
 }
@@ -116,7 +54,7 @@ export const ipv4: ValidatorFunction<string> = (value) => {
 /**
  * 数字验证
  */
-export const numeric: ValidatorFunction<string | number> = (value) => {
+export const numeric: ValidatorFunction<string | number> = (value, context) => {
   if (value === null || value === undefined || value === '') {
     return { valid: true }
   }
@@ -125,7 +63,7 @@ export const numeric: ValidatorFunction<string | number> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的数字',
+    message: valid ? undefined : t('NOT_NUMERIC', undefined, context?.locale),
     code: 'NOT_NUMERIC',
   }
 }
@@ -133,7 +71,7 @@ export const numeric: ValidatorFunction<string | number> = (value) => {
 /**
  * 整数验证
  */
-export const integer: ValidatorFunction<string | number> = (value) => {
+export const integer: ValidatorFunction<string | number> = (value, context) => {
   if (value === null || value === undefined || value === '') {
     return { valid: true }
   }
@@ -143,7 +81,7 @@ export const integer: ValidatorFunction<string | number> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入整数',
+    message: valid ? undefined : t('NOT_INTEGER', undefined, context?.locale),
     code: 'NOT_INTEGER',
   }
 }
@@ -151,7 +89,7 @@ export const integer: ValidatorFunction<string | number> = (value) => {
 /**
  * 字母验证
  */
-export const alpha: ValidatorFunction<string> = (value) => {
+export const alpha: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -161,7 +99,7 @@ export const alpha: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '只能包含字母',
+    message: valid ? undefined : t('NOT_ALPHA', undefined, context?.locale),
     code: 'NOT_ALPHA',
   }
 }
@@ -169,7 +107,7 @@ export const alpha: ValidatorFunction<string> = (value) => {
 /**
  * 字母和数字验证
  */
-export const alphanumeric: ValidatorFunction<string> = (value) => {
+export const alphanumeric: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -179,7 +117,7 @@ export const alphanumeric: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '只能包含字母和数字',
+    message: valid ? undefined : t('NOT_ALPHANUMERIC', undefined, context?.locale),
     code: 'NOT_ALPHANUMERIC',
   }
 }
@@ -187,7 +125,7 @@ export const alphanumeric: ValidatorFunction<string> = (value) => {
 /**
  * 日期验证
  */
-export const date: ValidatorFunction<string | Date> = (value) => {
+export const date: ValidatorFunction<string | Date> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -197,7 +135,7 @@ export const date: ValidatorFunction<string | Date> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的日期',
+    message: valid ? undefined : t('INVALID_DATE', undefined, context?.locale),
     code: 'INVALID_DATE',
   }
 }
@@ -205,7 +143,7 @@ export const date: ValidatorFunction<string | Date> = (value) => {
 /**
  * JSON 验证
  */
-export const json: ValidatorFunction<string> = (value) => {
+export const json: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -217,7 +155,7 @@ export const json: ValidatorFunction<string> = (value) => {
   catch {
     return {
       valid: false,
-      message: '请输入有效的 JSON',
+      message: t('INVALID_JSON', undefined, context?.locale),
       code: 'INVALID_JSON',
     }
   }
@@ -226,7 +164,7 @@ export const json: ValidatorFunction<string> = (value) => {
 /**
  * 信用卡号验证（Luhn 算法）
  */
-export const creditCard: ValidatorFunction<string> = (value) => {
+export const creditCard: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -238,7 +176,7 @@ export const creditCard: ValidatorFunction<string> = (value) => {
   if (!/^\d{13,19}$/.test(cardNumber)) {
     return {
       valid: false,
-      message: '请输入有效的信用卡号',
+      message: t('INVALID_CREDIT_CARD', undefined, context?.locale),
       code: 'INVALID_CREDIT_CARD',
     }
   }
@@ -265,86 +203,30 @@ export const creditCard: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '信用卡号校验失败',
+    message: valid ? undefined : t('INVALID_CREDIT_CARD_CHECK', undefined, context?.locale),
     code: 'INVALID_CREDIT_CARD_CHECK',
   }
 }
 
-/**
- * 邮政编码验证（中国大陆）
- */
-export const postalCode: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  const postalCodeRegex = /^\d{6}$/
-  const valid = postalCodeRegex.test(value)
-
-  return {
-    valid,
-    message: valid ? undefined : '请输入有效的邮政编码',
-    code: 'INVALID_POSTAL_CODE',
-  }
-}
-
 /**
  * 密码强度验证
- * 至少 8 个字符，包含大小写字母、数字和特殊字符
+ * 至少 8 个字符，包含大小写字母、数字和特殊字符；需要其他策略时使用 passwordPolicy
  */
-export const strongPassword: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  const hasLower = /[a-z]/.test(value)
-  const hasUpper = /[A-Z]/.test(value)
-  const hasNumber = /\d/.test(value)
-  const hasSpecial = /[!@#$%^&*(),.?":{}|<>]/.test(value)
-  const isLongEnough = value.length >= 8
-
-  const valid = hasLower && hasUpper && hasNumber && hasSpecial && isLongEnough
-
-  if (!valid) {
-    let message = '密码必须包含：'
-    const missing = []
-    if (!isLongEnough) {
-      missing.push('至少8个字符')
-    }
-    if (!hasLower) {
-      missing.push('小写字母')
-    }
-    if (!hasUpper) {
-      missing.push('大写字母')
-    }
-    if (!hasNumber) {
-      missing.push('数字')
-    }
-    if (!hasSpecial) {
-      missing.push('特殊字符')
-    }
-    message += missing.join('、')
-
-    return {
-      valid: false,
-      message,
-      code: 'WEAK_PASSWORD',
-    }
-  }
-
-  return { valid: true }
-}
+export const strongPassword: ValidatorFunction<string> = passwordPolicy({
+  specialChars: '!@#$%^&*(),.?":{}|<>',
+  userFields: [],
+})
 
 /**
  * 相等验证（用于确认密码）
  */
 export function equals(compareValue: any, message?: string): ValidatorFunction {
-  return (value) => {
+  return (value, context) => {
     const valid = value === compareValue
 
     return {
       valid,
-      message: valid ? undefined : message || '两次输入不一致',
+      message: valid ? undefined : message || t('NOT_EQUAL', undefined, context?.locale),
       code: 'NOT_EQUAL',
     }
   }
@@ -353,7 +235,7 @@ export function equals(compareValue: any, message?: string): ValidatorFunction {
 /**
  * UUID 验证（支持 v1/v3/v4/v5）
  */
-export const uuid: ValidatorFunction<string> = (value) => {
+export const uuid: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -363,7 +245,7 @@ export const uuid: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 UUID',
+    message: valid ? undefined : t('INVALID_UUID', undefined, context?.locale),
     code: 'INVALID_UUID',
   }
 }
@@ -371,7 +253,7 @@ export const uuid: ValidatorFunction<string> = (value) => {
 /**
  * MAC 地址验证
  */
-export const mac: ValidatorFunction<string> = (value) => {
+export const mac: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -382,7 +264,7 @@ export const mac: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 MAC 地址',
+    message: valid ? undefined : t('INVALID_MAC', undefined, context?.locale),
     code: 'INVALID_MAC',
   }
 }
@@ -390,7 +272,7 @@ export const mac: ValidatorFunction<string> = (value) => {
 /**
  * 端口号验证（1-65535）
  */
-export const port: ValidatorFunction<string | number> = (value) => {
+export const port: ValidatorFunction<string | number> = (value, context) => {
   if (value === null || value === undefined || value === '') {
     return { valid: true }
   }
@@ -400,7 +282,7 @@ export const port: ValidatorFunction<string | number> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '端口号必须在 1-65535 之间',
+    message: valid ? undefined : t('INVALID_PORT', undefined, context?.locale),
     code: 'INVALID_PORT',
   }
 }
@@ -408,7 +290,7 @@ export const port: ValidatorFunction<string | number> = (value) => {
 /**
  * MD5 哈希验证
  */
-export const md5: ValidatorFunction<string> = (value) => {
+export const md5: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -418,7 +300,7 @@ export const md5: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 MD5 哈希',
+    message: valid ? undefined : t('INVALID_MD5', undefined, context?.locale),
     code: 'INVALID_MD5',
   }
 }
@@ -426,7 +308,7 @@ export const md5: ValidatorFunction<string> = (value) => {
 /**
  * SHA1 哈希验证
  */
-export const sha1: ValidatorFunction<string> = (value) => {
+export const sha1: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -436,7 +318,7 @@ export const sha1: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 SHA1 哈希',
+    message: valid ? undefined : t('INVALID_SHA1', undefined, context?.locale),
     code: 'INVALID_SHA1',
   }
 }
@@ -444,7 +326,7 @@ export const sha1: ValidatorFunction<string> = (value) => {
 /**
  * SHA256 哈希验证
  */
-export const sha256: ValidatorFunction<string> = (value) => {
+export const sha256: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -454,7 +336,7 @@ export const sha256: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 SHA256 哈希',
+    message: valid ? undefined : t('INVALID_SHA256', undefined, context?.locale),
     code: 'INVALID_SHA256',
   }
 }
@@ -462,7 +344,7 @@ export const sha256: ValidatorFunction<string> = (value) => {
 /**
  * SHA512 哈希验证
  */
-export const sha512: ValidatorFunction<string> = (value) => {
+export const sha512: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -472,7 +354,7 @@ export const sha512: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 SHA512 哈希',
+    message: valid ? undefined : t('INVALID_SHA512', undefined, context?.locale),
     code: 'INVALID_SHA512',
   }
 }
@@ -480,7 +362,7 @@ export const sha512: ValidatorFunction<string> = (value) => {
 /**
  * 十六进制字符串验证
  */
-export const hex: ValidatorFunction<string> = (value) => {
+export const hex: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -490,7 +372,7 @@ export const hex: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '只能包含十六进制字符（0-9, A-F）',
+    message: valid ? undefined : t('NOT_HEX', undefined, context?.locale),
     code: 'NOT_HEX',
   }
 }
@@ -498,7 +380,7 @@ export const hex: ValidatorFunction<string> = (value) => {
 /**
  * 十六进制颜色验证（#RGB, #RRGGBB, #RRGGBBAA）
  */
-export const hexColor: ValidatorFunction<string> = (value) => {
+export const hexColor: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -508,7 +390,7 @@ export const hexColor: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的十六进制颜色值',
+    message: valid ? undefined : t('INVALID_HEX_COLOR', undefined, context?.locale),
     code: 'INVALID_HEX_COLOR',
   }
 }
@@ -516,7 +398,7 @@ export const hexColor: ValidatorFunction<string> = (value) => {
 /**
  * Base64 编码验证
  */
-export const base64: ValidatorFunction<string> = (value) => {
+export const base64: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -526,7 +408,7 @@ export const base64: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 Base64 编码',
+    message: valid ? undefined : t('INVALID_BASE64', undefined, context?.locale),
     code: 'INVALID_BASE64',
   }
 }
@@ -534,7 +416,7 @@ export const base64: ValidatorFunction<string> = (value) => {
 /**
  * JWT Token 验证
  */
-export const jwt: ValidatorFunction<string> = (value) => {
+export const jwt: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -544,7 +426,7 @@ export const jwt: ValidatorFunction<string> = (value) => {
   if (parts.length !== 3) {
     return {
       valid: false,
-      message: '请输入有效的 JWT Token',
+      message: t('INVALID_JWT', undefined, context?.locale),
       code: 'INVALID_JWT',
     }
   }
@@ -555,7 +437,7 @@ export const jwt: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 JWT Token',
+    message: valid ? undefined : t('INVALID_JWT', undefined, context?.locale),
     code: 'INVALID_JWT',
   }
 }
@@ -563,7 +445,7 @@ export const jwt: ValidatorFunction<string> = (value) => {
 /**
  * IBAN（国际银行账号）验证
  */
-export const iban: ValidatorFunction<string> = (value) => {
+export const iban: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -576,7 +458,7 @@ export const iban: ValidatorFunction<string> = (value) => {
   if (!ibanRegex.test(cleanIban)) {
     return {
       valid: false,
-      message: '请输入有效的 IBAN',
+      message: t('INVALID_IBAN', undefined, context?.locale),
       code: 'INVALID_IBAN',
     }
   }
@@ -595,7 +477,7 @@ export const iban: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : 'IBAN 校验失败',
+    message: valid ? undefined : t('INVALID_IBAN_CHECK', undefined, context?.locale),
     code: 'INVALID_IBAN_CHECK',
   }
 }
@@ -603,7 +485,7 @@ export const iban: ValidatorFunction<string> = (value) => {
 /**
  * ISBN（国际标准书号）验证（ISBN-10/ISBN-13）
  */
-export const isbn: ValidatorFunction<string> = (value) => {
+export const isbn: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -619,7 +501,7 @@ export const isbn: ValidatorFunction<string> = (value) => {
       if (Number.isNaN(digit)) {
         return {
           valid: false,
-          message: '请输入有效的 ISBN',
+          message: t('INVALID_ISBN', undefined, context?.locale),
           code: 'INVALID_ISBN',
         }
       }
@@ -631,7 +513,7 @@ export const isbn: ValidatorFunction<string> = (value) => {
     if (Number.isNaN(checkDigit)) {
       return {
         valid: false,
-        message: '请输入有效的 ISBN',
+        message: t('INVALID_ISBN', undefined, context?.locale),
         code: 'INVALID_ISBN',
       }
     }
@@ -641,7 +523,7 @@ export const isbn: ValidatorFunction<string> = (value) => {
 
     return {
       valid,
-      message: valid ? undefined : 'ISBN-10 校验失败',
+      message: valid ? undefined : t('INVALID_ISBN_CHECK', { variant: 'ISBN-10' }, context?.locale),
       code: 'INVALID_ISBN_CHECK',
     }
   }
@@ -653,7 +535,7 @@ export const isbn: ValidatorFunction<string> = (value) => {
       if (Number.isNaN(digit)) {
         return {
           valid: false,
-          message: '请输入有效的 ISBN',
+          message: t('INVALID_ISBN', undefined, context?.locale),
           code: 'INVALID_ISBN',
         }
       }
@@ -664,14 +546,14 @@ export const isbn: ValidatorFunction<string> = (value) => {
 
     return {
       valid,
-      message: valid ? undefined : 'ISBN-13 校验失败',
+      message: valid ? undefined : t('INVALID_ISBN_CHECK', { variant: 'ISBN-13' }, context?.locale),
       code: 'INVALID_ISBN_CHECK',
     }
   }
 
   return {
     valid: false,
-    message: 'ISBN 长度必须为 10 或 13 位',
+    message: t('INVALID_ISBN_LENGTH', undefined, context?.locale),
     code: 'INVALID_ISBN_LENGTH',
   }
 }
@@ -679,7 +561,7 @@ export const isbn: ValidatorFunction<string> = (value) => {
 /**
  * ISSN（国际标准刊号）验证
  */
-export const issn: ValidatorFunction<string> = (value) => {
+export const issn: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -690,7 +572,7 @@ export const issn: ValidatorFunction<string> = (value) => {
   if (cleanIssn.length !== 8) {
     return {
       valid: false,
-      message: 'ISSN 长度必须为 8 位',
+      message: t('INVALID_ISSN_LENGTH', undefined, context?.locale),
       code: 'INVALID_ISSN_LENGTH',
     }
   }
@@ -702,7 +584,7 @@ export const issn: ValidatorFunction<string> = (value) => {
     if (Number.isNaN(digit)) {
       return {
         valid: false,
-        message: '请输入有效的 ISSN',
+        message: t('INVALID_ISSN', undefined, context?.locale),
         code: 'INVALID_ISSN',
       }
     }
@@ -714,7 +596,7 @@ export const issn: ValidatorFunction<string> = (value) => {
   if (Number.isNaN(checkDigit)) {
     return {
       valid: false,
-      message: '请输入有效的 ISSN',
+      message: t('INVALID_ISSN', undefined, context?.locale),
       code: 'INVALID_ISSN',
     }
   }
@@ -724,7 +606,7 @@ export const issn: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : 'ISSN 校验失败',
+    message: valid ? undefined : t('INVALID_ISSN_CHECK', undefined, context?.locale),
     code: 'INVALID_ISSN_CHECK',
   }
 }
@@ -732,7 +614,7 @@ export const issn: ValidatorFunction<string> = (value) => {
 /**
  * IPv6 地址验证
  */
-export const ipv6: ValidatorFunction<string> = (value) => {
+export const ipv6: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -747,7 +629,7 @@ export const ipv6: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 IPv6 地址',
+    message: valid ? undefined : t('INVALID_IPV6', undefined, context?.locale),
     code: 'INVALID_IPV6',
   }
 }
@@ -755,7 +637,7 @@ export const ipv6: ValidatorFunction<string> = (value) => {
 /**
  * 纯小写字母验证
  */
-export const lowercase: ValidatorFunction<string> = (value) => {
+export const lowercase: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -765,7 +647,7 @@ export const lowercase: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '只能包含小写字母',
+    message: valid ? undefined : t('NOT_LOWERCASE', undefined, context?.locale),
     code: 'NOT_LOWERCASE',
   }
 }
@@ -773,7 +655,7 @@ export const lowercase: ValidatorFunction<string> = (value) => {
 /**
  * 纯大写字母验证
  */
-export const uppercase: ValidatorFunction<string> = (value) => {
+export const uppercase: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -783,7 +665,7 @@ export const uppercase: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '只能包含大写字母',
+    message: valid ? undefined : t('NOT_UPPERCASE', undefined, context?.locale),
     code: 'NOT_UPPERCASE',
   }
 }
@@ -792,7 +674,7 @@ export const uppercase: ValidatorFunction<string> = (value) => {
  * 域名验证
  * 验证标准域名格式（支持子域名）
  */
-export const domain: ValidatorFunction<string> = (value) => {
+export const domain: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -803,7 +685,7 @@ export const domain: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的域名',
+    message: valid ? undefined : t('INVALID_DOMAIN', undefined, context?.locale),
     code: 'INVALID_DOMAIN',
   }
 }
@@ -812,7 +694,7 @@ export const domain: ValidatorFunction<string> = (value) => {
  * URL slug 验证
  * 验证 URL 友好的字符串（小写字母、数字、连字符）
  */
-export const slug: ValidatorFunction<string> = (value) => {
+export const slug: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -822,7 +704,7 @@ export const slug: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : 'URL slug 格式不正确（只能包含小写字母、数字和连字符）',
+    message: valid ? undefined : t('INVALID_SLUG', undefined, context?.locale),
     code: 'INVALID_SLUG',
   }
 }
@@ -831,7 +713,7 @@ export const slug: ValidatorFunction<string> = (value) => {
  * 语义化版本验证（Semver）
  * 验证符合 semver 规范的版本号（如 1.0.0, 2.1.3-beta.1）
  */
-export const semver: ValidatorFunction<string> = (value) => {
+export const semver: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -841,7 +723,7 @@ export const semver: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的语义化版本号（如 1.0.0）',
+    message: valid ? undefined : t('INVALID_SEMVER', undefined, context?.locale),
     code: 'INVALID_SEMVER',
   }
 }
@@ -850,7 +732,7 @@ export const semver: ValidatorFunction<string> = (value) => {
  * MongoDB ObjectId 验证
  * 验证 24 位十六进制字符串
  */
-export const mongoId: ValidatorFunction<string> = (value) => {
+export const mongoId: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -860,7 +742,7 @@ export const mongoId: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的 MongoDB ObjectId',
+    message: valid ? undefined : t('INVALID_MONGO_ID', undefined, context?.locale),
     code: 'INVALID_MONGO_ID',
   }
 }
@@ -869,7 +751,7 @@ export const mongoId: ValidatorFunction<string> = (value) => {
  * 纬度验证
  * 验证纬度值（-90 到 90）
  */
-export const latitude: ValidatorFunction<number | string> = (value) => {
+export const latitude: ValidatorFunction<number | string> = (value, context) => {
   if (value === null || value === undefined || value === '') {
     return { valid: true }
   }
@@ -879,7 +761,7 @@ export const latitude: ValidatorFunction<number | string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '纬度必须在 -90 到 90 之间',
+    message: valid ? undefined : t('INVALID_LATITUDE', undefined, context?.locale),
     code: 'INVALID_LATITUDE',
   }
 }
@@ -888,7 +770,7 @@ export const latitude: ValidatorFunction<number | string> = (value) => {
  * 经度验证
  * 验证经度值（-180 到 180）
  */
-export const longitude: ValidatorFunction<number | string> = (value) => {
+export const longitude: ValidatorFunction<number | string> = (value, context) => {
   if (value === null || value === undefined || value === '') {
     return { valid: true }
   }
@@ -898,7 +780,7 @@ export const longitude: ValidatorFunction<number | string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '经度必须在 -180 到 180 之间',
+    message: valid ? undefined : t('INVALID_LONGITUDE', undefined, context?.locale),
     code: 'INVALID_LONGITUDE',
   }
 }
@@ -921,7 +803,7 @@ export const longitude: ValidatorFunction<number | string> = (value) => {
  * ```
  */
 export function fileExtension(extensions: string[], message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -931,7 +813,7 @@ export function fileExtension(extensions: string[], message?: string): Validator
 
     return {
       valid,
-      message: valid ? undefined : message || `文件扩展名必须是 ${extensions.join(', ')} 之一`,
+      message: valid ? undefined : message || t('INVALID_FILE_EXTENSION', { extensions: extensions.join(', ') }, context?.locale),
       code: 'INVALID_FILE_EXTENSION',
       meta: { extensions, actualExt: ext },
     }
@@ -956,7 +838,7 @@ export function fileExtension(extensions: string[], message?: string): Validator
  * ```
  */
 export function mimeType(types: string[], message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -965,7 +847,7 @@ export function mimeType(types: string[], message?: string): ValidatorFunction<s
 
     return {
       valid,
-      message: valid ? undefined : message || `MIME 类型必须是 ${types.join(', ')} 之一`,
+      message: valid ? undefined : message || t('INVALID_MIME_TYPE', { types: types.join(', ') }, context?.locale),
       code: 'INVALID_MIME_TYPE',
       meta: { types, actualType: value },
     }
@@ -976,7 +858,7 @@ export function mimeType(types: string[], message?: string): ValidatorFunction<s
  * ISO 639 语言代码验证
  * 验证两位或三位语言代码（如 en, zh, en-US）
  */
-export const languageCode: ValidatorFunction<string> = (value) => {
+export const languageCode: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -987,7 +869,7 @@ export const languageCode: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的语言代码（如 en, zh, en-US）',
+    message: valid ? undefined : t('INVALID_LANGUAGE_CODE', undefined, context?.locale),
     code: 'INVALID_LANGUAGE_CODE',
   }
 }
@@ -996,7 +878,7 @@ export const languageCode: ValidatorFunction<string> = (value) => {
  * ISO 3166 国家代码验证
  * 验证两位国家代码（如 CN, US, UK）
  */
-export const countryCode: ValidatorFunction<string> = (value) => {
+export const countryCode: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -1006,7 +888,7 @@ export const countryCode: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的国家代码（两位大写字母，如 CN, US）',
+    message: valid ? undefined : t('INVALID_COUNTRY_CODE', undefined, context?.locale),
     code: 'INVALID_COUNTRY_CODE',
   }
 }
@@ -1015,7 +897,7 @@ export const countryCode: ValidatorFunction<string> = (value) => {
  * ISO 4217 货币代码验证
  * 验证三位货币代码（如 CNY, USD, EUR）
  */
-export const currencyCode: ValidatorFunction<string> = (value) => {
+export const currencyCode: ValidatorFunction<string> = (value, context) => {
   if (!value) {
     return { valid: true }
   }
@@ -1025,44 +907,14 @@ export const currencyCode: ValidatorFunction<string> = (value) => {
 
   return {
     valid,
-    message: valid ? undefined : '请输入有效的货币代码（三位大写字母，如 CNY, USD）',
+    message: valid ? undefined : t('INVALID_CURRENCY_CODE', undefined, context?.locale),
     code: 'INVALID_CURRENCY_CODE',
   }
 }
 
 /**
- * Cron 表达式验证（简化版）
- * 验证基本的 5 段式或 6 段式 cron 表达式
+ * Cron 表达式验证
+ * 验证标准 5 段式或 6 段式（带秒）cron 表达式和宏（如 @daily），meta.nextRuns 包含接下来 5 次执行时间；
+ * Quartz 语法和预览数量等选项见 cronExpression
  */
-export const cron: ValidatorFunction<string> = (value) => {
-  if (!value) {
-    return { valid: true }
-  }
-
-  const parts = value.trim().split(/\s+/)
-
-  // 支持 5 段式（分 时 日 月 周）或 6 段式（秒 分 时 日 月 周）
-  if (parts.length !== 5 && parts.length !== 6) {
-    return {
-      valid: false,
-      message: 'Cron 表达式必须是 5 段或 6 段格式',
-      code: 'INVALID_CRON',
-    }
-  }
-
-  // 简单验证每个字段是否包含有效字符
-  const cronFieldRegex = /^[0-9,\-*/]+$/
-  const allValid = parts.every(part => cronFieldRegex.test(part))
-
-  return {
-    valid: allValid,
-    message: allValid ? undefined : 'Cron 表达式格式不正确',
-    code: 'INVALID_CRON',
-  }
-}
-
-
-
-
-
-
+export const cron: ValidatorFunction<string> = cronExpression()
@@ -2,26 +2,47 @@
  * 验证规则导出
  */
 
+// 高级规则
+export * from './advanced'
+
 // 基础规则
 export * from './basic'
 
-// 格式规则
-export * from './format'
-
-// 字符串规则
-export * from './string'
+// 中国大陆业务标识规则
+export * from './china'
 
-// 类型规则
-export * from './types'
-
-// 高级规则
-export * from './advanced'
+// Cron 表达式规则
+export * from './cron'
 
 // 跨字段验证规则
 export * from './cross-field'
 
+// 邮箱地址规则
+export * from './email'
+
+// 格式规则
+export * from './format'
+
+// IP 地址与 CIDR 规则
+export * from './ip'
+
+// 身份证件号码规则
+export * from './national-id'
 
+// 密码策略规则
+export * from './password'
 
+// 国际电话号码规则
+export * from './phone'
 
+// 邮政编码规则
+export * from './postal-code'
 
+// 字符串规则
+export * from './string'
+
+// 类型规则
+export * from './types'
 
+// URL 规则
+export * from './url'
@@ -0,0 +1,706 @@
+/**
+ * IP 地址与 CIDR 规则
+ * IPv4/IPv6 地址、CIDR 网段和地址范围的解析与验证，网段成员检查（私有、回环、保留地址或自定义网段），
+ * 以及 CIDR 列表的重叠检测
+ */
+
+import type { ValidationResult, ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * IP 版本
+ */
+export type IpVersion = 4 | 6
+
+/**
+ * 内置网段集合
+ * - private: 私有地址（RFC 1918）和唯一本地地址（fc00::/7）
+ * - loopback: 回环地址
+ * - linkLocal: 链路本地地址
+ * - multicast: 组播地址
+ * - reserved: 其他 IANA 特殊用途地址（本网络、运营商级 NAT、文档示例、基准测试、NAT64、6to4、保留地址等）
+ */
+export type IpNetworkName = 'linkLocal' | 'loopback' | 'multicast' | 'private' | 'reserved'
+
+/**
+ * 解析后的 IP 地址
+ */
+export interface IpAddress {
+  /** IP 版本 */
+  version: IpVersion
+
+  /** 地址数值 */
+  value: bigint
+}
+
+/**
+ * 地址范围（闭区间）
+ */
+export interface IpRange {
+  /** IP 版本 */
+  version: IpVersion
+
+  /** 起始地址数值 */
+  first: bigint
+
+  /** 结束地址数值 */
+  last: bigint
+}
+
+/**
+ * CIDR 网段
+ */
+export interface CidrBlock extends IpRange {
+  /** 前缀长度 */
+  prefix: number
+
+  /** 是否设置了主机位（如 10.0.0.1/8），此时 first 为对应的网络地址 */
+  hostBitsSet: boolean
+}
+
+/**
+ * IP 验证选项
+ */
+export interface IpOptions {
+  /**
+   * 限定 IP 版本
+   */
+  version?: IpVersion
+
+  /**
+   * 只允许这些网段内的地址：CIDR、单个 IP 或内置网段集合名称
+   */
+  allow?: string[]
+
+  /**
+   * 拒绝这些网段内的地址，写法同 allow
+   */
+  deny?: string[]
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * CIDR 验证选项
+ */
+export interface CidrOptions {
+  /**
+   * 限定 IP 版本
+   */
+  version?: IpVersion
+
+  /**
+   * 是否拒绝设置了主机位的网段（如 10.0.0.1/8）
+   * @default true
+   */
+  strict?: boolean
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * CIDR 列表验证选项
+ */
+export interface CidrListOptions extends CidrOptions {
+  /**
+   * 是否允许网段重叠
+   * @default false
+   */
+  allowOverlap?: boolean
+}
+
+const IPV4_OCTET = /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/
+const IPV6_HEXTET = /^[\da-f]{1,4}$/i
+
+/**
+ * 内置网段集合
+ */
+const IP_NETWORKS = new Map<string, string[]>([
+  ['private', ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7']],
+  ['loopback', ['127.0.0.0/8', '::1/128']],
+  ['linkLocal', ['169.254.0.0/16', 'fe80::/10']],
+  ['multicast', ['224.0.0.0/4', 'ff00::/8']],
+  ['reserved', [
+    '0.0.0.0/8',
+    '100.64.0.0/10',
+    '192.0.0.0/24',
+    '192.0.2.0/24',
+    '198.18.0.0/15',
+    '198.51.100.0/24',
+    '203.0.113.0/24',
+    '240.0.0.0/4',
+    '::/128',
+    '100::/64',
+    '2001::/23',
+    '2001:db8::/32',
+    '64:ff9b::/96',
+    '64:ff9b:1::/48',
+    '2002::/16',
+  ]],
+])
+
+/**
+ * 地址位数
+ */
+function bitsOf(version: IpVersion): number {
+  return version === 4 ? 32 : 128
+}
+
+/**
+ * 解析点分十进制 IPv4 地址（不允许前导零，避免与八进制写法混淆）
+ */
+function parseIPv4(value: string): bigint | null {
+  const octets = value.split('.')
+
+  if (octets.length !== 4 || !octets.every(octet => IPV4_OCTET.test(octet))) {
+    return null
+  }
+  return octets.reduce((total, octet) => (total << 8n) | BigInt(octet), 0n)
+}
+
+/**
+ * 解析 IPv6 地址（支持 :: 压缩和末尾的 IPv4 写法，不支持区域标识）
+ */
+function parseIPv6(value: string): bigint | null {
+  let text = value
+
+  if (value.includes('.')) {
+    const index = value.lastIndexOf(':')
+    const ipv4 = parseIPv4(value.slice(index + 1))
+    if (index < 0 || ipv4 === null) {
+      return null
+    }
+    text = `${value.slice(0, index + 1)}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xFFFFn).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) {
+    return null
+  }
+
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null
+  }
+  if (![...head, ...tail].every(hextet => IPV6_HEXTET.test(hextet))) {
+    return null
+  }
+
+  return [...head, ...Array.from({ length: halves.length === 2 ? missing : 0 }, () => '0'), ...tail]
+    .reduce((total, hextet) => (total << 16n) | BigInt(Number.parseInt(hextet, 16)), 0n)
+}
+
+/**
+ * 解析 IP 地址
+ *
+ * @param value IP 地址
+ * @returns 解析结果，无效时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseIp('192.168.1.1') // { version: 4, value: 3232235777n }
+ * parseIp('::ffff:192.168.1.1') // { version: 6, value: 281473913979137n }
+ * ```
+ */
+export function parseIp(value: string): IpAddress | null {
+  if (value.includes(':')) {
+    const parsed = parseIPv6(value)
+    return parsed === null ? null : { version: 6, value: parsed }
+  }
+
+  const parsed = parseIPv4(value)
+  return parsed === null ? null : { version: 4, value: parsed }
+}
+
+/**
+ * 格式化 IP 地址
+ * IPv6 按 RFC 5952 输出（小写、省略前导零、最长的连续零组压缩为 ::，IPv4 映射地址使用点分写法）
+ *
+ * @param address IP 地址
+ * @returns 规范化的地址字符串
+ *
+ * @example
+ * ```typescript
+ * formatIp(parseIp('2001:0DB8:0:0:0:0:0:1')!) // '2001:db8::1'
+ * ```
+ */
+export function formatIp(address: IpAddress): string {
+  const { version, value } = address
+
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => String((value >> shift) & 0xFFn)).join('.')
+  }
+
+  if (value >> 32n === 0xFFFFn) {
+    return `::ffff:${formatIp({ version: 4, value: value & 0xFFFFFFFFn })}`
+  }
+
+  const hextets = Array.from({ length: 8 }, (_, index) => Number((value >> BigInt((7 - index) * 16)) & 0xFFFFn))
+  let bestStart = -1
+  let bestLength = 1
+
+  for (let start = 0; start < 8; start++) {
+    let length = 0
+    while (start + length < 8 && hextets[start + length] === 0) {
+      length++
+    }
+    if (length > bestLength) {
+      bestStart = start
+      bestLength = length
+    }
+  }
+
+  const parts = hextets.map(hextet => hextet.toString(16))
+
+  if (bestStart < 0) {
+    return parts.join(':')
+  }
+  return `${parts.slice(0, bestStart).join(':')}::${parts.slice(bestStart + bestLength).join(':')}`
+}
+
+/**
+ * 解析 CIDR 网段，不带前缀的单个地址视为 /32 或 /128
+ *
+ * @param value CIDR 网段
+ * @returns 解析结果，无效时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseCidr('10.0.0.0/8') // { version: 4, prefix: 8, first: 167772160n, last: 184549375n, hostBitsSet: false }
+ * ```
+ */
+export function parseCidr(value: string): CidrBlock | null {
+  const [address, prefixText, ...rest] = value.split('/')
+  const ip = parseIp(address)
+
+  if (!ip || rest.length > 0) {
+    return null
+  }
+
+  const bits = bitsOf(ip.version)
+  if (prefixText !== undefined && !/^(?:0|[1-9]\d{0,2})$/.test(prefixText)) {
+    return null
+  }
+
+  const prefix = prefixText === undefined ? bits : Number(prefixText)
+  if (prefix > bits) {
+    return null
+  }
+
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n
+  const first = ip.value & ~hostMask
+
+  return {
+    version: ip.version,
+    prefix,
+    first,
+    last: first | hostMask,
+    hostBitsSet: first !== ip.value,
+  }
+}
+
+/**
+ * 解析地址范围（起始地址-结束地址，连字符两侧可以有空格），起止地址版本必须相同且起始地址不大于结束地址
+ *
+ * @param value 地址范围
+ * @returns 解析结果，无效时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseIpRange('10.0.0.1 - 10.0.0.50') // { version: 4, first: 167772161n, last: 167772210n }
+ * ```
+ */
+export function parseIpRange(value: string): IpRange | null {
+  const parts = value.split('-')
+  if (parts.length !== 2) {
+    return null
+  }
+
+  const first = parseIp(parts[0].trim())
+  const last = parseIp(parts[1].trim())
+
+  if (!first || !last || first.version !== last.version || first.value > last.value) {
+    return null
+  }
+  return { version: first.version, first: first.value, last: last.value }
+}
+
+/**
+ * 注册（或覆盖）网段集合，注册后可以在 allow/deny 中按名称引用
+ * 只影响之后创建的验证器（验证器在创建时解析网段）
+ *
+ * @param name 集合名称
+ * @param cidrs 网段列表
+ * @throws {Error} 网段无法解析时抛出错误
+ *
+ * @example
+ * ```typescript
+ * registerIpNetwork('office', ['203.0.113.0/24', '2001:db8:1::/48'])
+ * rules.ipAddress({ allow: ['office'] })
+ * ```
+ */
+export function registerIpNetwork(name: string, cidrs: string[]): void {
+  cidrs.forEach(toCidrBlock)
+  IP_NETWORKS.set(name, cidrs)
+}
+
+/**
+ * 解析单个网段，无法解析时抛出错误
+ */
+function toCidrBlock(network: string): CidrBlock {
+  const block = parseCidr(network)
+  if (!block) {
+    throw new Error(`无法解析的网段 "${network}"：既不是有效的 CIDR 或 IP，也不是已注册的网段集合名称`)
+  }
+  return block
+}
+
+/**
+ * 将网段列表（CIDR、单个 IP 或网段集合名称）解析为 CIDR 网段
+ * 网段集合名称拼写错误时抛出错误，避免拒绝列表因笔误而静默失效
+ *
+ * @param networks 网段列表，已解析的网段原样保留
+ * @returns CIDR 网段列表
+ * @throws {Error} 网段集合名称未注册或网段无法解析时抛出错误
+ *
+ * @example
+ * ```typescript
+ * resolveIpNetworks(['loopback']) // [{ version: 4, prefix: 8, ... }, { version: 6, prefix: 128, ... }]
+ * resolveIpNetworks(['privat']) // 抛出错误
+ * ```
+ */
+export function resolveIpNetworks(networks: Array<string | CidrBlock>): CidrBlock[] {
+  return networks.flatMap(network => typeof network === 'string'
+    ? (IP_NETWORKS.get(network) ?? [network]).map(toCidrBlock)
+    : [network])
+}
+
+/**
+ * 取出 IPv6 地址中按位截取的 IPv4 地址（bits 为从最高位数起的 [起, 止) 区间列表）
+ */
+function extractIPv4(value: bigint, bits: [number, number][]): IpAddress {
+  return {
+    version: 4,
+    value: bits.reduce((total, [start, end]) => {
+      const width = BigInt(end - start)
+      return (total << width) | ((value >> BigInt(128 - end)) & ((1n << width) - 1n))
+    }, 0n),
+  }
+}
+
+/**
+ * 取出 IPv6 地址内嵌的 IPv4 地址
+ * - IPv4 映射地址 ::ffff:0:0/96 和已废弃的 IPv4 兼容地址 ::/96（不含 :: 和 ::1）
+ * - NAT64 地址 64:ff9b::/96，以及本地 NAT64 前缀 64:ff9b:1::/48 下 RFC 6052 的各种前缀长度写法
+ * - 6to4 地址 2002::/16
+ *
+ * @param address IP 地址
+ * @returns 内嵌的 IPv4 地址（可能有多个候选），IPv4 地址或没有内嵌地址时为空数组
+ *
+ * @example
+ * ```typescript
+ * getEmbeddedIPv4(parseIp('64:ff9b::a9fe:a9fe')!) // [{ version: 4, value: 2852039166n }]
+ * getEmbeddedIPv4(parseIp('2002:a9fe:a9fe::')!) // [{ version: 4, value: 2852039166n }]
+ * ```
+ */
+export function getEmbeddedIPv4(address: IpAddress): IpAddress[] {
+  if (address.version !== 6) {
+    return []
+  }
+
+  const { value } = address
+  const low32: [number, number][] = [[96, 128]]
+
+  if (value >> 32n === 0xFFFFn || (value >> 32n === 0n && value > 1n) || value >> 32n === 0x64FF9B0000000000000000n) {
+    return [extractIPv4(value, low32)]
+  }
+  if (value >> 80n === 0x64FF9B0001n) {
+    // 前缀长度由运营商决定，按 RFC 6052 的 /48、/56、/64、/96 布局分别取出候选地址
+    return [
+      extractIPv4(value, [[48, 64], [72, 88]]),
+      extractIPv4(value, [[56, 64], [72, 96]]),
+      extractIPv4(value, [[72, 104]]),
+      extractIPv4(value, low32),
+    ]
+  }
+  if (value >> 112n === 0x2002n) {
+    return [extractIPv4(value, [[16, 48]])]
+  }
+  return []
+}
+
+/**
+ * 地址是否属于网段（CIDR、单个 IP、网段集合名称或已解析的网段）
+ * 内嵌 IPv4 的 IPv6 地址（IPv4 映射、IPv4 兼容、NAT64 和 6to4，见 getEmbeddedIPv4）同时按其 IPv4 地址检查
+ *
+ * @param ip IP 地址
+ * @param networks 网段列表
+ * @returns 是否属于任一网段
+ * @throws {Error} 网段集合名称未注册或网段无法解析时抛出错误
+ *
+ * @example
+ * ```typescript
+ * isIpInNetworks('192.168.1.1', ['private']) // true
+ * isIpInNetworks('::ffff:10.0.0.1', ['10.0.0.0/8']) // true
+ * ```
+ */
+export function isIpInNetworks(ip: string | IpAddress, networks: Array<string | CidrBlock>): boolean {
+  const address = typeof ip === 'string' ? parseIp(ip) : ip
+  if (!address) {
+    return false
+  }
+
+  const candidates = [address, ...getEmbeddedIPv4(address)]
+
+  return resolveIpNetworks(networks).some(block => candidates.some(candidate => candidate.version === block.version
+    && candidate.value >= block.first
+    && candidate.value <= block.last))
+}
+
+/**
+ * 查找相互重叠的 CIDR 网段
+ * 无法解析的条目会被忽略
+ *
+ * @param cidrs 网段列表
+ * @returns 重叠网段的索引对（按索引升序）
+ *
+ * @example
+ * ```typescript
+ * findCidrOverlaps(['10.0.0.0/8', '192.168.0.0/16', '10.1.0.0/16']) // [[0, 2]]
+ * ```
+ */
+export function findCidrOverlaps(cidrs: string[]): [number, number][] {
+  const blocks = cidrs
+    .map((cidr, index) => ({ index, block: parseCidr(cidr) }))
+    .filter((item): item is { index: number, block: CidrBlock } => !!item.block)
+    .sort((a, b) => a.block.version - b.block.version
+      || (a.block.first < b.block.first ? -1 : a.block.first > b.block.first ? 1 : 0))
+  const overlaps: [number, number][] = []
+
+  // 按起始地址排序后，只需与后续起始地址不超过当前结束地址的网段比较
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < blocks.length; j++) {
+      const a = blocks[i]
+      const b = blocks[j]
+      if (a.block.version !== b.block.version || b.block.first > a.block.last) {
+        break
+      }
+      overlaps.push(a.index < b.index ? [a.index, b.index] : [b.index, a.index])
+    }
+  }
+
+  return overlaps.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+}
+
+/**
+ * 版本不符或无法解析时使用的错误代码
+ */
+function invalidIpCode(version?: IpVersion): string {
+  return version ? `INVALID_IPV${version}` : 'INVALID_IP'
+}
+
+/**
+ * IP 地址验证
+ * 可限定版本并按网段放行或拒绝；验证通过时 meta 包含版本和规范化的地址
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ * @throws {Error} allow/deny 中的网段集合名称未注册或网段无法解析时抛出错误
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.ipAddress({ deny: ['private', 'loopback', 'linkLocal', 'reserved'] }) })
+ *
+ * await validator.validate('8.8.8.8') // 通过
+ * await validator.validate('192.168.1.1') // 失败：IP_DENIED
+ * ```
+ */
+export function ipAddress(options: IpOptions = {}): ValidatorFunction<string> {
+  const { version, message } = options
+  const allow = options.allow && resolveIpNetworks(options.allow)
+  const deny = options.deny && resolveIpNetworks(options.deny)
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const address = parseIp(value)
+
+    if (!address || (version && address.version !== version)) {
+      const code = invalidIpCode(version)
+      return { valid: false, message: message || t(code, undefined, locale), code }
+    }
+
+    const meta = { version: address.version, address: formatIp(address) }
+    const fail = (code: string) => ({
+      valid: false,
+      message: message || t(code, { ip: meta.address }, locale),
+      code,
+      meta,
+    })
+
+    if (allow && !isIpInNetworks(address, allow)) {
+      return fail('IP_NOT_ALLOWED')
+    }
+    if (deny && isIpInNetworks(address, deny)) {
+      return fail('IP_DENIED')
+    }
+
+    return { valid: true, meta }
+  }
+}
+
+/**
+ * CIDR 网段验证
+ * 默认拒绝设置了主机位的网段；验证通过时 meta 包含版本、前缀长度、网络地址和最后一个地址
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.cidr({ version: 4 }) })
+ *
+ * await validator.validate('10.0.0.0/8') // 通过，meta.last 为 '10.255.255.255'
+ * await validator.validate('10.0.0.1/8') // 失败：CIDR_HOST_BITS_SET
+ * ```
+ */
+export function cidr(options: CidrOptions = {}): ValidatorFunction<string> {
+  const { version, strict = true, message } = options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const block = value.includes('/') ? parseCidr(value) : null
+
+    if (!block || (version && block.version !== version)) {
+      return { valid: false, message: message || t('INVALID_CIDR', undefined, locale), code: 'INVALID_CIDR' }
+    }
+
+    const network = formatIp({ version: block.version, value: block.first })
+    const meta = {
+      version: block.version,
+      prefix: block.prefix,
+      network,
+      last: formatIp({ version: block.version, value: block.last }),
+    }
+
+    if (strict && block.hostBitsSet) {
+      return {
+        valid: false,
+        message: message || t('CIDR_HOST_BITS_SET', { network: `${network}/${block.prefix}` }, locale),
+        code: 'CIDR_HOST_BITS_SET',
+        meta,
+      }
+    }
+
+    return { valid: true, meta }
+  }
+}
+
+/**
+ * 地址范围验证（如 10.0.0.1-10.0.0.50）
+ * 验证通过时 meta 包含版本和规范化的起止地址
+ *
+ * @param options 验证选项（只使用 version 和 message）
+ * @returns 验证器函数
+ */
+export function ipRange(options: Pick<IpOptions, 'message' | 'version'> = {}): ValidatorFunction<string> {
+  const { version, message } = options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const range = parseIpRange(value)
+
+    if (!range || (version && range.version !== version)) {
+      return {
+        valid: false,
+        message: message || t('INVALID_IP_RANGE', undefined, context?.locale),
+        code: 'INVALID_IP_RANGE',
+      }
+    }
+
+    return {
+      valid: true,
+      meta: {
+        version: range.version,
+        first: formatIp({ version: range.version, value: range.first }),
+        last: formatIp({ version: range.version, value: range.last }),
+      },
+    }
+  }
+}
+
+/**
+ * CIDR 网段列表验证
+ * 逐项验证网段，默认不允许网段重叠；失败时 meta 包含出错的索引或重叠的索引对
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string[]>()
+ *   .rule({ validator: rules.cidrList() })
+ *
+ * const result = await validator.validate(['10.0.0.0/8', '10.1.0.0/16'])
+ * result.code // 'CIDR_OVERLAP'
+ * result.meta // { overlaps: [[0, 1]] }
+ * ```
+ */
+export function cidrList(options: CidrListOptions = {}): ValidatorFunction<string[]> {
+  const { allowOverlap = false, message } = options
+  const validateItem = cidr(options)
+
+  return (value, context) => {
+    if (!value || value.length === 0) {
+      return { valid: true }
+    }
+
+    for (const [index, item] of value.entries()) {
+      const result = item ? validateItem(item, context) as ValidationResult : undefined
+
+      if (!result?.valid) {
+        return {
+          valid: false,
+          message: result?.message || message || t('INVALID_CIDR', undefined, context?.locale),
+          code: result?.code || 'INVALID_CIDR',
+          meta: { ...result?.meta, index },
+        }
+      }
+    }
+
+    const overlaps = findCidrOverlaps(value)
+
+    if (!allowOverlap && overlaps.length > 0) {
+      const [first, second] = overlaps[0]
+      return {
+        valid: false,
+        message: message || t('CIDR_OVERLAP', { first: value[first], second: value[second] }, context?.locale),
+        code: 'CIDR_OVERLAP',
+        meta: { overlaps },
+      }
+    }
+
+    return { valid: true, meta: { overlaps } }
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * 身份证件号码规则
+ * 验证各国家/地区的身份证件号码（含校验位计算），并从中国居民身份证号码中提取出生日期、性别等信息
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 支持的国家/地区
+ * - CN: 中国居民身份证
+ * - HK: 香港身份证（HKID）
+ * - TW: 台湾身份证
+ * - US: 美国社会安全号（SSN）
+ * - GB: 英国国民保险号（NINO）
+ * - SG: 新加坡身份证/准证（NRIC/FIN）
+ */
+export type NationalIdCountry = 'CN' | 'GB' | 'HK' | 'SG' | 'TW' | 'US'
+
+/**
+ * 中国居民身份证号码信息
+ */
+export interface ChineseIdCardInfo {
+  /** 行政区划代码（前 6 位） */
+  regionCode: string
+
+  /** 省级行政区划代码（前 2 位） */
+  provinceCode: string
+
+  /** 出生日期（YYYY-MM-DD） */
+  birthDate: string
+
+  /** 性别（顺序码第 3 位即第 17 位，奇数为男，偶数为女） */
+  gender: 'male' | 'female'
+}
+
+/**
+ * 中国居民身份证校验码计算权重和校验码
+ */
+const ID_CARD_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2]
+const ID_CARD_CHECK_CODES = '10X98765432'
+
+/**
+ * 台湾身份证首字母，按对应数值（10-35）排列
+ */
+const TAIWAN_LETTERS = 'ABCDEFGHJKLMNPQRSTUVXYWZIO'
+
+/**
+ * 检查是否为真实存在且不晚于今天的日期
+ */
+function isPastDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day)
+
+  return date.getFullYear() === year
+    && date.getMonth() === month - 1
+    && date.getDate() === day
+    && date.getTime() <= Date.now()
+}
+
+/**
+ * 计算中国居民身份证号码的校验码
+ */
+function idCardCheckCode(value: string): string {
+  let sum = 0
+  for (let i = 0; i < 17; i++) {
+    sum += Number(value[i]) * ID_CARD_WEIGHTS[i]
+  }
+  return ID_CARD_CHECK_CODES[sum % 11]
+}
+
+/**
+ * 解析中国居民身份证号码（18 位）
+ * 验证格式、出生日期和校验码，任一不通过时返回 null
+ *
+ * @param value 身份证号码
+ * @returns 身份证信息
+ *
+ * @example
+ * ```typescript
+ * parseChineseIdCard('11010519491231002X')
+ * // { regionCode: '110105', provinceCode: '11', birthDate: '1949-12-31', gender: 'female' }
+ * ```
+ */
+export function parseChineseIdCard(value: string): ChineseIdCardInfo | null {
+  const match = /^([1-9]\d{5})(\d{4})(\d{2})(\d{2})(\d{3})[\dX]$/i.exec(value)
+
+  if (!match || !isPastDate(Number(match[2]), Number(match[3]), Number(match[4]))) {
+    return null
+  }
+
+  if (value[17].toUpperCase() !== idCardCheckCode(value)) {
+    return null
+  }
+
+  return {
+    regionCode: match[1],
+    provinceCode: match[1].slice(0, 2),
+    birthDate: `${match[2]}-${match[3]}-${match[4]}`,
+    gender: Number(match[5]) % 2 === 1 ? 'male' : 'female',
+  }
+}
+
+/**
+ * 身份证号验证（中国大陆）
+ * 验证格式、出生日期和校验码，验证通过时 meta 包含出生日期、性别和行政区划代码，可用于预填表单
+ *
+ * @example
+ * ```typescript
+ * const result = await createValidator<string>()
+ *   .rule({ validator: rules.idCard })
+ *   .validate('11010519491231002X')
+ *
+ * result.meta // { regionCode: '110105', provinceCode: '11', birthDate: '1949-12-31', gender: 'female' }
+ * ```
+ */
+export const idCard: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const match = /^[1-9]\d{5}(?:18|19|20)\d{2}(\d{2})(\d{2})\d{3}[\dX]$/i.exec(value)
+
+  if (!match || !isPastDate(Number(value.slice(6, 10)), Number(match[1]), Number(match[2]))) {
+    return {
+      valid: false,
+      message: t('INVALID_ID_CARD', undefined, context?.locale),
+      code: 'INVALID_ID_CARD',
+    }
+  }
+
+  const info = parseChineseIdCard(value)
+
+  if (!info) {
+    return {
+      valid: false,
+      message: t('INVALID_ID_CARD_CHECK', undefined, context?.locale),
+      code: 'INVALID_ID_CARD_CHECK',
+    }
+  }
+
+  return { valid: true, meta: { ...info } }
+}
+
+/**
+ * 香港身份证号码验证（HKID）
+ * 格式为 1-2 个字母 + 6 位数字 + 校验位（括号可省略），如 A123456(3)
+ */
+export const hkid: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const match = /^([A-Z]{1,2})(\d{6})(?:\(([\dA])\)|([\dA]))$/i.exec(value.trim())
+  let valid = false
+
+  if (match) {
+    // 单字母时在前面补一个值为 36 的空格，字母 A-Z 对应 10-35
+    const letters = match[1].toUpperCase().padStart(2, ' ')
+    const values = [
+      ...Array.from(letters, char => char === ' ' ? 36 : char.charCodeAt(0) - 55),
+      ...Array.from(match[2], Number),
+    ]
+    const sum = values.reduce((total, item, index) => total + item * (9 - index), 0)
+    const check = (11 - (sum % 11)) % 11
+
+    valid = (match[3] ?? match[4]).toUpperCase() === (check === 10 ? 'A' : String(check))
+  }
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_HKID', undefined, context?.locale),
+    code: 'INVALID_HKID',
+  }
+}
+
+/**
+ * 台湾身份证号码验证
+ * 格式为 1 个字母 + 性别码（1/2，新式居留证为 8/9）+ 8 位数字，如 A123456789
+ */
+export const taiwanId: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const normalized = value.trim().toUpperCase()
+  let valid = false
+
+  if (/^[A-Z][1289]\d{8}$/.test(normalized)) {
+    const letter = TAIWAN_LETTERS.indexOf(normalized[0]) + 10
+    const digits = Array.from(normalized.slice(1), Number)
+    // 字母十位权重 1、个位权重 9，其余各位权重 8 到 1，末位校验码权重 1
+    const sum = Math.floor(letter / 10) + (letter % 10) * 9
+      + digits.slice(0, 8).reduce((total, digit, index) => total + digit * (8 - index), 0)
+      + digits[8]
+
+    valid = sum % 10 === 0
+  }
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_TAIWAN_ID', undefined, context?.locale),
+    code: 'INVALID_TAIWAN_ID',
+  }
+}
+
+/**
+ * 美国社会安全号验证（SSN）
+ * 格式为 AAA-GG-SSSS 或 9 位数字；区域号不能为 000、666 或 9 开头，组号和序列号不能全为 0
+ */
+export const ssn: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const valid = /^(?!000|666|9)\d{3}(-?)(?!00)\d{2}\1(?!0000)\d{4}$/.test(value.trim())
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_SSN', undefined, context?.locale),
+    code: 'INVALID_SSN',
+  }
+}
+
+/**
+ * 英国国民保险号验证（NINO）
+ * 格式为 2 个前缀字母 + 6 位数字 + 后缀字母（A-D），如 AB 12 34 56 C，允许空格分隔
+ */
+export const nino: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const normalized = value.replace(/\s/g, '').toUpperCase()
+  // 前缀首字母不能为 D、F、I、Q、U、V，第二个字母不能为 D、F、I、O、Q、U、V，且排除 BG、GB、KN、NK、NT、TN、ZZ
+  const valid = /^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(normalized)
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_NINO', undefined, context?.locale),
+    code: 'INVALID_NINO',
+  }
+}
+
+/**
+ * 新加坡身份证/准证号码验证（NRIC/FIN）
+ * 格式为前缀字母（S/T/F/G/M）+ 7 位数字 + 校验字母，如 S1234567D
+ */
+export const nric: ValidatorFunction<string> = (value, context) => {
+  if (!value) {
+    return { valid: true }
+  }
+
+  const normalized = value.trim().toUpperCase()
+  let valid = false
+
+  if (/^[STFGM]\d{7}[A-Z]$/.test(normalized)) {
+    const prefix = normalized[0]
+    const weights = [2, 7, 6, 5, 4, 3, 2]
+    const offset = prefix === 'T' || prefix === 'G' ? 4 : prefix === 'M' ? 3 : 0
+    const sum = Array.from(normalized.slice(1, 8), Number)
+      .reduce((total, digit, index) => total + digit * weights[index], offset)
+    const table = prefix === 'S' || prefix === 'T'
+      ? 'JZIHGFEDCBA'
+      : prefix === 'M' ? 'XWUTRQPNJLK' : 'XWUTRQPNMLK'
+
+    valid = normalized[8] === table[sum % 11]
+  }
+
+  return {
+    valid,
+    message: valid ? undefined : t('INVALID_NRIC', undefined, context?.locale),
+    code: 'INVALID_NRIC',
+  }
+}
+
+/**
+ * 各国家/地区的身份证件号码验证器
+ */
+const NATIONAL_ID_VALIDATORS: Record<NationalIdCountry, ValidatorFunction<string>> = {
+  CN: idCard,
+  GB: nino,
+  HK: hkid,
+  SG: nric,
+  TW: taiwanId,
+  US: ssn,
+}
+
+/**
+ * 按国家/地区验证身份证件号码
+ *
+ * @param country 国家/地区
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.nationalId('HK') })
+ *
+ * await validator.validate('A123456(3)') // 通过
+ * ```
+ */
+export function nationalId(country: NationalIdCountry): ValidatorFunction<string> {
+  return NATIONAL_ID_VALIDATORS[country]
+}
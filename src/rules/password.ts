@@ -0,0 +1,566 @@
+/**
+ * 密码策略规则
+ * 可配置的密码策略引擎：长度与字符类型要求、重复字符、连续序列、键盘模式、字典词、
+ * 与用户名/邮箱的相似度、熵值下限，以及离线的泄露密码列表检查
+ */
+
+import type { DependentValidatorFunction, ValidationContext, ValidationResult } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { withDependencies } from '../utils/dependencies'
+import { sha1 } from '../utils/hash'
+import { ref } from './advanced'
+
+/**
+ * 泄露密码列表
+ * has 可以返回 Promise，以便从 IndexedDB 等本地存储中按需查询
+ */
+export interface BreachedPasswordList {
+  /**
+   * 密码是否在泄露列表中
+   */
+  has: (password: string) => boolean | Promise<boolean>
+}
+
+/**
+ * 泄露密码列表选项
+ */
+export interface BreachedPasswordListOptions {
+  /**
+   * 条目是否已经是 SHA-1 十六进制摘要（如从 Have I Been Pwned 导出的哈希列表）
+   * @default false
+   */
+  hashed?: boolean
+}
+
+/**
+ * 密码策略
+ */
+export interface PasswordPolicy {
+  /**
+   * 最小长度
+   * @default 8
+   */
+  minLength?: number
+
+  /**
+   * 最大长度
+   */
+  maxLength?: number
+
+  /**
+   * 是否要求小写字母
+   * @default true
+   */
+  lowercase?: boolean
+
+  /**
+   * 是否要求大写字母
+   * @default true
+   */
+  uppercase?: boolean
+
+  /**
+   * 是否要求数字
+   * @default true
+   */
+  number?: boolean
+
+  /**
+   * 是否要求特殊字符
+   * @default true
+   */
+  special?: boolean
+
+  /**
+   * 特殊字符集合，未设置时任何非字母数字字符都算特殊字符
+   */
+  specialChars?: string
+
+  /**
+   * 至少包含的字符类型数（小写、大写、数字、特殊字符），与单项要求同时生效
+   */
+  minClasses?: number
+
+  /**
+   * 同一字符最多连续出现的次数，如 3 表示拒绝 aaaa
+   */
+  maxRepeats?: number
+
+  /**
+   * 连续序列（如 abc、321）的最大允许长度，如 3 表示拒绝 abcd
+   */
+  maxSequence?: number
+
+  /**
+   * 拒绝长度不小于该值的键盘模式（如 qwer、asdf），为 true 时取 4
+   */
+  keyboardPatterns?: boolean | number
+
+  /**
+   * 禁止包含的字典词（不区分大小写，并识别 p@ssw0rd 之类的字符替换），为 true 时使用内置词表
+   */
+  dictionary?: boolean | Iterable<string>
+
+  /**
+   * 禁止与之相似的用户信息字段（从 formData 中读取），邮箱只比较 @ 之前的部分
+   * @default ['username', 'email']
+   */
+  userFields?: string[]
+
+  /**
+   * 最低熵值（比特），见 estimatePasswordEntropy
+   */
+  minEntropy?: number
+
+  /**
+   * 泄露密码列表，为 true 时使用内置的常见密码列表
+   */
+  breachedPasswords?: boolean | BreachedPasswordList
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 密码熵值估算结果
+ */
+export interface PasswordEntropy {
+  /** 熵值（比特，保留两位小数） */
+  entropy: number
+
+  /** 强度评分：0（很弱）到 4（很强） */
+  score: 0 | 1 | 2 | 3 | 4
+}
+
+/**
+ * 键盘行（含常见的数字行），用于识别 qwerty、asdf 等键盘模式
+ */
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', 'asdfghjkl;\'', 'zxcvbnm,./']
+
+/**
+ * 内置字典词
+ */
+const DICTIONARY_WORDS = [
+  'admin',
+  'baseball',
+  'dragon',
+  'football',
+  'iloveyou',
+  'letmein',
+  'login',
+  'master',
+  'monkey',
+  'pass',
+  'password',
+  'princess',
+  'secret',
+  'shadow',
+  'sunshine',
+  'superman',
+  'welcome',
+]
+
+/**
+ * 内置常见密码（取自公开的泄露密码排行）
+ */
+const COMMON_PASSWORDS = [
+  '000000',
+  '111111',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123qwe',
+  '1q2w3e4r',
+  '654321',
+  '666666',
+  '888888',
+  'a123456',
+  'aa123456',
+  'abc123',
+  'admin',
+  'admin123',
+  'dragon',
+  'football',
+  'iloveyou',
+  'letmein',
+  'monkey',
+  'p@ssw0rd',
+  'passw0rd',
+  'password',
+  'password1',
+  'password123',
+  'Password@123',
+  'princess',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'sunshine',
+  'welcome',
+  'woaini1314',
+  'zxcvbnm',
+]
+
+/**
+ * 常见的字符替换（leet speak）
+ */
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+}
+
+let commonPasswordList: BreachedPasswordList | undefined
+
+/**
+ * 创建泄露密码列表
+ * 明文条目在创建时即转换为 SHA-1 摘要，列表本身只保存摘要
+ *
+ * @param entries 密码或 SHA-1 摘要
+ * @param options 选项
+ * @returns 泄露密码列表
+ *
+ * @example
+ * ```typescript
+ * // 使用从 Have I Been Pwned 导出的哈希列表
+ * const breached = createBreachedPasswordList(hashes, { hashed: true })
+ *
+ * rules.passwordPolicy({ breachedPasswords: breached })
+ * ```
+ */
+export function createBreachedPasswordList(
+  entries: Iterable<string>,
+  options: BreachedPasswordListOptions = {},
+): BreachedPasswordList {
+  const hashes = new Set<string>()
+
+  for (const entry of entries) {
+    hashes.add(options.hashed ? entry.trim().toUpperCase() : sha1(entry))
+  }
+
+  return {
+    has: password => hashes.has(sha1(password)),
+  }
+}
+
+/**
+ * 获取内置的常见密码列表
+ * @returns 泄露密码列表
+ */
+export function getCommonPasswordList(): BreachedPasswordList {
+  commonPasswordList ??= createBreachedPasswordList(COMMON_PASSWORDS)
+  return commonPasswordList
+}
+
+/**
+ * 估算密码熵值
+ * 按出现的字符类型估算字符池大小，熵值 = 长度 × log2(字符池大小)
+ *
+ * @param password 密码
+ * @returns 熵值和强度评分
+ *
+ * @example
+ * ```typescript
+ * estimatePasswordEntropy('Tr0ub4dor&3') // { entropy: 72.27, score: 3 }
+ * ```
+ */
+export function estimatePasswordEntropy(password: string): PasswordEntropy {
+  const chars = Array.from(password)
+  let pool = 0
+
+  if (/[a-z]/.test(password)) {
+    pool += 26
+  }
+  if (/[A-Z]/.test(password)) {
+    pool += 26
+  }
+  if (/\d/.test(password)) {
+    pool += 10
+  }
+  if (/[\x20-\x2F\x3A-\x40\x5B-\x60\x7B-\x7E]/.test(password)) {
+    pool += 33
+  }
+  if (chars.some(char => char.charCodeAt(0) > 0x7E)) {
+    pool += 100
+  }
+
+  const entropy = pool ? Math.round(chars.length * Math.log2(pool) * 100) / 100 : 0
+  const score = entropy < 28 ? 0 : entropy < 36 ? 1 : entropy < 60 ? 2 : entropy < 128 ? 3 : 4
+
+  return { entropy, score }
+}
+
+/**
+ * 最长的同字符连续长度
+ */
+function longestRepeat(password: string): number {
+  let longest = 0
+  let run = 0
+
+  for (let i = 0; i < password.length; i++) {
+    run = i > 0 && password[i] === password[i - 1] ? run + 1 : 1
+    longest = Math.max(longest, run)
+  }
+  return longest
+}
+
+/**
+ * 字符类型（仅区分字母和数字）
+ */
+function charKind(char: string | undefined): 'letter' | 'digit' | undefined {
+  if (!char) {
+    return undefined
+  }
+  return /[a-z]/i.test(char) ? 'letter' : /\d/.test(char) ? 'digit' : undefined
+}
+
+/**
+ * 最长的字母或数字连续序列长度（升序或降序，如 abc、987）
+ */
+function longestSequence(password: string): number {
+  const lower = password.toLowerCase()
+  let longest = 0
+  let run = 0
+  let step = 0
+
+  for (let i = 0; i < lower.length; i++) {
+    const diff = i > 0 ? lower.charCodeAt(i) - lower.charCodeAt(i - 1) : 0
+    const kind = charKind(lower[i])
+
+    if (kind && kind === charKind(lower[i - 1]) && Math.abs(diff) === 1) {
+      run = diff === step ? run + 1 : 2
+      step = diff
+    }
+    else {
+      run = kind ? 1 : 0
+      step = 0
+    }
+    longest = Math.max(longest, run)
+  }
+  return longest
+}
+
+/**
+ * 是否包含长度不小于 length 的键盘模式（正向或反向）
+ */
+function hasKeyboardPattern(password: string, length: number): boolean {
+  const lower = password.toLowerCase()
+
+  for (let i = 0; i + length <= lower.length; i++) {
+    const part = lower.slice(i, i + length)
+    const reversed = Array.from(part).reverse().join('')
+
+    if (KEYBOARD_ROWS.some(row => row.includes(part) || row.includes(reversed))) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * 转为小写并还原常见的字符替换
+ */
+function normalizeLeet(value: string): string {
+  return Array.from(value.toLowerCase(), char => LEET_MAP[char] ?? char).join('')
+}
+
+/**
+ * 查找密码中包含的字典词
+ */
+function findDictionaryWord(password: string, words: Iterable<string>): string | undefined {
+  const lower = password.toLowerCase()
+  const normalized = normalizeLeet(password)
+
+  for (const word of words) {
+    const target = word.toLowerCase()
+    if (target.length >= 3 && (lower.includes(target) || normalized.includes(target))) {
+      return word
+    }
+  }
+  return undefined
+}
+
+/**
+ * 查找与密码相似的用户信息字段
+ * 密码包含该字段的值（至少 3 个字符），或字段值包含整个密码时视为相似
+ */
+function findSimilarField(password: string, fields: string[], context?: ValidationContext): string | undefined {
+  const lower = password.toLowerCase()
+  const normalized = normalizeLeet(password)
+
+  for (const field of fields) {
+    const raw = ref(field)(context)
+    if (typeof raw !== 'string' || !raw) {
+      continue
+    }
+
+    const input = raw.toLowerCase().split('@')[0]
+    if (input.length >= 3 && (lower.includes(input) || normalized.includes(input) || input.includes(lower))) {
+      return field
+    }
+  }
+  return undefined
+}
+
+/**
+ * 可配置的密码策略验证
+ * 默认要求至少 8 个字符并包含大小写字母、数字和特殊字符，其余检查按策略开启；
+ * meta 包含熵值、强度评分和所有未满足的检查项（failures，错误代码列表），可用于显示强度条。
+ * 配置了泄露密码列表且其 has 返回 Promise 时，验证器为异步
+ *
+ * @param policy 密码策略
+ * @returns 验证器函数（声明了对 userFields 的依赖）
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({
+ *     validator: rules.passwordPolicy({
+ *       minLength: 12,
+ *       special: false,
+ *       maxRepeats: 2,
+ *       maxSequence: 3,
+ *       keyboardPatterns: true,
+ *       dictionary: true,
+ *       minEntropy: 60,
+ *       breachedPasswords: true,
+ *     }),
+ *   })
+ *
+ * const result = await validator.validate('Alice2024abcd', { formData: { username: 'alice' } })
+ * result.code // 'PASSWORD_SEQUENCE'
+ * result.meta // { entropy: 77.4, score: 3, failures: ['PASSWORD_SEQUENCE', 'PASSWORD_SIMILAR_TO_USER'] }
+ * ```
+ */
+export function passwordPolicy(policy: PasswordPolicy = {}): DependentValidatorFunction<string> {
+  const {
+    minLength = 8,
+    maxLength,
+    lowercase = true,
+    uppercase = true,
+    number = true,
+    special = true,
+    specialChars,
+    minClasses,
+    maxRepeats,
+    maxSequence,
+    keyboardPatterns,
+    dictionary,
+    userFields = ['username', 'email'],
+    minEntropy,
+    breachedPasswords,
+    message,
+  } = policy
+
+  const keyboardLength = keyboardPatterns === true ? 4 : keyboardPatterns || 0
+  const dictionaryWords = dictionary === true ? DICTIONARY_WORDS : dictionary ? Array.from(dictionary) : []
+  const breachList = breachedPasswords === true ? getCommonPasswordList() : breachedPasswords || undefined
+
+  return withDependencies((value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const failures: { code: string, message: string }[] = []
+    const fail = (code: string, params?: Record<string, any>) => {
+      failures.push({ code, message: t(code, params, locale) })
+    }
+
+    // 长度和字符类型要求合并为一条 WEAK_PASSWORD 消息
+    const classes = {
+      lowercase: /[a-z]/.test(value),
+      uppercase: /[A-Z]/.test(value),
+      number: /\d/.test(value),
+      special: specialChars
+        ? Array.from(value).some(char => specialChars.includes(char))
+        : /[^a-z\d]/i.test(value),
+    }
+    const missing: string[] = []
+
+    if (value.length < minLength) {
+      missing.push(t('PASSWORD_MIN_LENGTH', { min: minLength }, locale))
+    }
+    if (lowercase && !classes.lowercase) {
+      missing.push(t('PASSWORD_LOWERCASE', undefined, locale))
+    }
+    if (uppercase && !classes.uppercase) {
+      missing.push(t('PASSWORD_UPPERCASE', undefined, locale))
+    }
+    if (number && !classes.number) {
+      missing.push(t('PASSWORD_NUMBER', undefined, locale))
+    }
+    if (special && !classes.special) {
+      missing.push(t('PASSWORD_SPECIAL', undefined, locale))
+    }
+    if (minClasses && Object.values(classes).filter(Boolean).length < minClasses) {
+      missing.push(t('PASSWORD_CLASSES', { count: minClasses }, locale))
+    }
+    if (missing.length > 0) {
+      fail('WEAK_PASSWORD', { missing: missing.join(t('LIST_SEPARATOR', undefined, locale)) })
+    }
+
+    if (maxLength !== undefined && value.length > maxLength) {
+      fail('PASSWORD_MAX_LENGTH', { max: maxLength })
+    }
+    if (maxRepeats !== undefined && longestRepeat(value) > maxRepeats) {
+      fail('PASSWORD_REPEATED', { max: maxRepeats })
+    }
+    if (maxSequence !== undefined && longestSequence(value) > maxSequence) {
+      fail('PASSWORD_SEQUENCE', { max: maxSequence })
+    }
+    if (keyboardLength && hasKeyboardPattern(value, keyboardLength)) {
+      fail('PASSWORD_KEYBOARD_PATTERN')
+    }
+
+    const word = findDictionaryWord(value, dictionaryWords)
+    if (word) {
+      fail('PASSWORD_DICTIONARY_WORD', { word })
+    }
+
+    const field = findSimilarField(value, userFields, context)
+    if (field) {
+      fail('PASSWORD_SIMILAR_TO_USER', { field })
+    }
+
+    const { entropy, score } = estimatePasswordEntropy(value)
+    if (minEntropy !== undefined && entropy < minEntropy) {
+      fail('PASSWORD_LOW_ENTROPY', { entropy, min: minEntropy })
+    }
+
+    const toResult = (breached: boolean): ValidationResult => {
+      if (breached) {
+        fail('PASSWORD_BREACHED')
+      }
+
+      const meta = { entropy, score, failures: failures.map(failure => failure.code) }
+
+      if (failures.length === 0) {
+        return { valid: true, meta }
+      }
+
+      return {
+        valid: false,
+        message: message || failures[0].message,
+        code: failures[0].code,
+        meta,
+      }
+    }
+
+    const breached = breachList ? breachList.has(value) : false
+    return breached instanceof Promise ? breached.then(toResult) : toResult(breached)
+  }, userFields)
+}
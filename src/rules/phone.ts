@@ -0,0 +1,324 @@
+/**
+ * 国际电话号码规则
+ * 按国家/地区元数据解析 E.164、国际格式（+ 或 00 前缀）和国内格式的电话号码，识别号码类型并规范化为 E.164
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 支持的国家/地区（ISO 3166-1 alpha-2）
+ */
+export type PhoneRegion
+  = | 'AU' | 'BR' | 'CA' | 'CN' | 'DE' | 'ES' | 'FR' | 'GB' | 'HK'
+    | 'IN' | 'IT' | 'JP' | 'KR' | 'MO' | 'RU' | 'SG' | 'TW' | 'US'
+
+/**
+ * 号码类型
+ * - mobile: 移动电话
+ * - fixed: 固定电话
+ * - fixedOrMobile: 无法从号码区分（如北美号码）
+ */
+export type PhoneNumberType = 'mobile' | 'fixed' | 'fixedOrMobile'
+
+/**
+ * 国家/地区电话号码元数据
+ */
+export interface PhoneRegionMetadata {
+  /** 国家呼叫代码（不含 +） */
+  callingCode: string
+
+  /** 国内长途前缀（如中国的 0），拨打国际号码时省略 */
+  nationalPrefix?: string
+
+  /** 共用呼叫代码时，用于判断号码归属的国内有效号码前缀 */
+  leadingDigits?: RegExp
+
+  /** 移动电话的国内有效号码 */
+  mobile: RegExp
+
+  /** 固定电话的国内有效号码 */
+  fixed: RegExp
+}
+
+/**
+ * 电话号码解析结果
+ */
+export interface PhoneNumberInfo {
+  /** 国家/地区 */
+  region: PhoneRegion
+
+  /** 国家呼叫代码（不含 +） */
+  callingCode: string
+
+  /** 国内有效号码（不含长途前缀） */
+  nationalNumber: string
+
+  /** 号码类型 */
+  type: PhoneNumberType
+
+  /** E.164 格式（如 +8613800138000） */
+  e164: string
+}
+
+/**
+ * 电话号码验证选项
+ */
+export interface PhoneNumberOptions {
+  /**
+   * 解析国内格式号码（不带国家呼叫代码）时使用的国家/地区
+   * 未设置时只接受带国家呼叫代码的号码
+   */
+  defaultRegion?: PhoneRegion
+
+  /**
+   * 允许的国家/地区（不设置时允许所有支持的地区）
+   */
+  regions?: PhoneRegion[]
+
+  /**
+   * 允许的号码类型（不设置时允许所有类型），'fixedOrMobile' 号码同时满足 'mobile' 和 'fixed'
+   */
+  types?: Array<'mobile' | 'fixed'>
+
+  /**
+   * 是否只接受 E.164 格式（+ 和国家呼叫代码开头，不含分隔符）
+   * @default false
+   */
+  e164?: boolean
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 北美编号计划号码（美国、加拿大共用）
+ */
+const NANP = /^[2-9]\d{2}[2-9]\d{6}$/
+
+/**
+ * 各国家/地区的电话号码元数据
+ * 共用呼叫代码的地区中，带 leadingDigits 的地区优先匹配
+ */
+export const PHONE_METADATA: Readonly<Record<PhoneRegion, PhoneRegionMetadata>> = {
+  AU: { callingCode: '61', nationalPrefix: '0', mobile: /^4\d{8}$/, fixed: /^[2378]\d{8}$/ },
+  BR: { callingCode: '55', nationalPrefix: '0', mobile: /^[1-9]{2}9\d{8}$/, fixed: /^[1-9]{2}[2-5]\d{7}$/ },
+  CA: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    leadingDigits: /^(?:204|226|236|249|250|263|289|306|343|354|365|367|368|382|387|403|416|418|428|431|437|438|450|460|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905)/,
+    mobile: NANP,
+    fixed: NANP,
+  },
+  CN: {
+    callingCode: '86',
+    nationalPrefix: '0',
+    mobile: /^1[3-9]\d{9}$/,
+    fixed: /^(?:(?:10|2\d)[2-9]\d{6,7}|[3-9]\d{2}[2-9]\d{6,7})$/,
+  },
+  DE: { callingCode: '49', nationalPrefix: '0', mobile: /^1[5-7]\d{8,9}$/, fixed: /^[2-9]\d{5,10}$/ },
+  ES: { callingCode: '34', mobile: /^[67]\d{8}$/, fixed: /^[89]\d{8}$/ },
+  FR: { callingCode: '33', nationalPrefix: '0', mobile: /^[67]\d{8}$/, fixed: /^[1-59]\d{8}$/ },
+  GB: { callingCode: '44', nationalPrefix: '0', mobile: /^7[1-57-9]\d{8}$/, fixed: /^[12]\d{8,9}$/ },
+  HK: { callingCode: '852', mobile: /^[5-79]\d{7}$/, fixed: /^[23]\d{7}$/ },
+  IN: { callingCode: '91', nationalPrefix: '0', mobile: /^[6-9]\d{9}$/, fixed: /^[1-5]\d{9}$/ },
+  IT: { callingCode: '39', mobile: /^3\d{8,9}$/, fixed: /^0\d{5,10}$/ },
+  JP: { callingCode: '81', nationalPrefix: '0', mobile: /^[789]0\d{8}$/, fixed: /^[1-9]\d{8}$/ },
+  KR: { callingCode: '82', nationalPrefix: '0', mobile: /^1[016-9]\d{7,8}$/, fixed: /^(?:2|[3-6][1-5])\d{7,8}$/ },
+  MO: { callingCode: '853', mobile: /^6\d{7}$/, fixed: /^28\d{6}$/ },
+  RU: { callingCode: '7', nationalPrefix: '8', mobile: /^9\d{9}$/, fixed: /^[3-8]\d{9}$/ },
+  SG: { callingCode: '65', mobile: /^[89]\d{7}$/, fixed: /^6\d{7}$/ },
+  TW: { callingCode: '886', nationalPrefix: '0', mobile: /^9\d{8}$/, fixed: /^[2-8]\d{7,8}$/ },
+  US: { callingCode: '1', nationalPrefix: '1', mobile: NANP, fixed: NANP },
+}
+
+/**
+ * 号码中允许出现的分隔符
+ */
+const SEPARATORS = /[\s\-.()/]/g
+
+/**
+ * 按地区元数据识别国内有效号码的类型
+ */
+function detectType(metadata: PhoneRegionMetadata, nationalNumber: string): PhoneNumberType | undefined {
+  if (metadata.leadingDigits && !metadata.leadingDigits.test(nationalNumber)) {
+    return undefined
+  }
+
+  const mobile = metadata.mobile.test(nationalNumber)
+  const fixed = metadata.fixed.test(nationalNumber)
+
+  if (mobile && fixed) {
+    return 'fixedOrMobile'
+  }
+  return mobile ? 'mobile' : fixed ? 'fixed' : undefined
+}
+
+/**
+ * 在候选地区中匹配国内有效号码
+ */
+function matchRegion(regions: PhoneRegion[], nationalNumber: string): PhoneNumberInfo | null {
+  // 带 leadingDigits 的地区更具体，优先匹配
+  const ordered = [...regions].sort((a, b) =>
+    Number(!PHONE_METADATA[a].leadingDigits) - Number(!PHONE_METADATA[b].leadingDigits))
+
+  for (const region of ordered) {
+    const metadata = PHONE_METADATA[region]
+    const type = detectType(metadata, nationalNumber)
+
+    if (type) {
+      return {
+        region,
+        callingCode: metadata.callingCode,
+        nationalNumber,
+        type,
+        e164: `+${metadata.callingCode}${nationalNumber}`,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * 解析电话号码
+ * 支持 E.164（+8613800138000）、带分隔符的国际格式（+1 (415) 555-2671、0044 20 7946 0958）
+ * 和带国内长途前缀的国内格式（010-12345678，需提供 defaultRegion）
+ *
+ * @param value 电话号码
+ * @param defaultRegion 解析国内格式号码时使用的国家/地区
+ * @returns 解析结果，无法识别时返回 null
+ *
+ * @example
+ * ```typescript
+ * parsePhoneNumber('+44 7911 123456')
+ * // { region: 'GB', callingCode: '44', nationalNumber: '7911123456', type: 'mobile', e164: '+447911123456' }
+ *
+ * parsePhoneNumber('(415) 555-2671', 'US')?.e164 // '+14155552671'
+ * ```
+ */
+export function parsePhoneNumber(value: string, defaultRegion?: PhoneRegion): PhoneNumberInfo | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const compact = value.trim().replace(SEPARATORS, '')
+  const international = compact.startsWith('+') ? compact.slice(1) : compact.startsWith('00') ? compact.slice(2) : undefined
+
+  if (international !== undefined) {
+    if (!/^\d+$/.test(international)) {
+      return null
+    }
+
+    // 呼叫代码为 1-3 位，且不存在互为前缀的呼叫代码
+    for (let length = 1; length <= 3; length++) {
+      const callingCode = international.slice(0, length)
+      const regions = (Object.keys(PHONE_METADATA) as PhoneRegion[])
+        .filter(region => PHONE_METADATA[region].callingCode === callingCode)
+
+      if (regions.length > 0) {
+        return matchRegion(regions, international.slice(length))
+      }
+    }
+
+    return null
+  }
+
+  if (!defaultRegion || !/^\d+$/.test(compact)) {
+    return null
+  }
+
+  const { callingCode, nationalPrefix } = PHONE_METADATA[defaultRegion]
+  const regions = (Object.keys(PHONE_METADATA) as PhoneRegion[])
+    .filter(region => PHONE_METADATA[region].callingCode === callingCode)
+
+  if (nationalPrefix && compact.startsWith(nationalPrefix)) {
+    const info = matchRegion(regions, compact.slice(nationalPrefix.length))
+    if (info) {
+      return info
+    }
+  }
+
+  return matchRegion(regions, compact)
+}
+
+/**
+ * 把电话号码规范化为 E.164 格式
+ *
+ * @param value 电话号码
+ * @param defaultRegion 解析国内格式号码时使用的国家/地区
+ * @returns E.164 格式的号码，无法识别时返回 null
+ *
+ * @example
+ * ```typescript
+ * toE164('138 0013 8000', 'CN') // '+8613800138000'
+ * toE164('0049 30 1234567') // '+49301234567'
+ * ```
+ */
+export function toE164(value: string, defaultRegion?: PhoneRegion): string | null {
+  return parsePhoneNumber(value, defaultRegion)?.e164 ?? null
+}
+
+/**
+ * 国际电话号码验证
+ * 验证通过时 meta 包含解析结果（地区、号码类型和 E.164 格式）
+ *
+ * @param options 验证选项，传入地区代码时等同于 `{ defaultRegion: region, regions: [region] }`
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * // 只允许美国和加拿大的手机号，可以不带国家呼叫代码
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.phoneNumber({ defaultRegion: 'US', regions: ['US', 'CA'], types: ['mobile'] }) })
+ *
+ * await validator.validate('(415) 555-2671') // 通过
+ * await validator.validate('+44 7911 123456') // 失败：地区不允许
+ * ```
+ */
+export function phoneNumber(options: PhoneNumberOptions | PhoneRegion = {}): ValidatorFunction<string> {
+  const { defaultRegion, regions, types, e164, message } = typeof options === 'string'
+    ? { defaultRegion: options, regions: [options] } as PhoneNumberOptions
+    : options
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const info = e164 && !/^\+\d+$/.test(value) ? null : parsePhoneNumber(value, defaultRegion)
+
+    if (!info) {
+      return {
+        valid: false,
+        message: message || t(e164 ? 'INVALID_PHONE_E164' : 'INVALID_PHONE', undefined, locale),
+        code: e164 ? 'INVALID_PHONE_E164' : 'INVALID_PHONE',
+      }
+    }
+
+    if (regions && !regions.includes(info.region)) {
+      return {
+        valid: false,
+        message: message || t('INVALID_PHONE_REGION', { regions: regions.join(', ') }, locale),
+        code: 'INVALID_PHONE_REGION',
+        meta: { ...info, regions },
+      }
+    }
+
+    if (types && info.type !== 'fixedOrMobile' && !types.includes(info.type)) {
+      const names = types.map(type => t(type === 'mobile' ? 'PHONE_TYPE_MOBILE' : 'PHONE_TYPE_FIXED', undefined, locale))
+
+      return {
+        valid: false,
+        message: message || t('INVALID_PHONE_TYPE', { types: names.join(t('LIST_SEPARATOR', undefined, locale)) }, locale),
+        code: 'INVALID_PHONE_TYPE',
+        meta: { ...info, types },
+      }
+    }
+
+    return { valid: true, meta: { ...info } }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * 邮政编码规则
+ * 按国家/地区验证邮政编码，内置常用国家的格式，可通过 registerPostalCode 注册更多国家
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 各国家/地区的邮政编码格式（ISO 3166-1 alpha-2，大写）
+ */
+const POSTAL_CODE_PATTERNS = new Map<string, RegExp>([
+  ['AU', /^\d{4}$/],
+  ['BR', /^\d{5}-?\d{3}$/],
+  ['CA', /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i],
+  ['CH', /^\d{4}$/],
+  ['CN', /^\d{6}$/],
+  ['DE', /^\d{5}$/],
+  ['ES', /^(?:0[1-9]|[1-4]\d|5[0-2])\d{3}$/],
+  ['FR', /^\d{5}$/],
+  ['GB', /^(?:GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})$/i],
+  ['IN', /^[1-9]\d{5}$/],
+  ['IT', /^\d{5}$/],
+  ['JP', /^\d{3}-?\d{4}$/],
+  ['KR', /^\d{5}$/],
+  ['NL', /^[1-9]\d{3} ?[A-Z]{2}$/i],
+  ['RU', /^\d{6}$/],
+  ['SE', /^\d{3} ?\d{2}$/],
+  ['SG', /^\d{6}$/],
+  ['TW', /^\d{3}(?:\d{2,3})?$/],
+  ['US', /^\d{5}(?:-\d{4})?$/],
+])
+
+/**
+ * 国家/地区代码别名（常见的非 ISO 写法）
+ */
+const COUNTRY_ALIASES = new Map<string, string>([
+  ['UK', 'GB'],
+])
+
+/**
+ * 规范化国家/地区代码：转为大写并解析别名
+ */
+function normalizeCountry(country: string): string {
+  const code = country.trim().toUpperCase()
+  return COUNTRY_ALIASES.get(code) ?? code
+}
+
+/**
+ * 注册（或覆盖）国家/地区的邮政编码格式
+ *
+ * @param country 国家/地区代码（ISO 3166-1 alpha-2，不区分大小写，UK 视为 GB）
+ * @param pattern 邮政编码格式
+ *
+ * @example
+ * ```typescript
+ * registerPostalCode('PL', /^\d{2}-\d{3}$/)
+ * rules.postalCode('PL')('00-950') // 通过
+ * ```
+ */
+export function registerPostalCode(country: string, pattern: RegExp): void {
+  POSTAL_CODE_PATTERNS.set(normalizeCountry(country), pattern)
+}
+
+/**
+ * 获取国家/地区的邮政编码格式
+ * @param country 国家/地区代码（不区分大小写，UK 视为 GB）
+ * @returns 邮政编码格式，未注册时返回 undefined
+ */
+export function getPostalCodePattern(country: string): RegExp | undefined {
+  return POSTAL_CODE_PATTERNS.get(normalizeCountry(country))
+}
+
+/**
+ * 获取已注册邮政编码格式的国家/地区
+ * @returns 国家/地区代码列表
+ */
+export function getPostalCodeCountries(): string[] {
+  return Array.from(POSTAL_CODE_PATTERNS.keys())
+}
+
+/**
+ * 按国家/地区验证邮政编码
+ * 未注册格式的国家/地区视为无效
+ *
+ * @param value 邮政编码
+ * @param country 国家/地区代码
+ * @returns 是否有效
+ */
+export function isPostalCode(value: string, country: string): boolean {
+  const pattern = getPostalCodePattern(country)
+  return pattern ? pattern.test(value) : false
+}
+
+/**
+ * 邮政编码验证
+ * 国家/地区随表单变化时，使用 rules.countryPostalCode 读取 formData 中的国家字段。
+ * 未注册格式的国家/地区（如拼写错误）验证失败，错误码为 POSTAL_CODE_COUNTRY_UNSUPPORTED；
+ * 可通过 registerPostalCode 补充
+ *
+ * @param country 国家/地区代码
+ * @param message 自定义错误消息
+ * @returns 验证器函数
+ *
+ * @example
+ * ```typescript
+ * const validator = createValidator<string>()
+ *   .rule({ validator: rules.postalCode('US') })
+ *
+ * await validator.validate('94105-1420') // 通过
+ * await validator.validate('9410') // 失败
+ * ```
+ */
+export function postalCode(country = 'CN', message?: string): ValidatorFunction<string> {
+  const code = normalizeCountry(country)
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const pattern = getPostalCodePattern(code)
+
+    if (!pattern) {
+      return {
+        valid: false,
+        message: message || t('POSTAL_CODE_COUNTRY_UNSUPPORTED', { country: code }, context?.locale),
+        code: 'POSTAL_CODE_COUNTRY_UNSUPPORTED',
+        meta: { country: code },
+      }
+    }
+
+    const valid = pattern.test(value)
+
+    return {
+      valid,
+      message: valid ? undefined : message || t('INVALID_POSTAL_CODE', undefined, context?.locale),
+      code: 'INVALID_POSTAL_CODE',
+      meta: { country: code },
+    }
+  }
+}
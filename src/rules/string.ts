@@ -1,10 +1,11 @@
 import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
 
 /**
  * 精确长度验证
  */
 export function length(exactLength: number): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -13,7 +14,7 @@ export function length(exactLength: number): ValidatorFunction<string> {
 
     return {
       valid,
-      message: valid ? undefined : `长度必须为 ${exactLength} 个字符`,
+      message: valid ? undefined : t('EXACT_LENGTH', { length: exactLength }, context?.locale),
       code: 'EXACT_LENGTH',
     }
   }
@@ -23,7 +24,7 @@ export function length(exactLength: number): ValidatorFunction<string> {
  * 前缀验证
  */
 export function startsWith(prefix: string, message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -32,7 +33,7 @@ export function startsWith(prefix: string, message?: string): ValidatorFunction<
 
     return {
       valid,
-      message: valid ? undefined : message || `必须以 "${prefix}" 开头`,
+      message: valid ? undefined : message || t('STARTS_WITH', { prefix }, context?.locale),
       code: 'STARTS_WITH',
     }
   }
@@ -42,7 +43,7 @@ export function startsWith(prefix: string, message?: string): ValidatorFunction<
  * 后缀验证
  */
 export function endsWith(suffix: string, message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -51,7 +52,7 @@ export function endsWith(suffix: string, message?: string): ValidatorFunction<st
 
     return {
       valid,
-      message: valid ? undefined : message || `必须以 "${suffix}" 结尾`,
+      message: valid ? undefined : message || t('ENDS_WITH', { suffix }, context?.locale),
       code: 'ENDS_WITH',
     }
   }
@@ -61,7 +62,7 @@ export function endsWith(suffix: string, message?: string): ValidatorFunction<st
  * 包含子串验证
  */
 export function contains(substring: string, message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -70,7 +71,7 @@ export function contains(substring: string, message?: string): ValidatorFunction
 
     return {
       valid,
-      message: valid ? undefined : message || `必须包含 "${substring}"`,
+      message: valid ? undefined : message || t('CONTAINS', { substring }, context?.locale),
       code: 'CONTAINS',
     }
   }
@@ -80,7 +81,7 @@ export function contains(substring: string, message?: string): ValidatorFunction
  * 不包含子串验证
  */
 export function notContains(substring: string, message?: string): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -89,7 +90,7 @@ export function notContains(substring: string, message?: string): ValidatorFunct
 
     return {
       valid,
-      message: valid ? undefined : message || `不能包含 "${substring}"`,
+      message: valid ? undefined : message || t('NOT_CONTAINS', { substring }, context?.locale),
       code: 'NOT_CONTAINS',
     }
   }
@@ -99,7 +100,7 @@ export function notContains(substring: string, message?: string): ValidatorFunct
  * 去除首尾空格后验证（返回转换后的验证器）
  */
 export function trim(): ValidatorFunction<string> {
-  return (value) => {
+  return (value, context) => {
     if (!value) {
       return { valid: true }
     }
@@ -109,7 +110,7 @@ export function trim(): ValidatorFunction<string> {
 
     return {
       valid,
-      message: valid ? undefined : '不能包含首尾空格',
+      message: valid ? undefined : t('TRIM', undefined, context?.locale),
       code: 'TRIM',
     }
   }
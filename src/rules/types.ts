@@ -1,14 +1,15 @@
 import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
 
 /**
  * 字符串类型验证
  */
-export const isString: ValidatorFunction = (value) => {
+export const isString: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'string'
 
   return {
     valid,
-    message: valid ? undefined : '必须是字符串类型',
+    message: valid ? undefined : t('NOT_STRING', undefined, context?.locale),
     code: 'NOT_STRING',
   }
 }
@@ -16,12 +17,12 @@ export const isString: ValidatorFunction = (value) => {
 /**
  * 数字类型验证
  */
-export const isNumber: ValidatorFunction = (value) => {
+export const isNumber: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'number' && !Number.isNaN(value)
 
   return {
     valid,
-    message: valid ? undefined : '必须是数字类型',
+    message: valid ? undefined : t('NOT_NUMBER', undefined, context?.locale),
     code: 'NOT_NUMBER',
   }
 }
@@ -29,12 +30,12 @@ export const isNumber: ValidatorFunction = (value) => {
 /**
  * 布尔类型验证
  */
-export const isBoolean: ValidatorFunction = (value) => {
+export const isBoolean: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'boolean'
 
   return {
     valid,
-    message: valid ? undefined : '必须是布尔类型',
+    message: valid ? undefined : t('NOT_BOOLEAN', undefined, context?.locale),
     code: 'NOT_BOOLEAN',
   }
 }
@@ -42,12 +43,12 @@ export const isBoolean: ValidatorFunction = (value) => {
 /**
  * 数组类型验证
  */
-export const isArray: ValidatorFunction = (value) => {
+export const isArray: ValidatorFunction = (value, context) => {
   const valid = Array.isArray(value)
 
   return {
     valid,
-    message: valid ? undefined : '必须是数组类型',
+    message: valid ? undefined : t('NOT_ARRAY', undefined, context?.locale),
     code: 'NOT_ARRAY',
   }
 }
@@ -55,12 +56,12 @@ export const isArray: ValidatorFunction = (value) => {
 /**
  * 对象类型验证（不包括 null 和数组）
  */
-export const isObject: ValidatorFunction = (value) => {
+export const isObject: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'object' && value !== null && !Array.isArray(value)
 
   return {
     valid,
-    message: valid ? undefined : '必须是对象类型',
+    message: valid ? undefined : t('NOT_OBJECT', undefined, context?.locale),
     code: 'NOT_OBJECT',
   }
 }
@@ -68,12 +69,12 @@ export const isObject: ValidatorFunction = (value) => {
 /**
  * null 检查
  */
-export const isNull: ValidatorFunction = (value) => {
+export const isNull: ValidatorFunction = (value, context) => {
   const valid = value === null
 
   return {
     valid,
-    message: valid ? undefined : '必须是 null',
+    message: valid ? undefined : t('NOT_NULL', undefined, context?.locale),
     code: 'NOT_NULL',
   }
 }
@@ -81,12 +82,12 @@ export const isNull: ValidatorFunction = (value) => {
 /**
  * undefined 检查
  */
-export const isUndefined: ValidatorFunction = (value) => {
+export const isUndefined: ValidatorFunction = (value, context) => {
   const valid = value === undefined
 
   return {
     valid,
-    message: valid ? undefined : '必须是 undefined',
+    message: valid ? undefined : t('NOT_UNDEFINED', undefined, context?.locale),
     code: 'NOT_UNDEFINED',
   }
 }
@@ -94,12 +95,12 @@ export const isUndefined: ValidatorFunction = (value) => {
 /**
  * 函数类型验证
  */
-export const isFunction: ValidatorFunction = (value) => {
+export const isFunction: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'function'
 
   return {
     valid,
-    message: valid ? undefined : '必须是函数类型',
+    message: valid ? undefined : t('NOT_FUNCTION', undefined, context?.locale),
     code: 'NOT_FUNCTION',
   }
 }
@@ -107,12 +108,12 @@ export const isFunction: ValidatorFunction = (value) => {
 /**
  * Symbol 类型验证
  */
-export const isSymbol: ValidatorFunction = (value) => {
+export const isSymbol: ValidatorFunction = (value, context) => {
   const valid = typeof value === 'symbol'
 
   return {
     valid,
-    message: valid ? undefined : '必须是 Symbol 类型',
+    message: valid ? undefined : t('NOT_SYMBOL', undefined, context?.locale),
     code: 'NOT_SYMBOL',
   }
 }
@@ -120,12 +121,12 @@ export const isSymbol: ValidatorFunction = (value) => {
 /**
  * Date 对象验证
  */
-export const isDate: ValidatorFunction = (value) => {
+export const isDate: ValidatorFunction = (value, context) => {
   const valid = value instanceof Date && !Number.isNaN(value.getTime())
 
   return {
     valid,
-    message: valid ? undefined : '必须是有效的 Date 对象',
+    message: valid ? undefined : t('NOT_DATE', undefined, context?.locale),
     code: 'NOT_DATE',
   }
 }
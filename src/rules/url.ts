@@ -0,0 +1,379 @@
+/**
+ * URL 规则
+ * 基于 WHATWG URL 解析的结构化验证：协议、顶级域、主机白名单/黑名单、IP 字面量、localhost、
+ * 端口范围、路径/查询/片段和长度限制，适用于 Webhook 地址等对 SSRF 敏感的输入
+ */
+
+import type { ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { toAsciiDomain } from './email'
+import { isIpInNetworks, parseIp, resolveIpNetworks } from './ip'
+
+/**
+ * 主机类型
+ */
+export type UrlHostType = 'domain' | 'ipv4' | 'ipv6'
+
+/**
+ * 端口范围（闭区间）
+ */
+export type PortRange = [number, number]
+
+/**
+ * URL 验证选项
+ */
+export interface UrlOptions {
+  /**
+   * 允许的协议（不含冒号，不区分大小写）
+   * @default ['http', 'https']
+   */
+  protocols?: string[]
+
+  /**
+   * 域名是否必须包含顶级域（IP 字面量和 localhost 不受影响）
+   * @default true
+   */
+  requireTld?: boolean
+
+  /**
+   * 只允许这些主机，*.example.com 匹配 example.com 的所有子域名（不含 example.com 本身）
+   */
+  allowHosts?: string[]
+
+  /**
+   * 拒绝这些主机，写法同 allowHosts
+   */
+  denyHosts?: string[]
+
+  /**
+   * 是否允许 IP 字面量主机（如 http://10.0.0.1 或 http://[::1]）
+   * @default true
+   */
+  allowIp?: boolean
+
+  /**
+   * 是否允许 localhost、*.localhost 和回环地址
+   * @default true
+   */
+  allowLocalhost?: boolean
+
+  /**
+   * 拒绝这些网段内的 IP 字面量主机：CIDR、单个 IP 或内置网段集合名称（见 rules.ipAddress），
+   * 如 ['private', 'loopback', 'linkLocal', 'reserved']；内嵌 IPv4 的 IPv6 地址（IPv4 映射、IPv4 兼容、NAT64 和 6to4）同时按其 IPv4 地址检查
+   */
+  denyNetworks?: string[]
+
+  /**
+   * 允许的端口或端口范围；未显式指定端口时按协议默认端口检查
+   */
+  ports?: (number | PortRange)[]
+
+  /**
+   * 是否允许在 URL 中包含用户名和密码
+   * @default true
+   */
+  allowCredentials?: boolean
+
+  /**
+   * 路径（pathname）需要满足的格式
+   */
+  path?: RegExp
+
+  /**
+   * 是否允许查询字符串
+   * @default true
+   */
+  allowQuery?: boolean
+
+  /**
+   * 是否允许片段（#hash）
+   * @default true
+   */
+  allowFragment?: boolean
+
+  /**
+   * 最大长度
+   * @default 2048
+   */
+  maxLength?: number
+
+  /**
+   * 自定义错误消息
+   */
+  message?: string
+}
+
+/**
+ * 解析后的 URL 各部分
+ */
+export interface UrlParts {
+  /** 规范化后的完整 URL（不含密码） */
+  href: string
+
+  /** 协议（不含冒号，小写） */
+  protocol: string
+
+  /** 用户名 */
+  username: string
+
+  /** 是否包含用户名或密码 */
+  credentials: boolean
+
+  /** 主机名（IPv6 不含方括号，国际化域名为 punycode，去掉完整域名末尾的一个点） */
+  hostname: string
+
+  /** 主机类型 */
+  hostType: UrlHostType
+
+  /** 端口，未显式指定时为协议默认端口，无默认端口时为 undefined */
+  port?: number
+
+  /** 路径 */
+  pathname: string
+
+  /** 查询字符串（含 ?） */
+  search: string
+
+  /** 片段（含 #） */
+  hash: string
+}
+
+/**
+ * 协议默认端口
+ */
+const DEFAULT_PORTS: Record<string, number> = {
+  ftp: 21,
+  http: 80,
+  https: 443,
+  ws: 80,
+  wss: 443,
+}
+
+const TOP_LEVEL_DOMAIN = /^(?:[a-z]{2,63}|xn--[a-z\d-]{1,59})$/
+
+/**
+ * 视为本机的地址：回环地址和未指定地址（0.0.0.0、::）
+ */
+const LOCALHOST_NETWORKS = resolveIpNetworks(['loopback', '0.0.0.0/32', '::/128'])
+
+/**
+ * 将主机列表条目规范化为与 URL 主机名相同的形式
+ */
+function normalizeHost(host: string): string {
+  const value = host.trim().toLowerCase().replace(/^\[(.*)\]$/, '$1')
+
+  if (value.includes(':')) {
+    try {
+      return new URL(`http://[${value}]`).hostname.slice(1, -1)
+    }
+    catch {
+      return value
+    }
+  }
+
+  const wildcard = value.startsWith('*.')
+  const ascii = toAsciiDomain(wildcard ? value.slice(2) : value) ?? value
+  return wildcard ? `*.${ascii}` : ascii
+}
+
+/**
+ * 主机是否命中列表
+ */
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some((entry) => {
+    const host = normalizeHost(entry)
+    return host.startsWith('*.') ? hostname.endsWith(host.slice(1)) : hostname === host
+  })
+}
+
+/**
+ * 端口是否在允许的端口或范围内
+ */
+function matchesPort(port: number, ports: (number | PortRange)[]): boolean {
+  return ports.some(item => Array.isArray(item) ? port >= item[0] && port <= item[1] : port === item)
+}
+
+/**
+ * 是否为 localhost 或回环地址
+ */
+function isLocalhost(hostname: string, hostType: UrlHostType): boolean {
+  if (hostType !== 'domain') {
+    return isIpInNetworks(hostname, LOCALHOST_NETWORKS)
+  }
+  return hostname === 'localhost' || hostname.endsWith('.localhost')
+}
+
+/**
+ * 使用 WHATWG URL 解析器解析 URL
+ * IPv4 的各种写法（如 http://2130706433、http://0x7f.1）会被规范化为点分十进制，
+ * 完整域名末尾的点（如 http://example.com./）会被去掉，因此后续的主机检查不会被特殊写法绕过
+ *
+ * @param value URL
+ * @returns URL 各部分，无法解析时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseUrl('https://user@例子.中国:8443/a?b=1#c')
+ * // { href: 'https://user@xn--fsqu00a.xn--fiqs8s:8443/a?b=1#c', protocol: 'https', username: 'user', credentials: true,
+ * //   hostname: 'xn--fsqu00a.xn--fiqs8s', hostType: 'domain', port: 8443, pathname: '/a', search: '?b=1', hash: '#c' }
+ * ```
+ */
+export function parseUrl(value: string): UrlParts | null {
+  let parsed: URL
+
+  try {
+    parsed = new URL(value)
+  }
+  catch {
+    return null
+  }
+
+  const protocol = parsed.protocol.slice(0, -1)
+  const ipv6 = parsed.hostname.startsWith('[')
+  const hostname = ipv6 ? parsed.hostname.slice(1, -1) : parsed.hostname.replace(/\.$/, '')
+  const credentials = !!(parsed.username || parsed.password)
+
+  // 密码不出现在结果中，避免随验证结果被记录
+  parsed.password = ''
+
+  return {
+    href: parsed.href,
+    protocol,
+    username: parsed.username,
+    credentials,
+    hostname,
+    hostType: ipv6 ? 'ipv6' : parseIp(hostname)?.version === 4 ? 'ipv4' : 'domain',
+    port: parsed.port ? Number(parsed.port) : DEFAULT_PORTS[protocol],
+    pathname: parsed.pathname,
+    search: parsed.search,
+    hash: parsed.hash,
+  }
+}
+
+/**
+ * 结构化 URL 验证
+ * 验证通过时 meta 包含解析后的 URL 各部分（见 UrlParts）。
+ * 只检查 URL 本身，不解析 DNS；防范 SSRF 时还需要在服务端发起请求前校验解析出的 IP
+ *
+ * @param options 验证选项
+ * @returns 验证器函数
+ * @throws {Error} denyNetworks 中的网段集合名称未注册或网段无法解析时抛出错误
+ *
+ * @example
+ * ```typescript
+ * // Webhook 地址：只允许公网 HTTPS 地址和 443/8443 端口
+ * const validator = createValidator<string>()
+ *   .rule({
+ *     validator: rules.urlAddress({
+ *       protocols: ['https'],
+ *       allowLocalhost: false,
+ *       denyNetworks: ['private', 'loopback', 'linkLocal', 'reserved'],
+ *       allowCredentials: false,
+ *       ports: [443, 8443],
+ *     }),
+ *   })
+ *
+ * await validator.validate('https://hooks.example.com/notify') // 通过
+ * await validator.validate('https://127.0.0.1/admin') // 失败：URL_LOCALHOST_NOT_ALLOWED
+ * await validator.validate('https://169.254.169.254/') // 失败：URL_IP_DENIED
+ * ```
+ */
+export function urlAddress(options: UrlOptions = {}): ValidatorFunction<string> {
+  const {
+    protocols = ['http', 'https'],
+    requireTld = true,
+    allowHosts,
+    denyHosts,
+    allowIp = true,
+    allowLocalhost = true,
+    denyNetworks,
+    ports,
+    allowCredentials = true,
+    path,
+    allowQuery = true,
+    allowFragment = true,
+    maxLength = 2048,
+    message,
+  } = options
+  const allowedProtocols = protocols.map(protocol => protocol.toLowerCase().replace(/:$/, ''))
+  const deniedNetworks = denyNetworks && resolveIpNetworks(denyNetworks)
+
+  return (value, context) => {
+    if (!value) {
+      return { valid: true }
+    }
+
+    const locale = context?.locale
+    const fail = (code: string, params?: Record<string, any>, meta?: UrlParts) => ({
+      valid: false,
+      message: message || t(code, params, locale),
+      code,
+      meta: meta ? { ...meta } : undefined,
+    })
+
+    if (value.length > maxLength) {
+      return fail('URL_TOO_LONG', { max: maxLength })
+    }
+
+    // WHATWG 解析器会忽略首尾空白并删除中间的制表符和换行，这里直接拒绝
+    const parts = /\s/.test(value) ? null : parseUrl(value)
+    if (!parts) {
+      return fail('INVALID_URL')
+    }
+
+    const { protocol, hostname, hostType, port } = parts
+
+    if (!allowedProtocols.includes(protocol)) {
+      return fail('URL_PROTOCOL_NOT_ALLOWED', { protocols: allowedProtocols.join(t('LIST_SEPARATOR', undefined, locale)) }, parts)
+    }
+
+    if (hostname) {
+      // 去掉末尾的点之后仍有空标签（如 example.com..）的主机名无法与主机列表可靠比较，直接拒绝
+      if (hostType === 'domain' && hostname.split('.').includes('')) {
+        return fail('INVALID_URL')
+      }
+
+      const localhost = isLocalhost(hostname, hostType)
+
+      if (localhost && !allowLocalhost) {
+        return fail('URL_LOCALHOST_NOT_ALLOWED', undefined, parts)
+      }
+      if (hostType !== 'domain' && !allowIp) {
+        return fail('URL_IP_NOT_ALLOWED', undefined, parts)
+      }
+      if (hostType !== 'domain' && deniedNetworks && isIpInNetworks(hostname, deniedNetworks)) {
+        return fail('URL_IP_DENIED', { ip: hostname }, parts)
+      }
+      if (hostType === 'domain' && !localhost && requireTld) {
+        const labels = hostname.split('.')
+        if (labels.length < 2 || !TOP_LEVEL_DOMAIN.test(labels[labels.length - 1])) {
+          return fail('URL_TLD_REQUIRED', undefined, parts)
+        }
+      }
+      if (allowHosts && !matchesHost(hostname, allowHosts)) {
+        return fail('URL_HOST_NOT_ALLOWED', { host: hostname }, parts)
+      }
+      if (denyHosts && matchesHost(hostname, denyHosts)) {
+        return fail('URL_HOST_DENIED', { host: hostname }, parts)
+      }
+    }
+
+    if (ports && port !== undefined && !matchesPort(port, ports)) {
+      return fail('URL_PORT_NOT_ALLOWED', { port }, parts)
+    }
+    if (!allowCredentials && parts.credentials) {
+      return fail('URL_CREDENTIALS_NOT_ALLOWED', undefined, parts)
+    }
+    if (path && !path.test(parts.pathname)) {
+      return fail('URL_PATH_INVALID', undefined, parts)
+    }
+    if (!allowQuery && parts.search) {
+      return fail('URL_QUERY_NOT_ALLOWED', undefined, parts)
+    }
+    if (!allowFragment && parts.hash) {
+      return fail('URL_FRAGMENT_NOT_ALLOWED', undefined, parts)
+    }
+
+    return { valid: true, meta: { ...parts } }
+  }
+}
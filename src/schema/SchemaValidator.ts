@@ -1,6 +1,12 @@
 import type { Schema, SchemaRule, SchemaValidationResult, ValidationError, ValidationContext } from '../types'
 import * as rules from '../rules'
 import { type Transformer, createTransformer } from '../core/Transformer'
+import type { Infer } from './infer'
+import { t } from '../i18n/MessageCatalog'
+import { abortedResult, AbortScope, isAborted, linkSignals, raceAbort } from '../utils/abort'
+import { runWithTimeout } from '../utils/timeout'
+import { shouldRunOnTrigger } from '../utils/trigger'
+import { ValidationException } from './ValidationException'
 
 /**
  * Schema 验证器选项
@@ -17,6 +23,58 @@ export interface SchemaValidatorOptions {
    * @default false
    */
   autoTransform?: boolean
+
+  /**
+   * 单个数组最多报告的元素错误数（包括元素内嵌套字段的错误）
+   * 达到上限后停止验证该数组的剩余元素，不设置则报告全部错误
+   */
+  maxItemErrors?: number
+
+  /**
+   * Schema 中未声明字段的处理策略（同样作用于嵌套 Schema）
+   * - 'passthrough'：保留在输出数据中
+   * - 'strip'：从输出数据中移除
+   * - 'reject'：每个未声明字段报告一条 UNKNOWN_FIELD 错误
+   * @default 'passthrough'
+   */
+  unknownKeys?: UnknownKeysPolicy
+
+  /**
+   * 是否自动取消过期的验证
+   * 启用后，对同一 context.field 开始新的 validate() 时，上一次尚未完成的验证以 ABORTED 结束
+   * @default false
+   */
+  abortStale?: boolean
+}
+
+/**
+ * 未声明字段的处理策略
+ */
+export type UnknownKeysPolicy = 'passthrough' | 'strip' | 'reject'
+
+/**
+ * safeParse() 的结果
+ * 成功时携带转换后的数据，失败时携带 ValidationException
+ */
+export type SafeParseResult<T> =
+  | { success: true, data: T }
+  | { success: false, error: ValidationException }
+
+/**
+ * 错误收集器（在递归验证过程中共享）
+ */
+interface ErrorCollector {
+  errors: ValidationError[]
+  errorMap: Record<string, ValidationError[]>
+  /** 验证是否已被取消 */
+  aborted?: boolean
+}
+
+/**
+ * 是否为普通对象（排除数组、日期等）
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return Object.prototype.toString.call(value) === '[object Object]'
 }
 
 /**
@@ -34,41 +92,209 @@ export interface SchemaValidatorOptions {
  *   tags: {
  *     type: 'array',
  *     items: { type: 'string', minLength: 2 }
+ *   },
+ *   address: {
+ *     type: 'object',
+ *     schema: { city: { type: 'string', required: true } }
+ *   },
+ *   items: {
+ *     type: 'array',
+ *     items: { type: 'object', schema: { sku: { type: 'string', required: true } } }
  *   }
  * }
  * 
  * const validator = createSchemaValidator(schema, { autoTransform: true })
  * const result = await validator.validate({ email: '  USER@EXAMPLE.COM  ', tags: ['vue', 'react'] })
+ * // result.errorMap['address.city']、result.errorMap['items[2].sku']
  * ```
  */
-export class SchemaValidator {
+export class SchemaValidator<T = Record<string, any>> {
   private schema: Schema
   private options: SchemaValidatorOptions
+  private abortScope?: AbortScope
 
   constructor(schema: Schema, options: SchemaValidatorOptions = {}) {
     this.schema = schema
     this.options = {
       stopOnFirstError: options.stopOnFirstError ?? false,
       autoTransform: options.autoTransform ?? false,
+      maxItemErrors: options.maxItemErrors,
+      unknownKeys: options.unknownKeys ?? 'passthrough',
+      abortStale: options.abortStale ?? false,
+    }
+
+    if (this.options.abortStale) {
+      this.abortScope = new AbortScope()
     }
   }
 
   /**
    * 验证数据
+   * 嵌套对象（`schema`）和数组元素（`items`）会递归验证，每个失败的元素单独报告，
+   * 错误的 field 为完整路径（如 `address.city`、`tags[3]`、`items[2].sku`），errorMap 也按完整路径索引
+   *
    * @param data 要验证的数据对象
    * @param context 验证上下文
    * @returns 验证结果
    */
-  async validate(data: Record<string, any>, context?: ValidationContext): Promise<SchemaValidationResult> {
-    const errors: ValidationError[] = []
-    const errorMap: Record<string, ValidationError[]> = {}
+  async validate(data: Record<string, any>, context?: ValidationContext): Promise<SchemaValidationResult<T>> {
+    const collector: ErrorCollector = { errors: [], errorMap: {} }
+    const transformedData = await this.run(data, context?.field ?? '', context, collector)
+    const valid = collector.errors.length === 0
+
+    return {
+      valid,
+      errors: collector.errors,
+      errorMap: collector.errorMap,
+      data: valid ? transformedData as T : undefined,
+    }
+  }
+
+  /**
+   * 只验证指定的顶层字段（包括其嵌套结构）
+   * 跨字段规则仍可通过 context.formData 读取完整数据；不检查未声明字段，结果中也不包含 data
+   *
+   * @param data 完整的数据对象
+   * @param fields 要验证的顶层字段
+   * @param context 验证上下文
+   * @returns 仅包含这些字段错误的验证结果
+   *
+   * @example
+   * ```typescript
+   * const result = await validator.validateFields(form, ['password', 'confirmPassword'])
+   * ```
+   */
+  async validateFields(
+    data: Record<string, any>,
+    fields: string[],
+    context?: ValidationContext,
+  ): Promise<SchemaValidationResult<T>> {
+    const collector: ErrorCollector = { errors: [], errorMap: {} }
+    await this.run(data, context?.field ?? fields.join(','), context, collector, fields)
+
+    return {
+      valid: collector.errors.length === 0,
+      errors: collector.errors,
+      errorMap: collector.errorMap,
+    }
+  }
+
+  /**
+   * 验证并返回转换后的数据
+   * 应用默认值和 autoTransform 转换，验证失败时抛出 ValidationException
+   *
+   * @param data 要验证的数据对象
+   * @param context 验证上下文
+   * @returns 转换后的数据
+   * @throws {ValidationException} 验证失败时抛出
+   *
+   * @example
+   * ```typescript
+   * const user = await validator.parse(req.body) // 类型为 Infer<typeof userSchema>
+   * ```
+   */
+  async parse(data: Record<string, any>, context?: ValidationContext): Promise<T> {
+    const result = await this.safeParse(data, context)
+    if (!result.success) {
+      throw result.error
+    }
+    return result.data
+  }
+
+  /**
+   * 验证并返回判别联合结果（不抛出异常）
+   *
+   * @param data 要验证的数据对象
+   * @param context 验证上下文
+   * @returns 成功时为 `{ success: true, data }`，失败时为 `{ success: false, error }`
+   *
+   * @example
+   * ```typescript
+   * const result = await validator.safeParse(form)
+   * if (result.success) {
+   *   submit(result.data)
+   * }
+   * else {
+   *   showErrors(result.error.errorMap)
+   * }
+   * ```
+   */
+  async safeParse(data: Record<string, any>, context?: ValidationContext): Promise<SafeParseResult<T>> {
+    const result = await this.validate(data, context)
+
+    if (!result.valid) {
+      return { success: false, error: new ValidationException(result, context?.locale) }
+    }
+
+    return { success: true, data: result.data as T }
+  }
+
+  /**
+   * 执行根对象验证（启用 abortStale 时按 key 取消上一次尚未完成的验证）
+   * @param data 根对象数据
+   * @param key 过期验证的作用域键
+   * @param context 验证上下文
+   * @param collector 错误收集器
+   * @param fields 只验证的顶层字段（不设置则验证全部）
+   * @returns 应用默认值和转换后的对象
+   */
+  private async run(
+    data: Record<string, any>,
+    key: string,
+    context: ValidationContext | undefined,
+    collector: ErrorCollector,
+    fields?: string[],
+  ): Promise<Record<string, any>> {
+    const staleSignal = this.abortScope?.next(key)
+    const signal = linkSignals(context?.signal, staleSignal)
+
+    try {
+      return await this.validateObject(data, this.schema, '', { ...context, signal }, collector, fields)
+    }
+    finally {
+      if (staleSignal) {
+        this.abortScope?.release(key, staleSignal)
+      }
+    }
+  }
+
+  /**
+   * 按 Schema 验证对象
+   * @param data 对象数据
+   * @param schema Schema 定义
+   * @param basePath 对象自身的路径（根对象为空字符串）
+   * @param context 验证上下文
+   * @param collector 错误收集器
+   * @param fields 只验证的字段（设置时跳过未声明字段检查）
+   * @returns 应用默认值和转换后的对象
+   */
+  private async validateObject(
+    data: Record<string, any>,
+    schema: Schema,
+    basePath: string,
+    context: ValidationContext,
+    collector: ErrorCollector,
+    fields?: string[],
+  ): Promise<Record<string, any>> {
     const transformedData = { ...data }
+    // 跨字段规则始终基于根对象解析字段路径
+    const formData = basePath ? context.formData : transformedData
+
+    for (const [field, ruleOrRules] of Object.entries(schema)) {
+      if (fields && !fields.includes(field)) {
+        continue
+      }
 
-    for (const [field, ruleOrRules] of Object.entries(this.schema)) {
       const fieldRules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+      const path = basePath ? `${basePath}.${field}` : field
       let value = data[field]
 
       for (const rule of fieldRules) {
+        // 跳过不在本次触发事件上执行的规则
+        if (!shouldRunOnTrigger(rule.trigger, context.trigger)) {
+          continue
+        }
+
         // 应用默认值
         if (value === undefined && rule.default !== undefined) {
           value = rule.default
@@ -81,47 +307,178 @@ export class SchemaValidator {
           transformedData[field] = value
         }
 
-        const result = await this.validateField(field, value, rule, {
+        const fieldContext: ValidationContext = {
           ...context,
-          field,
-          formData: transformedData,
-        })
+          field: path,
+          label: rule.label ?? context.label,
+          formData,
+        }
+
+        const result = await this.validateField(path, value, rule, fieldContext)
 
         if (!result.valid) {
-          const error: ValidationError = {
-            field,
-            message: result.message || '验证失败',
+          this.addError(collector, {
+            field: path,
+            message: result.message || t('VALIDATION_FAILED', undefined, context.locale),
             code: result.code,
             rule: rule.type,
-          }
+          })
 
-          errors.push(error)
+          // 遇到错误停止验证该字段
+          break
+        }
 
-          if (!errorMap[field]) {
-            errorMap[field] = []
-          }
-          errorMap[field].push(error)
-
-          // 如果设置了停止选项，立即返回
-          if (this.options.stopOnFirstError) {
-            return {
-              valid: false,
-              errors,
-              errorMap,
-            }
-          }
+        // 递归验证嵌套对象和对象数组
+        const nested = await this.validateNested(value, rule, path, fieldContext, collector)
+        if (nested !== value) {
+          value = nested
+          transformedData[field] = value
+        }
 
-          // 遇到错误停止验证该字段
+        if (this.shouldStop(collector)) {
+          return transformedData
+        }
+      }
+
+      // 如果设置了停止选项，立即返回
+      if (this.shouldStop(collector)) {
+        return transformedData
+      }
+    }
+
+    if (fields) {
+      return transformedData
+    }
+
+    return this.applyUnknownKeys(schema, basePath, transformedData, context, collector)
+  }
+
+  /**
+   * 按 unknownKeys 策略处理 Schema 中未声明的字段
+   * - passthrough：原样保留
+   * - strip：从输出数据中移除
+   * - reject：每个未声明的字段记录一条 UNKNOWN_FIELD 错误
+   */
+  private applyUnknownKeys(
+    schema: Schema,
+    basePath: string,
+    transformedData: Record<string, any>,
+    context: ValidationContext,
+    collector: ErrorCollector,
+  ): Record<string, any> {
+    const policy = this.options.unknownKeys
+    if (policy === 'passthrough') {
+      return transformedData
+    }
+
+    for (const key of Object.keys(transformedData)) {
+      if (Object.prototype.hasOwnProperty.call(schema, key)) {
+        continue
+      }
+
+      if (policy === 'strip') {
+        delete transformedData[key]
+        continue
+      }
+
+      const path = basePath ? `${basePath}.${key}` : key
+      this.addError(collector, {
+        field: path,
+        message: t('UNKNOWN_FIELD', { field: path }, context.locale),
+        code: 'UNKNOWN_FIELD',
+      })
+
+      if (this.shouldStop(collector)) {
+        break
+      }
+    }
+
+    return transformedData
+  }
+
+  /**
+   * 递归验证嵌套结构
+   * - `schema`：值为对象时按子 Schema 验证
+   * - `items`：值为数组时逐个验证元素，每个失败的元素单独记录为一条错误（如 `tags[3]`），
+   *   并继续向下验证元素的嵌套结构；可通过 `maxItemErrors` 限制单个数组报告的错误数
+   *
+   * @returns 嵌套转换后的值（无嵌套结构时原样返回）
+   */
+  private async validateNested(
+    value: any,
+    rule: SchemaRule,
+    path: string,
+    context: ValidationContext,
+    collector: ErrorCollector,
+  ): Promise<any> {
+    if (rule.schema && isPlainObject(value)) {
+      return this.validateObject(value, rule.schema, path, context, collector)
+    }
+
+    if (rule.items && Array.isArray(value)) {
+      const itemRule = rule.items
+      const items = [...value]
+      const errorCountBefore = collector.errors.length
+
+      for (let i = 0; i < items.length; i++) {
+        const itemPath = `${path}[${i}]`
+        const itemContext: ValidationContext = {
+          ...context,
+          field: itemPath,
+          label: itemRule.label ?? context.label,
+        }
+
+        const itemResult = await this.validateField(itemPath, items[i], itemRule, itemContext)
+
+        if (!itemResult.valid) {
+          this.addError(collector, {
+            field: itemPath,
+            message: itemResult.message || t('VALIDATION_FAILED', undefined, context.locale),
+            code: itemResult.code,
+            rule: itemRule.type,
+          })
+        }
+        else {
+          items[i] = await this.validateNested(items[i], itemRule, itemPath, itemContext, collector)
+        }
+
+        if (this.shouldStop(collector)) {
+          break
+        }
+
+        const maxItemErrors = this.options.maxItemErrors
+        if (maxItemErrors !== undefined && collector.errors.length - errorCountBefore >= maxItemErrors) {
           break
         }
       }
+
+      return items
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-      errorMap,
+    return value
+  }
+
+  /**
+   * 记录错误（同时写入 errors 和按路径索引的 errorMap）
+   */
+  private addError(collector: ErrorCollector, error: ValidationError): void {
+    collector.errors.push(error)
+
+    if (error.code === 'ABORTED') {
+      collector.aborted = true
+    }
+
+    if (!collector.errorMap[error.field]) {
+      collector.errorMap[error.field] = []
     }
+    collector.errorMap[error.field].push(error)
+  }
+
+  /**
+   * 是否应停止验证（验证已取消，或启用 stopOnFirstError 且已有错误）
+   */
+  private shouldStop(collector: ErrorCollector): boolean {
+    return !!collector.aborted || (!!this.options.stopOnFirstError && collector.errors.length > 0)
   }
 
   /**
@@ -186,6 +543,11 @@ export class SchemaValidator {
     rule: SchemaRule,
     context: ValidationContext,
   ): Promise<{ valid: boolean, message?: string, code?: string }> {
+    // 已取消时立即结束
+    if (isAborted(context)) {
+      return abortedResult(context)
+    }
+
     // 必填验证
     if (rule.required) {
       const requiredResult = rules.required(value, context)
@@ -205,7 +567,7 @@ export class SchemaValidator {
 
     // 类型验证
     if (rule.type) {
-      const typeResult = await this.validateType(value, rule.type)
+      const typeResult = await this.validateType(value, rule.type, context)
       if (!typeResult.valid) {
         return {
           valid: false,
@@ -287,29 +649,12 @@ export class SchemaValidator {
       }
     }
 
-    // 数组元素验证
-    if (rule.items && Array.isArray(value)) {
-      for (let i = 0; i < value.length; i++) {
-        const itemResult = await this.validateField(
-          `${field}[${i}]`,
-          value[i],
-          rule.items,
-          context
-        )
-        
-        if (!itemResult.valid) {
-          return {
-            valid: false,
-            message: rule.message || `数组元素 [${i}] 验证失败: ${itemResult.message}`,
-            code: itemResult.code || 'ARRAY_ITEM_INVALID',
-          }
-        }
-      }
-    }
-
     // 自定义验证器
     if (rule.validator) {
-      const customResult = await rule.validator(value, context)
+      const customResult = await raceAbort(runWithTimeout(rule.validator, value, context, rule.timeout), context)
+      if (isAborted(context)) {
+        return abortedResult(context)
+      }
       if (!customResult.valid) {
         return {
           valid: false,
@@ -325,22 +670,26 @@ export class SchemaValidator {
   /**
    * 类型验证
    */
-  private async validateType(value: any, type: string): Promise<{ valid: boolean, message?: string, code?: string }> {
+  private async validateType(
+    value: any,
+    type: string,
+    context: ValidationContext,
+  ): Promise<{ valid: boolean, message?: string, code?: string }> {
     switch (type) {
       case 'email':
-        return rules.email(value)
+        return rules.email(value, context)
       case 'url':
-        return rules.url(value)
+        return rules.url(value, context)
       case 'number':
-        return rules.numeric(value)
+        return rules.numeric(value, context)
       case 'date':
-        return rules.date(value)
+        return rules.date(value, context)
       default: {
         const actualType = Array.isArray(value) ? 'array' : typeof value
         const valid = actualType === type
         return {
           valid,
-          message: valid ? undefined : `类型错误，期望 ${type}，实际 ${actualType}`,
+          message: valid ? undefined : t('TYPE_MISMATCH', { expected: type, actual: actualType }, context.locale),
           code: 'TYPE_MISMATCH',
         }
       }
@@ -350,6 +699,8 @@ export class SchemaValidator {
 
 /**
  * 创建 Schema 验证器
+ * 传入 Schema 字面量或 defineSchema() 的结果时，parse()/safeParse() 的数据类型会自动推断
+ *
  * @param schema Schema 定义
  * @param options 验证器选项
  * @returns SchemaValidator 实例
@@ -386,10 +737,17 @@ export class SchemaValidator {
  *   email: '  USER@EXAMPLE.COM  ',
  *   tags: ['vue', 'react', 'angular']
  * })
+ *
+ * // 直接获取转换后的数据（失败时抛出 ValidationException）
+ * const data = await validator.parse({ email: '  USER@EXAMPLE.COM  ' })
+ * // data.email === 'user@example.com'，data.age === 18
  * ```
  */
-export function createSchemaValidator(schema: Schema, options?: SchemaValidatorOptions): SchemaValidator {
-  return new SchemaValidator(schema, options)
+export function createSchemaValidator<const S extends Schema>(
+  schema: S,
+  options?: SchemaValidatorOptions,
+): SchemaValidator<Infer<S>> {
+  return new SchemaValidator<Infer<S>>(schema, options)
 }
 
 
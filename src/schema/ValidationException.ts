@@ -0,0 +1,46 @@
+import type { SchemaValidationResult, ValidationError } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 验证异常
+ * 由 SchemaValidator.parse() 在验证失败时抛出，携带完整的结构化错误信息
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const user = await validator.parse(payload)
+ * }
+ * catch (error) {
+ *   if (error instanceof ValidationException) {
+ *     console.log(error.errorMap['address.city'])
+ *   }
+ * }
+ * ```
+ */
+export class ValidationException extends Error {
+  /** 错误列表 */
+  readonly errors: ValidationError[]
+
+  /** 错误映射（按字段路径） */
+  readonly errorMap: Record<string, ValidationError[]>
+
+  /**
+   * 构造函数
+   * @param result 验证失败的结果
+   * @param locale 默认消息使用的语言
+   */
+  constructor(result: Pick<SchemaValidationResult, 'errors' | 'errorMap'>, locale?: string) {
+    super(result.errors[0]?.message ?? t('VALIDATION_FAILED', undefined, locale))
+    this.name = 'ValidationException'
+    this.errors = result.errors
+    this.errorMap = result.errorMap
+  }
+
+  /**
+   * 获取指定字段路径的第一条错误消息
+   * @param field 字段路径（如 `address.city`）
+   */
+  getMessage(field: string): string | undefined {
+    return this.errorMap[field]?.[0]?.message
+  }
+}
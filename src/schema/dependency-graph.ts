@@ -0,0 +1,229 @@
+/**
+ * 字段依赖图
+ * 根据 Schema 中规则声明的依赖（SchemaRule.dependsOn 和跨字段验证器的 dependencies）计算字段之间的依赖关系，
+ * 用于在字段变化时只重新验证受影响的字段，并检测循环依赖
+ */
+
+import type { Schema, SchemaRule } from '../types'
+import { getDependencies } from '../utils/dependencies'
+
+/**
+ * 循环依赖错误
+ */
+export class DependencyCycleError extends Error {
+  /** 循环路径（首尾为同一字段，如 ['a', 'b', 'a']） */
+  readonly cycle: string[]
+
+  /**
+   * 构造函数
+   * @param cycle 循环路径
+   */
+  constructor(cycle: string[]) {
+    super(`Circular field dependency: ${cycle.join(' -> ')}`)
+    this.name = 'DependencyCycleError'
+    this.cycle = cycle
+  }
+}
+
+/**
+ * 获取字段路径所属的顶层字段
+ */
+function rootField(path: string): string {
+  return path.split(/[.[]/)[0]
+}
+
+/**
+ * 收集单条规则声明的依赖（包括嵌套 schema 和 items 中的规则）
+ * @param rule Schema 规则
+ * @returns 依赖的字段路径
+ */
+export function collectRuleDependencies(rule: SchemaRule): string[] {
+  const dependencies = [...(rule.dependsOn ?? []), ...getDependencies(rule.validator)]
+
+  if (rule.items) {
+    dependencies.push(...collectRuleDependencies(rule.items))
+  }
+
+  if (rule.schema) {
+    for (const ruleOrRules of Object.values(rule.schema)) {
+      const rules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+      rules.forEach(nested => dependencies.push(...collectRuleDependencies(nested)))
+    }
+  }
+
+  return Array.from(new Set(dependencies))
+}
+
+/**
+ * 字段依赖图
+ * 节点为 Schema 的顶层字段，依赖路径（如 `address.city`）归属到其顶层字段；字段对自身的依赖会被忽略
+ *
+ * @example
+ * ```typescript
+ * const graph = createDependencyGraph({
+ *   password: { type: 'string' },
+ *   confirmPassword: { validator: rules.matchField('password') },
+ *   startDate: { type: 'date' },
+ *   endDate: { validator: rules.afterDate('startDate') },
+ * })
+ *
+ * graph.affectedBy('password') // ['confirmPassword']
+ * graph.findCycles() // []
+ * ```
+ */
+export class DependencyGraph {
+  /** 字段 → 它依赖的字段 */
+  private dependencies = new Map<string, Set<string>>()
+
+  /** 字段 → 依赖它的字段 */
+  private dependents = new Map<string, Set<string>>()
+
+  /**
+   * 构造函数
+   * @param schema Schema 定义
+   */
+  constructor(schema: Schema) {
+    for (const [field, ruleOrRules] of Object.entries(schema)) {
+      const rules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+      this.dependencies.set(field, new Set())
+
+      for (const rule of rules) {
+        for (const path of collectRuleDependencies(rule)) {
+          this.addEdge(field, rootField(path))
+        }
+      }
+    }
+  }
+
+  /**
+   * 图中的所有字段（Schema 字段和被依赖的字段）
+   */
+  get fields(): string[] {
+    return Array.from(new Set([...this.dependencies.keys(), ...this.dependents.keys()]))
+  }
+
+  /**
+   * 获取字段直接依赖的字段
+   * @param field 字段名
+   */
+  dependenciesOf(field: string): string[] {
+    return Array.from(this.dependencies.get(field) ?? [])
+  }
+
+  /**
+   * 获取直接依赖该字段的字段
+   * @param field 字段名
+   */
+  dependentsOf(field: string): string[] {
+    return Array.from(this.dependents.get(field) ?? [])
+  }
+
+  /**
+   * 获取字段变化后需要重新验证的字段（直接和间接依赖它的字段）
+   * 按与该字段的距离由近到远排列，不包括字段自身；存在循环依赖时也会正常结束
+   *
+   * @param field 发生变化的字段
+   * @returns 受影响的字段
+   */
+  affectedBy(field: string): string[] {
+    const visited = new Set([field])
+    const queue = [field]
+    const affected: string[] = []
+
+    while (queue.length > 0) {
+      for (const dependent of this.dependentsOf(queue.shift()!)) {
+        if (!visited.has(dependent)) {
+          visited.add(dependent)
+          affected.push(dependent)
+          queue.push(dependent)
+        }
+      }
+    }
+
+    return affected
+  }
+
+  /**
+   * 查找所有循环依赖
+   * @returns 循环路径列表，每条路径首尾为同一字段（如 ['a', 'b', 'a']）
+   */
+  findCycles(): string[][] {
+    const cycles: string[][] = []
+    const seen = new Set<string>()
+    const done = new Set<string>()
+    const stack: string[] = []
+
+    const visit = (field: string): void => {
+      stack.push(field)
+
+      for (const dependency of this.dependenciesOf(field)) {
+        const index = stack.indexOf(dependency)
+        if (index !== -1) {
+          const cycle = stack.slice(index)
+          // 同一个环从不同字段出发只记录一次
+          const key = [...cycle].sort().join('\0')
+          if (!seen.has(key)) {
+            seen.add(key)
+            cycles.push([...cycle, dependency])
+          }
+        }
+        else if (!done.has(dependency)) {
+          visit(dependency)
+        }
+      }
+
+      stack.pop()
+      done.add(field)
+    }
+
+    for (const field of this.dependencies.keys()) {
+      if (!done.has(field)) {
+        visit(field)
+      }
+    }
+
+    return cycles
+  }
+
+  /**
+   * 是否存在循环依赖
+   */
+  hasCycles(): boolean {
+    return this.findCycles().length > 0
+  }
+
+  /**
+   * 断言不存在循环依赖
+   * @throws {DependencyCycleError} 存在循环依赖时抛出（携带第一个循环）
+   */
+  assertAcyclic(): void {
+    const [cycle] = this.findCycles()
+    if (cycle) {
+      throw new DependencyCycleError(cycle)
+    }
+  }
+
+  /**
+   * 记录依赖边
+   */
+  private addEdge(field: string, dependency: string): void {
+    if (field === dependency) {
+      return
+    }
+
+    this.dependencies.get(field)!.add(dependency)
+
+    const dependents = this.dependents.get(dependency) ?? new Set()
+    dependents.add(field)
+    this.dependents.set(dependency, dependents)
+  }
+}
+
+/**
+ * 根据 Schema 创建字段依赖图
+ * @param schema Schema 定义
+ * @returns DependencyGraph 实例
+ */
+export function createDependencyGraph(schema: Schema): DependencyGraph {
+  return new DependencyGraph(schema)
+}
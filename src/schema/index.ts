@@ -2,10 +2,24 @@
  * Schema 验证导出
  */
 
-export { SchemaValidator, createSchemaValidator } from './SchemaValidator'
-
-
-
-
-
-
+export {
+  collectRuleDependencies,
+  createDependencyGraph,
+  DependencyCycleError,
+  DependencyGraph,
+} from './dependency-graph'
+export { defineSchema } from './infer'
+export type { Infer, InferField, InferRule, SchemaTypeMap } from './infer'
+export {
+  createJSONSchemaValidator,
+  fromJSONSchema,
+  JSON_SCHEMA_DIALECT,
+  ruleFromJSONSchema,
+  ruleToJSONSchema,
+  toJSONSchema,
+  UNSUPPORTED_KEYWORD,
+} from './json-schema'
+export type { JSONSchema, JSONSchemaType, ToJSONSchemaOptions } from './json-schema'
+export { createSchemaValidator, SchemaValidator } from './SchemaValidator'
+export type { SafeParseResult, SchemaValidatorOptions, UnknownKeysPolicy } from './SchemaValidator'
+export { ValidationException } from './ValidationException'
@@ -0,0 +1,121 @@
+/**
+ * Schema 类型推断
+ * 从 Schema 定义静态推断数据类型，让 API 层和表单共享同一份类型来源
+ */
+
+import type { Schema, SchemaRule } from '../types'
+
+/**
+ * Schema 字段类型名称到 TypeScript 类型的映射
+ */
+export interface SchemaTypeMap {
+  string: string
+  number: number
+  boolean: boolean
+  date: Date | string
+  email: string
+  url: string
+  array: unknown[]
+  object: Record<string, unknown>
+}
+
+/**
+ * 字段规则（单个规则或规则数组）中的规则联合
+ */
+type RuleOf<F> = F extends readonly (infer R)[] ? R : F
+
+/**
+ * 是否为必填（或带默认值，输出中一定存在）的字段
+ */
+type IsRequired<F> = [Extract<RuleOf<F>, { required: true } | { default: unknown }>] extends [never]
+  ? false
+  : true
+
+/**
+ * 能够决定值类型的规则（带 enum/schema/items/type 的规则）
+ */
+type TypedRule<F> = Extract<
+  RuleOf<F>,
+  { enum: readonly any[] } | { schema: Schema } | { items: SchemaRule } | { type: keyof SchemaTypeMap }
+>
+
+/**
+ * 推断单个规则的值类型
+ * 优先级：enum 字面量联合 → 子 Schema → 数组元素 → type
+ */
+export type InferRule<R> = R extends { enum: readonly (infer E)[] }
+  ? E
+  : R extends { schema: infer S extends Schema }
+    ? Infer<S>
+    : R extends { items: infer I }
+      ? InferField<I>[]
+      : R extends { type: infer T extends keyof SchemaTypeMap }
+        ? SchemaTypeMap[T]
+        : unknown
+
+/**
+ * 推断字段（单个规则或规则数组）的值类型
+ */
+export type InferField<F> = [TypedRule<F>] extends [never]
+  ? unknown
+  : InferRule<TypedRule<F>>
+
+/**
+ * 展开交叉类型，便于在编辑器中查看
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/**
+ * 从 Schema 定义推断数据类型
+ * - `required: true` 或带 `default` 的字段为必选属性，其余为可选属性
+ * - `enum` 推断为字面量联合类型
+ * - `schema` 推断为嵌套对象，`items` 推断为数组
+ *
+ * @example
+ * ```typescript
+ * const userSchema = defineSchema({
+ *   name: { type: 'string', required: true },
+ *   role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+ *   tags: { type: 'array', items: { type: 'string' } },
+ *   address: { type: 'object', schema: { city: { type: 'string', required: true } } },
+ * })
+ *
+ * type User = Infer<typeof userSchema>
+ * // {
+ * //   name: string
+ * //   role: 'admin' | 'user'
+ * //   tags?: string[]
+ * //   address?: { city: string }
+ * // }
+ * ```
+ */
+export type Infer<S> = string extends keyof S
+  ? Record<string, any>
+  : Simplify<
+    { -readonly [K in keyof S as IsRequired<S[K]> extends true ? K : never]: InferField<S[K]> }
+    & { -readonly [K in keyof S as IsRequired<S[K]> extends true ? never : K]?: InferField<S[K]> }
+  >
+
+/**
+ * 定义 Schema 并保留字面量类型
+ * 返回值就是传入的 Schema 本身，可以直接交给 createSchemaValidator，
+ * 同时可通过 `Infer<typeof schema>` 推断数据类型（无需 `as const`）
+ *
+ * @param schema Schema 定义
+ * @returns 原样返回的 Schema
+ *
+ * @example
+ * ```typescript
+ * const userSchema = defineSchema({
+ *   email: { type: 'email', required: true },
+ *   age: { type: 'number', min: 18 },
+ * })
+ *
+ * type User = Infer<typeof userSchema> // { email: string, age?: number }
+ *
+ * const validator = createSchemaValidator(userSchema)
+ * ```
+ */
+export function defineSchema<const S extends Schema>(schema: S): S {
+  return schema
+}
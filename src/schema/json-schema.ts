@@ -0,0 +1,544 @@
+/**
+ * JSON Schema 转换
+ * 在 Schema 定义与 JSON Schema（draft 2020-12）文档之间双向转换，便于与后端和 OpenAPI 文档共享约束
+ */
+
+import type { Schema, SchemaRule, ValidatorFunction } from '../types'
+import type { SchemaValidatorOptions, UnknownKeysPolicy } from './SchemaValidator'
+import { t } from '../i18n/MessageCatalog'
+import * as rules from '../rules'
+import { SchemaValidator } from './SchemaValidator'
+
+/**
+ * JSON Schema draft 2020-12 方言地址
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/**
+ * 标记无法用 JSON Schema 表示的 SchemaRule 特性的扩展关键字
+ * 值为不支持的特性名称列表，例如 `['validator', 'transform']`
+ */
+export const UNSUPPORTED_KEYWORD = 'x-unsupported'
+
+/**
+ * JSON Schema 文档（仅列出常用关键字，其余关键字通过索引签名保留）
+ */
+export interface JSONSchema {
+  $schema?: string
+  $id?: string
+  title?: string
+  description?: string
+  type?: JSONSchemaType | JSONSchemaType[]
+  format?: string
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  items?: JSONSchema
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  maxItems?: number
+  pattern?: string
+  enum?: any[]
+  const?: any
+  default?: any
+  allOf?: JSONSchema[]
+  anyOf?: JSONSchema[]
+  oneOf?: JSONSchema[]
+  [keyword: string]: any
+}
+
+/**
+ * JSON Schema 基础类型
+ */
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null'
+
+/**
+ * 导出 JSON Schema 的选项
+ */
+export interface ToJSONSchemaOptions {
+  /**
+   * 文档 $id
+   */
+  $id?: string
+
+  /**
+   * 文档标题
+   */
+  title?: string
+
+  /**
+   * 未声明字段的处理策略，'reject' 时输出 `additionalProperties: false`（同样作用于嵌套 Schema）
+   * @default 'passthrough'
+   */
+  unknownKeys?: UnknownKeysPolicy
+
+  /**
+   * 是否为无法表示的特性（自定义验证器、转换函数、正则标志等）输出 `x-unsupported` 标记
+   * @default true
+   */
+  markUnsupported?: boolean
+}
+
+/**
+ * JSON Schema format 到 Schema 类型的映射
+ */
+const FORMAT_TO_TYPE: Record<string, SchemaRule['type']> = {
+  'email': 'email',
+  'idn-email': 'email',
+  'uri': 'url',
+  'iri': 'url',
+  'url': 'url',
+  'date': 'date',
+  'date-time': 'date',
+}
+
+/**
+ * JSON Schema format 到内置规则的映射（类型仍为 string）
+ */
+const FORMAT_TO_VALIDATOR: Record<string, ValidatorFunction> = {
+  uuid: rules.uuid,
+  ipv4: rules.ipv4,
+  ipv6: rules.ipv6,
+  hostname: rules.domain,
+}
+
+/**
+ * 格式类型到 JSON Schema format 的映射
+ */
+const FORMAT_TYPES: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  date: 'date-time',
+}
+
+/**
+ * 将 Schema 定义导出为 JSON Schema（draft 2020-12）文档
+ *
+ * 映射规则：
+ * - `type`：string/number/boolean/array/object 直接映射，email/url/date 映射为 string + `format`
+ * - `min`/`max`：按类型映射为 minLength/maxLength、minimum/maximum 或 minItems/maxItems（未指定类型时同时输出）
+ * - `required`：写入父对象的 `required` 列表
+ * - `schema`/`items`：递归为 `properties`/`items`
+ * - `label` 映射为 `title`，`pattern`、`enum`、`default` 原样输出
+ * - 同一字段的多条规则输出为 `allOf`
+ * - 自定义验证器、转换器和正则标志无法表示，输出 `x-unsupported` 标记
+ *
+ * @param schema Schema 定义
+ * @param options 导出选项
+ * @returns JSON Schema 文档
+ *
+ * @example
+ * ```typescript
+ * const document = toJSONSchema({
+ *   email: { type: 'email', required: true },
+ *   age: { type: 'number', min: 18 },
+ * }, { title: 'User' })
+ *
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   title: 'User',
+ * //   type: 'object',
+ * //   properties: {
+ * //     email: { type: 'string', format: 'email' },
+ * //     age: { type: 'number', minimum: 18 }
+ * //   },
+ * //   required: ['email']
+ * // }
+ * ```
+ */
+export function toJSONSchema(schema: Schema, options: ToJSONSchemaOptions = {}): JSONSchema {
+  const document: JSONSchema = { $schema: JSON_SCHEMA_DIALECT }
+
+  if (options.$id) {
+    document.$id = options.$id
+  }
+  if (options.title) {
+    document.title = options.title
+  }
+
+  return Object.assign(document, objectToJSONSchema(schema, options))
+}
+
+/**
+ * 将单条 SchemaRule 转换为 JSON Schema
+ *
+ * @param rule Schema 规则
+ * @param options 导出选项
+ * @returns JSON Schema 片段
+ */
+export function ruleToJSONSchema(rule: SchemaRule, options: ToJSONSchemaOptions = {}): JSONSchema {
+  const result: JSONSchema = {}
+  const unsupported: string[] = []
+
+  if (rule.label) {
+    result.title = rule.label
+  }
+
+  // 类型与格式
+  const type = rule.type ?? (rule.schema ? 'object' : rule.items ? 'array' : undefined)
+  if (type && FORMAT_TYPES[type]) {
+    result.type = 'string'
+    result.format = FORMAT_TYPES[type]
+  }
+  else if (type) {
+    result.type = type as JSONSchemaType
+  }
+
+  // 最小值/长度、最大值/长度
+  if (rule.min !== undefined || rule.max !== undefined) {
+    Object.assign(result, rangeToJSONSchema(result.type as JSONSchemaType | undefined, rule.min, rule.max))
+  }
+
+  // 正则
+  if (rule.pattern) {
+    result.pattern = rule.pattern.source
+    if (rule.pattern.flags) {
+      unsupported.push('pattern.flags')
+    }
+  }
+
+  if (rule.enum) {
+    result.enum = [...rule.enum]
+  }
+
+  if (rule.default !== undefined) {
+    result.default = rule.default
+  }
+
+  // 嵌套结构
+  if (rule.schema) {
+    Object.assign(result, objectToJSONSchema(rule.schema, options))
+  }
+  if (rule.items) {
+    result.items = ruleToJSONSchema(rule.items, options)
+  }
+
+  // 无法表示的特性
+  if (rule.validator) {
+    unsupported.push('validator')
+  }
+  if (rule.transform) {
+    unsupported.push('transform')
+  }
+
+  if (unsupported.length > 0 && (options.markUnsupported ?? true)) {
+    result[UNSUPPORTED_KEYWORD] = unsupported
+  }
+
+  return result
+}
+
+/**
+ * 将 Schema 转换为 object 类型的 JSON Schema（properties + required）
+ */
+function objectToJSONSchema(schema: Schema, options: ToJSONSchemaOptions): JSONSchema {
+  const properties: Record<string, JSONSchema> = {}
+  const required: string[] = []
+
+  for (const [field, ruleOrRules] of Object.entries(schema)) {
+    const fieldRules = Array.isArray(ruleOrRules) ? ruleOrRules : [ruleOrRules]
+
+    properties[field] = fieldRules.length === 1
+      ? ruleToJSONSchema(fieldRules[0], options)
+      : { allOf: fieldRules.map(rule => ruleToJSONSchema(rule, options)) }
+
+    if (fieldRules.some(rule => rule.required)) {
+      required.push(field)
+    }
+  }
+
+  const result: JSONSchema = { type: 'object', properties }
+
+  if (required.length > 0) {
+    result.required = required
+  }
+
+  if (options.unknownKeys === 'reject') {
+    result.additionalProperties = false
+  }
+
+  return result
+}
+
+/**
+ * 按类型映射 min/max 关键字
+ * 未指定类型时同时输出三组关键字（JSON Schema 中这些关键字只作用于对应类型的值）
+ */
+function rangeToJSONSchema(type: JSONSchemaType | undefined, min?: number, max?: number): JSONSchema {
+  const keywords: Record<string, [string, string]> = {
+    string: ['minLength', 'maxLength'],
+    number: ['minimum', 'maximum'],
+    array: ['minItems', 'maxItems'],
+  }
+
+  const pairs = type ? [keywords[type]].filter(Boolean) : Object.values(keywords)
+  const result: JSONSchema = {}
+
+  for (const [minKeyword, maxKeyword] of pairs) {
+    if (min !== undefined) {
+      result[minKeyword] = min
+    }
+    if (max !== undefined) {
+      result[maxKeyword] = max
+    }
+  }
+
+  return result
+}
+
+/**
+ * 将 JSON Schema 文档导入为 Schema 定义
+ *
+ * 支持的关键字：
+ * - `type`（含 integer 以及 `['string', 'null']` 这类多类型）、`properties`、`required`、`items`
+ * - `minLength`/`maxLength`、`minimum`/`maximum`、`minItems`/`maxItems`（按类型映射为 min/max）
+ * - `pattern`、`enum`、`const`、`default`、`title`（映射为 label）
+ * - `format`：email/uri/date/date-time 映射为对应类型，uuid/ipv4/ipv6/hostname 映射为内置规则，其余格式仅作注解忽略
+ * - `allOf`/`anyOf`/`oneOf`：组合为自定义验证器
+ *
+ * @param document JSON Schema 文档（根节点须为带 properties 的对象）
+ * @returns Schema 定义
+ *
+ * @example
+ * ```typescript
+ * const schema = fromJSONSchema({
+ *   type: 'object',
+ *   properties: {
+ *     email: { type: 'string', format: 'email' },
+ *     age: { type: 'integer', minimum: 18 },
+ *   },
+ *   required: ['email'],
+ * })
+ * // { email: { type: 'email', required: true }, age: { type: 'number', min: 18, validator: ... } }
+ * ```
+ */
+export function fromJSONSchema(document: JSONSchema): Schema {
+  const schema: Schema = {}
+  const required = new Set(document.required ?? [])
+
+  for (const [field, node] of Object.entries(document.properties ?? {})) {
+    const rule = ruleFromJSONSchema(node)
+    if (required.has(field)) {
+      rule.required = true
+    }
+    schema[field] = rule
+  }
+
+  return schema
+}
+
+/**
+ * 将单个 JSON Schema 节点转换为 SchemaRule
+ *
+ * @param node JSON Schema 节点
+ * @returns Schema 规则
+ */
+export function ruleFromJSONSchema(node: JSONSchema): SchemaRule {
+  const rule: SchemaRule = {}
+  const validators: ValidatorFunction[] = []
+
+  if (node.title) {
+    rule.label = node.title
+  }
+
+  // 类型：忽略 null（空值本身不会被验证），多个类型时使用自定义验证器
+  const types = (Array.isArray(node.type) ? node.type : node.type ? [node.type] : [])
+    .filter(type => type !== 'null')
+
+  if (types.length === 1) {
+    const [type] = types
+    rule.type = type === 'integer' ? 'number' : type as SchemaRule['type']
+    // SchemaValidator 的 number 类型也接受数字字符串，这里按 JSON Schema 语义只接受 number 值
+    if (type === 'number' || type === 'integer') {
+      validators.push(jsonTypeValidator(['number']))
+    }
+    if (type === 'integer') {
+      validators.push(rules.integer)
+    }
+  }
+  else if (types.length > 1) {
+    validators.push(jsonTypeValidator(types))
+  }
+
+  // 格式
+  if (node.format && (!rule.type || rule.type === 'string')) {
+    if (FORMAT_TO_TYPE[node.format]) {
+      rule.type = FORMAT_TO_TYPE[node.format]
+    }
+    else if (FORMAT_TO_VALIDATOR[node.format]) {
+      validators.push(FORMAT_TO_VALIDATOR[node.format])
+    }
+  }
+
+  // 最小值/长度、最大值/长度（按类型选择对应关键字，未指定类型时取第一组出现的关键字）
+  const [min, max] = rangeFromJSONSchema(node, types[0])
+  if (min !== undefined) {
+    rule.min = min
+  }
+  if (max !== undefined) {
+    rule.max = max
+  }
+
+  if (node.pattern) {
+    rule.pattern = new RegExp(node.pattern)
+  }
+
+  if (node.enum) {
+    rule.enum = [...node.enum]
+  }
+  else if (node.const !== undefined) {
+    rule.enum = [node.const]
+  }
+
+  if (node.default !== undefined) {
+    rule.default = node.default
+  }
+
+  // 嵌套结构
+  if (node.properties) {
+    rule.type = rule.type ?? 'object'
+    rule.schema = fromJSONSchema(node)
+  }
+  if (node.items && !Array.isArray(node.items)) {
+    rule.type = rule.type ?? 'array'
+    rule.items = ruleFromJSONSchema(node.items)
+  }
+
+  // 组合关键字
+  if (node.allOf?.length) {
+    validators.push(rules.and(...node.allOf.map(sub => ruleValidator(ruleFromJSONSchema(sub)))))
+  }
+  if (node.anyOf?.length) {
+    validators.push(rules.or(...node.anyOf.map(sub => ruleValidator(ruleFromJSONSchema(sub)))))
+  }
+  if (node.oneOf?.length) {
+    validators.push(exactlyOne(node.oneOf.map(sub => ruleValidator(ruleFromJSONSchema(sub)))))
+  }
+
+  if (validators.length === 1) {
+    rule.validator = validators[0]
+  }
+  else if (validators.length > 1) {
+    rule.validator = rules.and(...validators)
+  }
+
+  return rule
+}
+
+/**
+ * 从 JSON Schema 文档创建 Schema 验证器
+ * 根节点 `additionalProperties: false` 时默认使用 `unknownKeys: 'reject'`
+ *
+ * @param document JSON Schema 文档
+ * @param options 验证器选项
+ * @returns SchemaValidator 实例
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/schemas/create-user.json')
+ * const validator = createJSONSchemaValidator(await response.json())
+ *
+ * const result = await validator.validate(formData)
+ * ```
+ */
+export function createJSONSchemaValidator<T = Record<string, any>>(
+  document: JSONSchema,
+  options: SchemaValidatorOptions = {},
+): SchemaValidator<T> {
+  return new SchemaValidator<T>(fromJSONSchema(document), {
+    ...options,
+    unknownKeys: options.unknownKeys ?? (document.additionalProperties === false ? 'reject' : undefined),
+  })
+}
+
+/**
+ * 按类型读取 min/max 关键字
+ */
+function rangeFromJSONSchema(node: JSONSchema, type?: JSONSchemaType): [number | undefined, number | undefined] {
+  const families: Record<string, [string, string]> = {
+    string: ['minLength', 'maxLength'],
+    number: ['minimum', 'maximum'],
+    integer: ['minimum', 'maximum'],
+    array: ['minItems', 'maxItems'],
+  }
+
+  const candidates = type ? [families[type]].filter(Boolean) : Object.values(families)
+
+  for (const [minKeyword, maxKeyword] of candidates) {
+    if (node[minKeyword] !== undefined || node[maxKeyword] !== undefined) {
+      return [node[minKeyword], node[maxKeyword]]
+    }
+  }
+
+  return [undefined, undefined]
+}
+
+/**
+ * 多类型验证器（如 `type: ['string', 'number']`）
+ */
+function jsonTypeValidator(types: JSONSchemaType[]): ValidatorFunction {
+  return (value, context) => {
+    const actual = Array.isArray(value)
+      ? 'array'
+      : Number.isInteger(value) ? 'integer' : typeof value
+    const valid = types.includes(actual as JSONSchemaType)
+      || (actual === 'integer' && types.includes('number'))
+
+    return {
+      valid,
+      message: valid
+        ? undefined
+        : t('TYPE_MISMATCH', { expected: types, actual: actual === 'integer' ? 'number' : actual }, context?.locale),
+      code: 'TYPE_MISMATCH',
+    }
+  }
+}
+
+/**
+ * 将 SchemaRule 包装为验证单个值的验证器（用于 allOf/anyOf/oneOf）
+ * 沿用调用方的上下文（取消信号、语言等），字段路径和表单数据以包装后的 { value } 为准
+ */
+function ruleValidator(rule: SchemaRule): ValidatorFunction {
+  const validator = new SchemaValidator({ value: rule })
+
+  return async (value, context) => {
+    const result = await validator.validate({ value }, { ...context, field: undefined, formData: undefined })
+    const [error] = result.errors
+
+    return error
+      ? { valid: false, message: error.message, code: error.code }
+      : { valid: true }
+  }
+}
+
+/**
+ * oneOf：恰好一个验证器通过
+ */
+function exactlyOne(validators: ValidatorFunction[]): ValidatorFunction {
+  return async (value, context) => {
+    const results = await Promise.all(validators.map(validator => validator(value, context)))
+    const count = results.filter(result => result.valid).length
+
+    if (count === 1) {
+      return { valid: true }
+    }
+
+    if (count === 0) {
+      const messages = results.map(result => result.message).filter(Boolean).join('; ')
+      return {
+        valid: false,
+        message: t('OR_ALL_FAILED', { messages }, context?.locale),
+        code: 'OR_ALL_FAILED',
+      }
+    }
+
+    return {
+      valid: false,
+      message: t('ONE_OF_MULTIPLE', { count }, context?.locale),
+      code: 'ONE_OF_MULTIPLE',
+    }
+  }
+}
@@ -21,6 +21,37 @@ export interface ValidationResult {
    * 附加数据
    */
   meta?: any
+
+  /**
+   * 所有失败规则的错误列表
+   * 仅在收集全部错误模式（stopOnFirstError: false）下提供，顶层 message/code 与第一条错误一致
+   */
+  errors?: RuleError[]
+}
+
+/**
+ * 单条规则的验证错误
+ */
+export interface RuleError {
+  /**
+   * 规则名称
+   */
+  rule?: string
+
+  /**
+   * 错误消息
+   */
+  message?: string
+
+  /**
+   * 错误代码
+   */
+  code?: string
+
+  /**
+   * 附加数据
+   */
+  meta?: any
 }
 
 /**
@@ -31,6 +62,17 @@ export type ValidatorFunction<T = any> = (
   context?: ValidationContext,
 ) => ValidationResult | Promise<ValidationResult>
 
+/**
+ * 声明了依赖字段的验证器函数
+ * 跨字段规则通过 dependencies 声明它从 formData 中读取的字段路径
+ */
+export type DependentValidatorFunction<T = any> = ValidatorFunction<T> & {
+  /**
+   * 依赖的字段路径
+   */
+  dependencies: string[]
+}
+
 /**
  * 验证规则
  */
@@ -56,12 +98,25 @@ export interface ValidationRule<T = any> {
   required?: boolean
 
   /**
-   * 触发时机
+   * 触发时机（规则最早在哪个事件上执行，见 ValidationTrigger）
    * @default 'change'
    */
-  trigger?: 'change' | 'blur' | 'submit'
+  trigger?: ValidationTrigger
+
+  /**
+   * 异步规则超时时间（毫秒），覆盖 Validator 的 timeout 配置
+   * 超时后以 TIMEOUT 结果结束，并通过 context.signal 通知规则取消底层工作
+   */
+  timeout?: number
 }
 
+/**
+ * 验证触发时机
+ * 按 change → blur → submit 递进：'change' 规则在所有事件上执行，'blur' 规则在失焦和提交时执行，
+ * 'submit' 规则仅在提交时执行
+ */
+export type ValidationTrigger = 'change' | 'blur' | 'submit'
+
 /**
  * 验证上下文
  */
@@ -85,6 +140,23 @@ export interface ValidationContext {
    * 附加参数
    */
   params?: any
+
+  /**
+   * 消息语言（覆盖全局语言，仅对本次验证生效）
+   */
+  locale?: string
+
+  /**
+   * 取消信号
+   * 触发后验证以 ABORTED 结果结束，异步规则也可以把它传给 fetch 等底层请求
+   */
+  signal?: AbortSignal
+
+  /**
+   * 本次验证的触发事件
+   * 设置后只执行 trigger 适用于该事件的规则，未设置时执行全部规则
+   */
+  trigger?: ValidationTrigger
 }
 
 /**
@@ -126,11 +198,34 @@ export interface SchemaRule {
    */
   validator?: ValidatorFunction
 
+  /**
+   * 触发时机（规则最早在哪个事件上执行，见 ValidationTrigger）
+   * @default 'change'
+   */
+  trigger?: ValidationTrigger
+
+  /**
+   * 依赖的其他字段（字段路径）
+   * 与 validator 声明的依赖合并，用于构建字段依赖图：这些字段变化时，FormController 会重新验证当前字段
+   */
+  dependsOn?: string[]
+
+  /**
+   * 自定义验证器超时时间（毫秒）
+   * 超时后以 TIMEOUT 错误结束，并通过 context.signal 通知验证器取消底层工作
+   */
+  timeout?: number
+
   /**
    * 错误消息
    */
   message?: string
 
+  /**
+   * 字段标签（用于消息插值，如“{label}是必填项”）
+   */
+  label?: string
+
   /**
    * 子 Schema（用于对象）
    */
@@ -186,7 +281,7 @@ export interface ValidationError {
 /**
  * Schema 验证结果
  */
-export interface SchemaValidationResult {
+export interface SchemaValidationResult<T = Record<string, any>> {
   /**
    * 是否通过验证
    */
@@ -201,6 +296,11 @@ export interface SchemaValidationResult {
    * 错误映射（按字段）
    */
   errorMap: Record<string, ValidationError[]>
+
+  /**
+   * 应用默认值和数据转换后的数据（仅在验证通过时提供）
+   */
+  data?: T
 }
 
 
@@ -0,0 +1,193 @@
+/**
+ * 取消工具
+ * 为异步验证提供 AbortSignal 支持：检测取消、与取消信号竞速，以及按字段自动取消过期的验证
+ */
+
+import type { ValidationContext, ValidationResult } from '../types'
+import { t } from '../i18n/MessageCatalog'
+
+/**
+ * 检查上下文中的取消信号是否已触发
+ * @param context 验证上下文
+ * @returns 已取消时返回 true
+ */
+export function isAborted(context?: ValidationContext): boolean {
+  return context?.signal?.aborted === true
+}
+
+/**
+ * 创建取消结果（code 为 ABORTED）
+ * @param context 验证上下文
+ * @returns 取消结果
+ */
+export function abortedResult(context?: ValidationContext): ValidationResult {
+  return {
+    valid: false,
+    message: t('ABORTED', undefined, context?.locale),
+    code: 'ABORTED',
+  }
+}
+
+/**
+ * 让验证结果与取消信号竞速
+ * 信号触发时立即以 ABORTED 结果结束，不再等待底层验证完成
+ *
+ * @param result 验证结果或其 Promise
+ * @param context 验证上下文
+ * @returns 验证结果的 Promise
+ *
+ * @example
+ * ```typescript
+ * const result = await raceAbort(remoteCheck(value, context), context)
+ * if (result.code === 'ABORTED') {
+ *   return
+ * }
+ * ```
+ */
+export function raceAbort(
+  result: ValidationResult | Promise<ValidationResult>,
+  context?: ValidationContext,
+): Promise<ValidationResult> {
+  const signal = context?.signal
+
+  if (!signal || !(result instanceof Promise)) {
+    return Promise.resolve(result)
+  }
+
+  if (signal.aborted) {
+    return Promise.resolve(abortedResult(context))
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(abortedResult(context))
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    result.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      },
+    )
+  })
+}
+
+/**
+ * 合并多个取消信号，任意一个触发时合并后的信号也触发
+ * 优先使用 AbortSignal.any，不会在长期存在的源信号（如整个表单生命周期共用的信号）上累积监听器
+ *
+ * @param signals 取消信号列表（忽略 undefined）
+ * @returns 合并后的信号，没有信号时返回 undefined
+ */
+export function linkSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const sources = signals.filter((signal): signal is AbortSignal => !!signal)
+
+  if (sources.length <= 1) {
+    return sources[0]
+  }
+
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any(sources)
+  }
+
+  // 不支持 AbortSignal.any 的环境：任意信号触发后移除其余信号上的监听器
+  const controller = new AbortController()
+  const abort = () => {
+    sources.forEach(signal => signal.removeEventListener('abort', abort))
+    controller.abort()
+  }
+
+  for (const signal of sources) {
+    if (signal.aborted) {
+      abort()
+      break
+    }
+    signal.addEventListener('abort', abort, { once: true })
+  }
+
+  return controller.signal
+}
+
+/**
+ * 取消作用域
+ * 按键（通常是字段名）管理 AbortController，同一个键开始新的验证时自动取消上一次尚未完成的验证
+ *
+ * @example
+ * ```typescript
+ * const scope = createAbortScope()
+ *
+ * async function onInput(value: string) {
+ *   const signal = scope.next('username')
+ *   const result = await validator.validate(value, { field: 'username', signal })
+ *   if (result.code !== 'ABORTED') {
+ *     showResult(result)
+ *   }
+ * }
+ * ```
+ */
+export class AbortScope {
+  /** 各键当前的控制器 */
+  private controllers = new Map<string, AbortController>()
+
+  /**
+   * 开始新的验证：取消该键上一次验证，并返回新的取消信号
+   * @param key 作用域键
+   * @returns 新的取消信号
+   */
+  next(key = ''): AbortSignal {
+    this.abort(key)
+
+    const controller = new AbortController()
+    this.controllers.set(key, controller)
+    return controller.signal
+  }
+
+  /**
+   * 验证完成后释放信号（仅当它仍是该键的当前信号时）
+   * @param key 作用域键
+   * @param signal 要释放的信号
+   */
+  release(key: string, signal: AbortSignal): void {
+    if (this.controllers.get(key)?.signal === signal) {
+      this.controllers.delete(key)
+    }
+  }
+
+  /**
+   * 取消指定键正在进行的验证
+   * @param key 作用域键
+   */
+  abort(key = ''): void {
+    const controller = this.controllers.get(key)
+    if (controller) {
+      controller.abort()
+      this.controllers.delete(key)
+    }
+  }
+
+  /**
+   * 取消所有正在进行的验证
+   */
+  abortAll(): void {
+    this.controllers.forEach(controller => controller.abort())
+    this.controllers.clear()
+  }
+
+  /**
+   * 正在进行的验证数量
+   */
+  get size(): number {
+    return this.controllers.size
+  }
+}
+
+/**
+ * 创建取消作用域
+ * @returns AbortScope 实例
+ */
+export function createAbortScope(): AbortScope {
+  return new AbortScope()
+}
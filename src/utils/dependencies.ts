@@ -0,0 +1,54 @@
+/**
+ * 依赖声明工具
+ * 为跨字段验证器附加依赖的字段路径，供依赖图计算受影响的字段
+ */
+
+import type { DependentValidatorFunction, ValidationContext, ValidatorFunction } from '../types'
+
+/**
+ * 为验证器声明依赖的字段
+ * 会与验证器上已声明的依赖合并；返回包装后的新函数，不修改传入的验证器（如共享的内置规则）
+ *
+ * @param validator 验证器函数
+ * @param fields 依赖的字段路径
+ * @returns 附加了 dependencies 的新验证器
+ *
+ * @example
+ * ```typescript
+ * const checkCity = withDependencies((value, context) => {
+ *   return { valid: isCityOf(value, context?.formData?.country) }
+ * }, ['country'])
+ * ```
+ */
+export function withDependencies<T = any>(
+  validator: ValidatorFunction<T>,
+  fields: string[],
+): DependentValidatorFunction<T> {
+  const dependencies = Array.from(new Set([...getDependencies(validator), ...fields]))
+  return Object.assign((value: T, context?: ValidationContext) => validator(value, context), { dependencies })
+}
+
+/**
+ * 获取验证器声明的依赖字段
+ * @param validator 验证器函数
+ * @returns 依赖的字段路径（未声明时为空数组）
+ */
+export function getDependencies(validator?: ValidatorFunction): string[] {
+  return (validator as Partial<DependentValidatorFunction> | undefined)?.dependencies ?? []
+}
+
+/**
+ * 让组合验证器继承子验证器声明的依赖
+ * @param validator 组合后的验证器
+ * @param validators 子验证器
+ * @param fields 组合器自身额外依赖的字段路径
+ * @returns 组合后的验证器（没有任何依赖时原样返回）
+ */
+export function inheritDependencies<T = any>(
+  validator: ValidatorFunction<T>,
+  validators: Array<ValidatorFunction | undefined>,
+  fields: string[] = [],
+): ValidatorFunction<T> {
+  const dependencies = [...validators.flatMap(getDependencies), ...fields]
+  return dependencies.length > 0 ? withDependencies(validator, dependencies) : validator
+}
@@ -107,6 +107,73 @@ export function simpleKey(value: any, ruleName: string, params?: any): string {
   return `${ruleName}:${valueStr}:${paramsStr}`
 }
 
+/**
+ * 计算字符串（UTF-8 编码）的 SHA-1 摘要
+ * 同步实现，不依赖 Web Crypto，用于离线的密码泄露列表等需要稳定摘要的场景；不适用于安全签名
+ *
+ * @param str 要哈希的字符串
+ * @returns 40 位大写十六进制摘要
+ *
+ * @example
+ * ```typescript
+ * sha1('abc') // 'A9993E364706816ABA3E25717850C26C9CD0D89D'
+ * ```
+ */
+export function sha1(str: string): string {
+  const bytes = Array.from(new TextEncoder().encode(str))
+  const bitLength = bytes.length * 8
+
+  // 填充：0x80 + 若干 0x00，使长度模 64 余 56，再追加 64 位大端长度
+  bytes.push(0x80)
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0)
+  }
+  for (let i = 7; i >= 0; i--) {
+    bytes.push(i >= 4 ? 0 : (bitLength >>> (i * 8)) & 0xFF)
+  }
+
+  const h = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0]
+  const w = new Uint32Array(80)
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16]
+      w[i] = (x << 1) | (x >>> 31)
+    }
+
+    let [a, b, c, d, e] = h
+
+    for (let i = 0; i < 80; i++) {
+      const f = i < 20
+        ? ((b & c) | (~b & d)) + 0x5A827999
+        : i < 40
+          ? (b ^ c ^ d) + 0x6ED9EBA1
+          : i < 60
+            ? ((b & c) | (b & d) | (c & d)) + 0x8F1BBCDC
+            : (b ^ c ^ d) + 0xCA62C1D6
+      const temp = (((a << 5) | (a >>> 27)) + f + e + w[i]) | 0
+
+      e = d
+      d = c
+      c = (b << 30) | (b >>> 2)
+      b = a
+      a = temp
+    }
+
+    h[0] = (h[0] + a) | 0
+    h[1] = (h[1] + b) | 0
+    h[2] = (h[2] + c) | 0
+    h[3] = (h[3] + d) | 0
+    h[4] = (h[4] + e) | 0
+  }
+
+  return h.map(part => (part >>> 0).toString(16).padStart(8, '0')).join('').toUpperCase()
+}
+
 /**
  * 缓存键生成策略
  */
@@ -0,0 +1,108 @@
+/**
+ * 超时工具
+ * 为异步验证规则提供超时控制：超时后以 TIMEOUT 结果结束，并通过取消信号通知规则停止底层工作
+ */
+
+import type { ValidationContext, ValidationResult, ValidatorFunction } from '../types'
+import { t } from '../i18n/MessageCatalog'
+import { linkSignals } from './abort'
+
+/**
+ * 验证规则超时错误
+ * 超时时传给 Validator 的 onError 钩子
+ */
+export class ValidationTimeoutError extends Error {
+  /** 超时时间（毫秒） */
+  readonly timeout: number
+
+  /** 规则名称 */
+  readonly rule?: string
+
+  /**
+   * 构造函数
+   * @param timeout 超时时间（毫秒）
+   * @param rule 规则名称
+   */
+  constructor(timeout: number, rule?: string) {
+    super(`Validation rule "${rule || 'unknown'}" timed out after ${timeout}ms`)
+    this.name = 'ValidationTimeoutError'
+    this.timeout = timeout
+    this.rule = rule
+  }
+}
+
+/**
+ * 创建超时结果（code 为 TIMEOUT）
+ * @param timeout 超时时间（毫秒）
+ * @param context 验证上下文
+ * @returns 超时结果
+ */
+export function timeoutResult(timeout: number, context?: ValidationContext): ValidationResult {
+  return {
+    valid: false,
+    message: t('TIMEOUT', { timeout }, context?.locale),
+    code: 'TIMEOUT',
+    meta: { timeout },
+  }
+}
+
+/**
+ * 带超时执行验证器
+ * - 同步验证器直接返回结果，不受超时影响
+ * - 异步验证器在超时后以 TIMEOUT 结果结束，并触发传给规则的取消信号（context.signal）
+ *
+ * @param validator 验证器函数
+ * @param value 验证值
+ * @param context 验证上下文
+ * @param timeout 超时时间（毫秒），未设置或不大于 0 时不限制
+ * @param onTimeout 超时回调
+ * @returns 验证结果或其 Promise
+ *
+ * @example
+ * ```typescript
+ * const result = await runWithTimeout(checkUsername, 'john', context, 3000)
+ * if (result.code === 'TIMEOUT') {
+ *   console.warn('用户名检查超时')
+ * }
+ * ```
+ */
+export function runWithTimeout<T = any>(
+  validator: ValidatorFunction<T>,
+  value: T,
+  context: ValidationContext | undefined,
+  timeout: number | undefined,
+  onTimeout?: () => void,
+): ValidationResult | Promise<ValidationResult> {
+  if (!timeout || timeout <= 0) {
+    return validator(value, context)
+  }
+
+  const controller = new AbortController()
+  const result = validator(value, {
+    ...context,
+    signal: linkSignals(context?.signal, controller.signal),
+  })
+
+  if (!(result instanceof Promise)) {
+    return result
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort()
+      onTimeout?.()
+      resolve(timeoutResult(timeout, context))
+    }, timeout)
+
+    result.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (error) => {
+        clearTimeout(timer)
+        reject(error)
+      },
+    )
+  })
+}
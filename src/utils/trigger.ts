@@ -0,0 +1,37 @@
+/**
+ * 触发时机工具
+ * 判断规则在某次验证事件上是否需要执行
+ */
+
+import type { ValidationTrigger } from '../types'
+
+/** 触发时机的先后顺序 */
+const TRIGGER_ORDER: Record<ValidationTrigger, number> = {
+  change: 0,
+  blur: 1,
+  submit: 2,
+}
+
+/**
+ * 判断规则是否应在指定事件上执行
+ * 规则的 trigger 表示它最早执行的事件：'change' 规则在所有事件上执行，
+ * 'blur' 规则在失焦和提交时执行，'submit' 规则仅在提交时执行
+ *
+ * @param ruleTrigger 规则的触发时机（未设置时视为 'change'）
+ * @param trigger 当前验证事件（未设置时执行全部规则）
+ * @returns 需要执行时返回 true
+ *
+ * @example
+ * ```typescript
+ * shouldRunOnTrigger('blur', 'change') // false
+ * shouldRunOnTrigger('blur', 'submit') // true
+ * shouldRunOnTrigger(undefined, 'blur') // true
+ * ```
+ */
+export function shouldRunOnTrigger(ruleTrigger?: ValidationTrigger, trigger?: ValidationTrigger): boolean {
+  if (!trigger) {
+    return true
+  }
+
+  return TRIGGER_ORDER[ruleTrigger ?? 'change'] <= TRIGGER_ORDER[trigger]
+}
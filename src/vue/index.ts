@@ -0,0 +1,10 @@
+/**
+ * Vue 3 集成导出（@ldesign/validator/vue）
+ */
+
+export { toElementPlusRule, toElementPlusRules } from '../adapters/element-plus'
+export type { ElementPlusRule, ElementPlusRulesOptions } from '../adapters/element-plus'
+export { useSchemaForm } from './useSchemaForm'
+export type { UseSchemaFormOptions, UseSchemaFormReturn } from './useSchemaForm'
+export { useValidator } from './useValidator'
+export type { UseValidatorOptions, UseValidatorReturn } from './useValidator'
@@ -0,0 +1,221 @@
+/**
+ * useSchemaForm 组合式函数
+ * 把响应式表单值绑定到 FormController：v-model 修改值时按 'change' 验证（可防抖），
+ * 失焦时按 'blur' 验证，提交时验证全部字段，并提供响应式的表单和字段状态
+ */
+
+import type { ComputedRef, ShallowRef } from 'vue'
+import type { FieldState, FormControllerOptions, FormState, SubmitHandler } from '../form/FormController'
+import type { Infer } from '../schema/infer'
+import type { Schema, SchemaValidationResult, ValidationTrigger } from '../types'
+import { computed, onScopeDispose, reactive, shallowRef, toRaw, watch } from 'vue'
+import { FormController } from '../form/FormController'
+
+/**
+ * useSchemaForm 选项
+ */
+export interface UseSchemaFormOptions<T = Record<string, any>> extends FormControllerOptions<T> {
+  /**
+   * 值变化后 'change' 验证的防抖时间（毫秒），适合远程唯一性检查等异步规则
+   * @default 0
+   */
+  debounce?: number
+}
+
+/**
+ * useSchemaForm 返回值
+ */
+export interface UseSchemaFormReturn<T extends Record<string, any> = Record<string, any>> {
+  /** 底层表单控制器 */
+  controller: FormController<T>
+
+  /** 响应式表单值（可直接用于 v-model） */
+  values: T
+
+  /** 表单状态 */
+  state: Readonly<ShallowRef<FormState<T>>>
+
+  /** 各字段状态 */
+  fields: ComputedRef<Record<string, FieldState>>
+
+  /** 各字段的第一条错误消息 */
+  errors: ComputedRef<Record<string, string | undefined>>
+
+  /** 是否没有错误 */
+  valid: ComputedRef<boolean>
+
+  /** 是否有字段被修改 */
+  dirty: ComputedRef<boolean>
+
+  /** 是否有字段正在验证 */
+  validating: ComputedRef<boolean>
+
+  /** 是否正在提交 */
+  submitting: ComputedRef<boolean>
+
+  /** 失焦时调用，按 'blur' 验证字段 */
+  blur: (field: keyof T & string) => Promise<void>
+
+  /** 立即验证单个字段 */
+  validateField: (field: keyof T & string, trigger?: ValidationTrigger) => Promise<FieldState>
+
+  /** 验证全部字段 */
+  validate: () => Promise<SchemaValidationResult<T>>
+
+  /** 提交表单 */
+  submit: (onSubmit?: SubmitHandler<T>) => Promise<SchemaValidationResult<T>>
+
+  /** 重置表单 */
+  reset: (values?: Partial<T>) => void
+}
+
+/**
+ * 深拷贝普通对象和数组（其他值原样返回），避免表单值与初始值共享引用
+ */
+function cloneValue<V>(value: V): V {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as V
+  }
+
+  if (Object.prototype.toString.call(value) === '[object Object]') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, any>).map(([key, item]) => [key, cloneValue(item)]),
+    ) as V
+  }
+
+  return value
+}
+
+/**
+ * 创建绑定到 Schema 的响应式表单
+ *
+ * @param schema 表单 Schema
+ * @param options 选项（同 FormControllerOptions，另有 debounce）
+ * @returns 响应式表单状态和操作
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { values, errors, submitting, blur, submit } = useSchemaForm({
+ *   email: { type: 'email', required: true },
+ *   username: { type: 'string', validator: checkUnique, trigger: 'blur' },
+ * }, {
+ *   initialValues: { email: '', username: '' },
+ *   onSubmit: data => api.register(data),
+ * })
+ * </script>
+ *
+ * <template>
+ *   <input v-model="values.username" @blur="blur('username')">
+ *   <span>{{ errors.username }}</span>
+ *   <button :disabled="submitting" @click="submit()">注册</button>
+ * </template>
+ * ```
+ */
+export function useSchemaForm<const S extends Schema>(
+  schema: S,
+  options: UseSchemaFormOptions<Infer<S>> = {},
+): UseSchemaFormReturn<Infer<S>> {
+  type T = Infer<S>
+
+  const controller = new FormController<T>(schema, options)
+  const values = reactive(cloneValue(controller.getValues() as Record<string, any>)) as T
+  const state = shallowRef<FormState<T>>(controller.getState())
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  // reset() 同步表单值时不触发验证
+  let syncing = false
+
+  const clearTimer = (field: string) => {
+    clearTimeout(timers.get(field))
+    timers.delete(field)
+  }
+
+  const clearTimers = () => {
+    timers.forEach(timer => clearTimeout(timer))
+    timers.clear()
+  }
+
+  const onChange = (field: keyof T & string, value: any) => {
+    if (syncing) {
+      return
+    }
+
+    controller.setValue(field, cloneValue(toRaw(value)), { validate: false })
+    clearTimer(field)
+
+    if (options.debounce) {
+      timers.set(field, setTimeout(() => {
+        timers.delete(field)
+        controller.validateAffected(field, 'change')
+      }, options.debounce))
+    }
+    else {
+      controller.validateAffected(field, 'change')
+    }
+  }
+
+  const fieldNames = Array.from(new Set([...Object.keys(schema), ...Object.keys(values)])) as Array<keyof T & string>
+  for (const field of fieldNames) {
+    watch(() => (values as Record<string, any>)[field], value => onChange(field, value), {
+      deep: true,
+      flush: 'sync',
+    })
+  }
+
+  const unsubscribe = controller.subscribe((current) => {
+    state.value = current
+  })
+
+  onScopeDispose(() => {
+    clearTimers()
+    unsubscribe()
+  })
+
+  const reset = (next?: Partial<T>) => {
+    clearTimers()
+    controller.reset(next)
+
+    syncing = true
+    try {
+      const current = values as Record<string, any>
+      const resetValues = cloneValue(controller.getValues() as Record<string, any>)
+      Object.keys(current).filter(key => !(key in resetValues)).forEach(key => delete current[key])
+      Object.assign(current, resetValues)
+    }
+    finally {
+      syncing = false
+    }
+  }
+
+  return {
+    controller,
+    values,
+    state,
+    fields: computed(() => state.value.fields),
+    errors: computed(() => Object.fromEntries(
+      Object.entries(state.value.fields).map(([field, fieldState]) => [field, fieldState.errors[0]?.message]),
+    )),
+    valid: computed(() => state.value.valid),
+    dirty: computed(() => state.value.dirty),
+    validating: computed(() => state.value.validating),
+    submitting: computed(() => state.value.submitting),
+    blur: (field) => {
+      clearTimer(field)
+      return controller.blur(field)
+    },
+    validateField: (field, trigger) => {
+      clearTimer(field)
+      return controller.validateField(field, trigger)
+    },
+    validate: () => {
+      clearTimers()
+      return controller.validate()
+    },
+    submit: (onSubmit) => {
+      clearTimers()
+      return controller.submit(onSubmit)
+    },
+    reset,
+  }
+}
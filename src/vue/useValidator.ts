@@ -0,0 +1,169 @@
+/**
+ * useValidator 组合式函数
+ * 把响应式值绑定到 Validator：值变化时自动（可防抖）验证，并提供响应式的结果、错误和验证中状态
+ */
+
+import type { ComputedRef, MaybeRefOrGetter, Ref, ShallowRef } from 'vue'
+import type { Validator } from '../core/Validator'
+import type { RuleError, ValidationContext, ValidationResult, ValidationTrigger } from '../types'
+import { computed, onScopeDispose, readonly, ref, shallowRef, toValue, watch } from 'vue'
+import { linkSignals } from '../utils/abort'
+
+/**
+ * useValidator 选项
+ */
+export interface UseValidatorOptions {
+  /**
+   * 值变化时是否自动验证（按 'change' 触发）
+   * @default true
+   */
+  auto?: boolean
+
+  /**
+   * 是否立即验证一次
+   * @default false
+   */
+  immediate?: boolean
+
+  /**
+   * 自动验证的防抖时间（毫秒），适合远程唯一性检查等异步规则
+   * @default 0
+   */
+  debounce?: number
+
+  /**
+   * 验证上下文（可以是 ref 或 getter）
+   */
+  context?: MaybeRefOrGetter<ValidationContext | undefined>
+}
+
+/**
+ * useValidator 返回值
+ */
+export interface UseValidatorReturn {
+  /** 最近一次验证结果（尚未验证时为 null） */
+  result: Readonly<ShallowRef<ValidationResult | null>>
+
+  /** 是否有效（尚未验证时为 true） */
+  valid: ComputedRef<boolean>
+
+  /** 第一条错误消息 */
+  error: ComputedRef<string | undefined>
+
+  /** 所有错误（收集全部错误模式下包含每条失败的规则） */
+  errors: ComputedRef<RuleError[]>
+
+  /** 是否正在验证 */
+  validating: Readonly<Ref<boolean>>
+
+  /**
+   * 立即验证
+   * @param trigger 触发事件（不设置时执行全部规则）
+   */
+  validate: (trigger?: ValidationTrigger) => Promise<ValidationResult>
+
+  /** 失焦时调用，按 'blur' 立即验证 */
+  blur: () => Promise<ValidationResult>
+
+  /** 取消进行中的验证并清除结果 */
+  reset: () => void
+}
+
+/**
+ * 把响应式值绑定到 Validator
+ * 新的验证开始时，上一次尚未完成的验证会被取消，其结果不会写入状态
+ *
+ * @param source 要验证的值（ref、getter 或普通值）
+ * @param validator 验证器
+ * @param options 选项
+ * @returns 响应式验证状态
+ *
+ * @example
+ * ```typescript
+ * const username = ref('')
+ * const { error, validating, blur } = useValidator(username, usernameValidator, { debounce: 300 })
+ * ```
+ */
+export function useValidator<T = any>(
+  source: MaybeRefOrGetter<T>,
+  validator: Validator<T>,
+  options: UseValidatorOptions = {},
+): UseValidatorReturn {
+  const result = shallowRef<ValidationResult | null>(null)
+  const validating = ref(false)
+
+  let controller: AbortController | undefined
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const cancel = () => {
+    clearTimeout(timer)
+    timer = undefined
+    controller?.abort()
+    controller = undefined
+  }
+
+  const validate = async (trigger?: ValidationTrigger): Promise<ValidationResult> => {
+    cancel()
+
+    const current = new AbortController()
+    controller = current
+    validating.value = true
+
+    const context = toValue(options.context)
+    const validation = await validator.validate(toValue(source), {
+      ...context,
+      trigger,
+      signal: linkSignals(context?.signal, current.signal),
+    })
+
+    // 被更新的验证取代时丢弃结果
+    if (!current.signal.aborted) {
+      controller = undefined
+      result.value = validation
+      validating.value = false
+    }
+
+    return validation
+  }
+
+  const reset = () => {
+    cancel()
+    result.value = null
+    validating.value = false
+  }
+
+  if (options.auto ?? true) {
+    watch(() => toValue(source), () => {
+      if (options.debounce) {
+        clearTimeout(timer)
+        timer = setTimeout(() => validate('change'), options.debounce)
+      }
+      else {
+        validate('change')
+      }
+    }, { deep: true })
+  }
+
+  if (options.immediate) {
+    validate('change')
+  }
+
+  onScopeDispose(cancel)
+
+  return {
+    result: readonly(result) as Readonly<ShallowRef<ValidationResult | null>>,
+    valid: computed(() => result.value?.valid ?? true),
+    error: computed(() => result.value?.valid === false ? result.value.message : undefined),
+    errors: computed(() => {
+      const current = result.value
+      if (!current || current.valid) {
+        return []
+      }
+      return current.errors ?? [{ message: current.message, code: current.code, meta: current.meta }]
+    }),
+    validating: readonly(validating),
+    validate,
+    blur: () => validate('blur'),
+    reset,
+  }
+}